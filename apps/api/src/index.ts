@@ -4,7 +4,14 @@ import express from "express";
 import path from "path";
 import { fileURLToPath } from "url";
 
+import { analyticsRouter } from "./routes/analytics.js";
 import { evaluateRouter } from "./routes/evaluate.js";
+import { exportRouter } from "./routes/export.js";
+import { importRouter } from "./routes/import.js";
+import { jobsRouter } from "./routes/jobs.js";
+import { llmRouter } from "./routes/llm.js";
+import { rosterRouter } from "./routes/roster.js";
+import { getStorage } from "./services/storage.js";
 
 // Load `apps/api/.env` regardless of where the process is started from (repo root vs apps/api).
 const __filename = fileURLToPath(import.meta.url);
@@ -16,14 +23,23 @@ dotenv.config(); // fallback to cwd `.env` if present
 const port = Number(process.env.PORT || 8787);
 const webOrigin = process.env.WEB_ORIGIN || "http://localhost:5173";
 
+// Fail at startup, not on the first request, when STORAGE_BACKEND is misconfigured.
+const storage = getStorage();
+
 const app = express();
 app.use(cors({ origin: webOrigin }));
 app.use(express.json({ limit: "10mb" }));
 
 app.get("/healthz", (_req, res) => res.json({ ok: true }));
 app.use("/api", evaluateRouter);
+app.use("/api", jobsRouter);
+app.use("/api", rosterRouter);
+app.use("/api", analyticsRouter);
+app.use("/api", exportRouter);
+app.use("/api", importRouter);
+app.use("/api", llmRouter);
 
 app.listen(port, () => {
   // Keep logs minimal; user runs locally.
-  console.log(`[api] listening on http://localhost:${port}`);
+  console.log(`[api] listening on http://localhost:${port} (storage: ${storage.backend})`);
 });
@@ -0,0 +1,36 @@
+import express from "express";
+import { z } from "zod";
+
+import { classAnalytics, examAnalytics, studentMastery, studentTrend } from "../services/analytics.js";
+import { describeRosterError } from "./errors.js";
+
+// Aggregates over stored evaluations: student trends and topic mastery, exam and class distributions.
+export const analyticsRouter = express.Router();
+
+const AnalyticsQuerySchema = z.object({
+  // ?reviewedOnly=true skips evaluations a teacher hasn't signed off.
+  reviewedOnly: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((v) => v === "true")
+});
+
+type Analytics = (id: string, options: { reviewedOnly: boolean }) => Promise<unknown>;
+
+function analyticsRoute(run: Analytics): express.RequestHandler {
+  return async (req, res) => {
+    const query = AnalyticsQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).json({ error: "Invalid query", details: query.error.flatten() });
+    try {
+      return res.json(await run(req.params.id, query.data));
+    } catch (err) {
+      const { status, body } = describeRosterError(err);
+      return res.status(status).json(body);
+    }
+  };
+}
+
+analyticsRouter.get("/analytics/students/:id/trend", analyticsRoute(studentTrend));
+analyticsRouter.get("/analytics/students/:id/mastery", analyticsRoute(studentMastery));
+analyticsRouter.get("/analytics/exams/:id", analyticsRoute(examAnalytics));
+analyticsRouter.get("/analytics/classes/:id", analyticsRoute(classAnalytics));
@@ -0,0 +1,134 @@
+import { PipelineError } from "../services/evaluatePipeline.js";
+import { ReviewError } from "../services/review.js";
+import { RosterError } from "../services/roster.js";
+import { SpreadsheetError } from "../services/spreadsheet.js";
+
+export type ErrorResponse = { status: number; body: Record<string, unknown> };
+
+export function describeGradingError(err: unknown): ErrorResponse {
+  const known = describeKnownError(err);
+  if (known) return known;
+
+  const { status, code, type, requestId, message } = providerErrorDetails(err);
+
+  // If OpenAI rejects before processing, dashboards can show "0 tokens used".
+  if (status === 429 && (code === "insufficient_quota" || type === "insufficient_quota")) {
+    return {
+      status: 402,
+      body: {
+        error:
+          "OpenAI API rejected the request due to insufficient quota for the project/org tied to this API key. " +
+          "Enable billing for that project/org or generate a key under a billed project, then retry.",
+        details: { status, code, type, requestId, message }
+      }
+    };
+  }
+
+  if (status === 429) {
+    return {
+      status: 429,
+      body: {
+        error: "OpenAI rate limit exceeded. Slow down requests or add retry/backoff.",
+        details: { status, code, type, requestId, message }
+      }
+    };
+  }
+
+  if (status === 401 || status === 403) {
+    return {
+      status: 401,
+      body: {
+        error: "OpenAI authentication/authorization failed. Check OPENAI_API_KEY and project permissions.",
+        details: { status, code, type, requestId, message }
+      }
+    };
+  }
+
+  console.error(err);
+  return { status: 500, body: { error: "Internal error", details: { status, code, type, requestId, message } } };
+}
+
+export function describePaperError(err: unknown): ErrorResponse {
+  const known = describeKnownError(err);
+  if (known) return known;
+
+  const { status, code, type, requestId, message, headers } = providerErrorDetails(err);
+  const openaiProject = String(headers["openai-project"] || "");
+  const openaiOrganization = String(headers["openai-organization"] || "");
+
+  if (status === 429 && (code === "insufficient_quota" || type === "insufficient_quota")) {
+    return {
+      status: 402,
+      body: {
+        error:
+          "Paper generation requires an LLM. OpenAI quota/billing is not enabled for this API key/project. " +
+          "Enable billing or set PAPER_PROVIDER=ollama to use a local model.",
+        details: { status, code, type, requestId, message, openaiProject, openaiOrganization }
+      }
+    };
+  }
+
+  console.error(err);
+  return {
+    status: 500,
+    body: {
+      error: "Internal error",
+      details: { status, code, type, requestId, message, openaiProject, openaiOrganization }
+    }
+  };
+}
+
+// Roster CRUD has no provider calls; anything unexpected is a plain 500.
+export function describeRosterError(err: unknown): ErrorResponse {
+  const known = describeKnownError(err);
+  if (known) return known;
+  console.error(err);
+  return { status: 500, body: { error: "Internal error" } };
+}
+
+// Job submission and polling only touch the job store; a failure there means it is unavailable.
+export function describeJobStoreError(err: unknown): ErrorResponse {
+  const known = describeKnownError(err);
+  if (known) return known;
+  console.error(err);
+  const message = err instanceof Error ? err.message : String(err);
+  return { status: 503, body: { error: "Job store unavailable", details: message } };
+}
+
+// OpenAI SDK errors, LlmError and plain errors name their HTTP details slightly differently.
+function providerErrorDetails(err: unknown) {
+  const e = fields(err);
+  const nested = fields(e.error);
+  return {
+    status: Number(e.status || fields(e.response).status || 0),
+    code: String(e.code || nested.code || ""),
+    type: String(e.type || nested.type || ""),
+    requestId: String(e.request_id || e.requestId || ""),
+    message: String(nested.message || e.message || "Internal error"),
+    headers: fields(e.headers)
+  };
+}
+
+function fields(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+}
+
+// Errors raised deliberately with an HTTP status (bad input, unknown ids, review conflicts, unreadable sheets).
+function describeKnownError(err: unknown): ErrorResponse | null {
+  if (err instanceof PipelineError) return describePipelineError(err);
+  if (err instanceof RosterError) return { status: err.status, body: { error: err.message } };
+  if (err instanceof SpreadsheetError) return { status: 400, body: { error: err.message } };
+  if (err instanceof ReviewError) {
+    const body: Record<string, unknown> = { error: err.message };
+    if (err.details !== undefined) body.details = err.details;
+    return { status: err.status, body };
+  }
+  return null;
+}
+
+function describePipelineError(err: PipelineError): ErrorResponse {
+  const body: Record<string, unknown> = { error: err.message };
+  if (err.extra.warnings) body.warnings = err.extra.warnings;
+  if (err.extra.details !== undefined) body.details = err.extra.details;
+  return { status: err.status, body };
+}
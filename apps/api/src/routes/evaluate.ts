@@ -2,35 +2,55 @@ import express from "express";
 import multer from "multer";
 import { z } from "zod";
 
+import {
+  EvaluateBatchBodySchema,
+  EvaluateBodySchema,
+  jsonField,
+  MAX_BATCH_SHEETS,
+  runAlignment,
+  runBatchEvaluation,
+  runEvaluation
+} from "../services/evaluatePipeline.js";
 import { extractTextFromUpload } from "../services/extractText.js";
-import { extractQaPairs } from "../services/extractQaPairs.js";
-import { gradeSubmission } from "../services/grading.js";
 import { extractScoreFromText } from "../services/extractScore.js";
-import { generatePaper } from "../services/paperGenerator.js";
-import { GeneratedPaperSchema, PaperSpecSchema } from "../services/paperSchema.js";
+import { PreprocessOptionsSchema, resolvePreprocessSteps } from "../services/imagePreprocess.js";
+import { MarksTemplateSchema } from "../services/marksLayout.js";
 import { buildQuestionPaperPdf, buildSolutionPdf } from "../services/paperPdf.js";
-import { getEvaluationIfConfigured, maybePersistEvaluation } from "../services/persist.js";
-import { maybePersistManualScore } from "../services/persistManualScore.js";
-import { getPaperIfConfigured, maybePersistPaper } from "../services/persistPaper.js";
+import { PaperRequestSchema, runPaperGeneration } from "../services/paperPipeline.js";
+import { getEvaluation, listEvaluations, updateEvaluation } from "../services/persist.js";
+import { getManualScore, listManualScores, persistManualScore } from "../services/persistManualScore.js";
+import { getPaper, listPapers } from "../services/persistPaper.js";
 import { buildPdfReport } from "../services/reportPdf.js";
+import { applyEvaluationEdit, EvaluationEditSchema } from "../services/review.js";
+import { getSchool, resolveRosterLinks, RosterFilterSchema, RosterLinksInputSchema } from "../services/roster.js";
+import { describeGradingError, describePaperError, describeRosterError } from "./errors.js";
 
-const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 25 * 1024 * 1024 } });
+export const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 25 * 1024 * 1024 } });
+
+// A handwritten answer sheet is often several photos; each side (model/student) accepts up to this many pages.
+export const MAX_PAGE_UPLOADS = 30;
 
 export const evaluateRouter = express.Router();
 
-const EvaluateBodySchema = z.object({
-  modelText: z.string().optional(),
-  studentText: z.string().optional(),
-  maxMarksPerQuestion: z.coerce.number().int().min(1).max(50).default(5),
-  strictness: z.enum(["lenient", "balanced", "strict"]).default("strict"),
-  subject: z.string().optional(),
-});
+type Handler = (req: express.Request, res: express.Response) => Promise<unknown>;
+
+// Stored evaluations, scores and papers: a storage failure (Firestore, local files) answers 500 instead of hanging.
+function handle(run: Handler): express.RequestHandler {
+  return async (req, res) => {
+    try {
+      await run(req, res);
+    } catch (err) {
+      const { status, body } = describeRosterError(err);
+      res.status(status).json(body);
+    }
+  };
+}
 
 evaluateRouter.post(
   "/evaluate",
   upload.fields([
-    { name: "modelFile", maxCount: 1 },
-    { name: "studentFile", maxCount: 1 }
+    { name: "modelFile", maxCount: MAX_PAGE_UPLOADS },
+    { name: "studentFile", maxCount: MAX_PAGE_UPLOADS }
   ]),
   async (req, res) => {
     try {
@@ -40,108 +60,80 @@ evaluateRouter.post(
       }
 
       const files = req.files as Record<string, Express.Multer.File[]> | undefined;
-      const modelFile = files?.modelFile?.[0];
-      const studentFile = files?.studentFile?.[0];
-
-      const modelTextOverride = parsed.data.modelText && parsed.data.modelText.trim();
-      const studentTextOverride = parsed.data.studentText && parsed.data.studentText.trim();
-
-      const modelExtraction = modelFile ? await extractTextFromUpload(modelFile) : null;
-      const studentExtraction = studentFile ? await extractTextFromUpload(studentFile) : null;
-
-      const modelText = modelTextOverride || modelExtraction?.text || "";
-      const studentText = studentTextOverride || studentExtraction?.text || "";
-
-      const extractionWarnings = [
-        ...(modelExtraction?.warnings ?? []).map((w) => `Model file: ${w}`),
-        ...(studentExtraction?.warnings ?? []).map((w) => `Student file: ${w}`)
-      ];
-
-      if (!modelText.trim()) {
-        return res.status(400).json({
-          error: "Model answer text is empty. Paste text or upload images for OCR.",
-          warnings: extractionWarnings
-        });
-      }
-      if (!studentText.trim()) {
-        return res.status(400).json({
-          error: "Student answer text is empty. Paste text or upload images for OCR.",
-          warnings: extractionWarnings
-        });
-      }
-
-      const modelQa = extractQaPairs(modelText);
-      const studentQa = extractQaPairs(studentText);
-
-      const evaluation = await gradeSubmission({
-        modelQa,
-        studentQa,
-        maxMarksPerQuestion: parsed.data.maxMarksPerQuestion,
-        strictness: parsed.data.strictness,
-        subject: parsed.data.subject
-      });
-
-      const persisted = await maybePersistEvaluation({
-        evaluation,
-        modelText,
-        studentText
-      });
-
-      // Optional: include PDF bytes as base64 for the UI to download.
-      const pdfBuffer = await buildPdfReport({
-        evaluation,
-        meta: {
-          evaluationId: persisted.evaluationId,
-          createdAtIso: persisted.createdAtIso
-        }
+      const result = await runEvaluation(parsed.data, {
+        modelFiles: files?.modelFile,
+        studentFiles: files?.studentFile
       });
+      return res.json(result);
+    } catch (err) {
+      const { status, body } = describeGradingError(err);
+      return res.status(status).json(body);
+    }
+  }
+);
 
-      return res.json({
-        evaluationId: persisted.evaluationId,
-        createdAtIso: persisted.createdAtIso,
-        evaluation,
-        pdfBase64: pdfBuffer.toString("base64")
-      });
-    } catch (err: any) {
-      const status = Number(err?.status || err?.response?.status || 0);
-      const code = String(err?.code || err?.error?.code || "");
-      const type = String(err?.type || err?.error?.type || "");
-      const requestId = String(err?.request_id || err?.requestId || "");
-      const message = String(err?.error?.message || err?.message || "Internal error");
-
-      // If OpenAI rejects before processing, dashboards can show "0 tokens used".
-      if (status === 429 && (code === "insufficient_quota" || type === "insufficient_quota")) {
-        return res.status(402).json({
-          error:
-            "OpenAI API rejected the request due to insufficient quota for the project/org tied to this API key. " +
-            "Enable billing for that project/org or generate a key under a billed project, then retry.",
-          details: { status, code, type, requestId, message }
-        });
+// Same input as /evaluate; returns the proposed student-answer -> question mapping without grading.
+evaluateRouter.post(
+  "/align",
+  upload.fields([
+    { name: "modelFile", maxCount: MAX_PAGE_UPLOADS },
+    { name: "studentFile", maxCount: MAX_PAGE_UPLOADS }
+  ]),
+  async (req, res) => {
+    try {
+      const parsed = EvaluateBodySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
       }
 
-      if (status === 429) {
-        return res.status(429).json({
-          error: "OpenAI rate limit exceeded. Slow down requests or add retry/backoff.",
-          details: { status, code, type, requestId, message }
-        });
-      }
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const result = await runAlignment(parsed.data, {
+        modelFiles: files?.modelFile,
+        studentFiles: files?.studentFile
+      });
+      return res.json(result);
+    } catch (err) {
+      const { status, body } = describeGradingError(err);
+      return res.status(status).json(body);
+    }
+  }
+);
 
-      if (status === 401 || status === 403) {
-        return res.status(401).json({
-          error: "OpenAI authentication/authorization failed. Check OPENAI_API_KEY and project permissions.",
-          details: { status, code, type, requestId, message }
-        });
+evaluateRouter.post(
+  "/evaluate-batch",
+  upload.fields([
+    { name: "modelFile", maxCount: MAX_PAGE_UPLOADS },
+    { name: "studentFiles", maxCount: MAX_BATCH_SHEETS },
+    { name: "studentZip", maxCount: 1 }
+  ]),
+  async (req, res) => {
+    try {
+      const parsed = EvaluateBatchBodySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
       }
 
-      console.error(err);
-      return res.status(500).json({ error: "Internal error", details: { status, code, type, requestId, message } });
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const result = await runBatchEvaluation(parsed.data, {
+        modelFiles: files?.modelFile,
+        studentFiles: files?.studentFiles ?? [],
+        studentZip: files?.studentZip?.[0]
+      });
+      return res.json(result);
+    } catch (err) {
+      const { status, body } = describeGradingError(err);
+      return res.status(status).json(body);
     }
   }
 );
 
 const ExtractScoreBodySchema = z.object({
   expectedOutOf: z.coerce.number().int().min(1).max(1000).optional(),
-  labelHint: z.string().optional()
+  labelHint: z.string().optional(),
+  preprocess: z.preprocess(jsonField, PreprocessOptionsSchema.optional()),
+  // JSON; defaults to the marks template of the school the student or class belongs to.
+  template: z.preprocess(jsonField, MarksTemplateSchema.optional()),
+  ...RosterLinksInputSchema.shape
 });
 
 evaluateRouter.post("/extract-score", upload.single("pageImage"), async (req, res) => {
@@ -153,12 +145,19 @@ evaluateRouter.post("/extract-score", upload.single("pageImage"), async (req, re
 
     const file = req.file;
     if (!file) return res.status(400).json({ error: "Missing pageImage upload" });
+    const { links } = await resolveRosterLinks(parsed.data);
+    const school = links.schoolId ? await getSchool(links.schoolId) : null;
+    const template = parsed.data.template ?? school?.marksTemplate ?? undefined;
 
-    const extracted = await extractTextFromUpload(file);
+    const extracted = await extractTextFromUpload(file, {
+      ocrProfile: "score",
+      preprocess: resolvePreprocessSteps(parsed.data.preprocess)
+    });
     if (!extracted.text.trim()) {
       return res.status(400).json({
         error: "OCR returned empty text for this image. Try a clearer photo or switch OCR_PROVIDER.",
         warnings: extracted.warnings,
+        preprocessing: extracted.preprocessing,
         debug: {
           detectedMime: extracted.mime,
           uploadMime: file.mimetype,
@@ -171,124 +170,170 @@ evaluateRouter.post("/extract-score", upload.single("pageImage"), async (req, re
     const score = extractScoreFromText({
       text: extracted.text,
       expectedOutOf: parsed.data.expectedOutOf,
-      labelHint: parsed.data.labelHint
+      labelHint: parsed.data.labelHint,
+      lines: extracted.lines,
+      template
     });
 
-    const persisted = await maybePersistManualScore({
+    const persisted = await persistManualScore({
       obtained: score.obtained,
       outOf: score.outOf,
       confidence: score.confidence,
-      ocrText: extracted.text
+      ocrText: extracted.text,
+      questions: score.questions.map(({ questionId, marks }) => ({ questionId, marks })),
+      links
     });
 
     return res.json({
       id: persisted.id,
       createdAtIso: persisted.createdAtIso,
+      ...links,
       score,
-      warnings: extracted.warnings,
+      preprocessing: extracted.preprocessing,
+      warnings: [...extracted.warnings, ...score.warnings],
       debug: {
         detectedMime: extracted.mime,
         ocrProvider: process.env.OCR_PROVIDER || "pdf_text"
       }
     });
   } catch (err) {
-    console.error(err);
-    return res.status(500).json({ error: "Internal error" });
+    const { status, body } = describeRosterError(err);
+    return res.status(status).json(body);
   }
 });
 
-evaluateRouter.get("/evaluation/:id", async (req, res) => {
-  const id = req.params.id;
-  const doc = await getEvaluationIfConfigured(id);
-  if (!doc) return res.status(404).json({ error: "Not found (or Firebase not configured)" });
-  return res.json(doc);
-});
+// Lists are filtered by roster ids, e.g. /evaluations?studentId=... or /manual-scores?examId=...
+evaluateRouter.get(
+  "/manual-scores",
+  handle(async (req, res) => {
+    const filter = RosterFilterSchema.safeParse(req.query);
+    if (!filter.success) return res.status(400).json({ error: "Invalid filter", details: filter.error.flatten() });
+    return res.json({ manualScores: await listManualScores(filter.data) });
+  })
+);
 
-evaluateRouter.get("/evaluation/:id/pdf", async (req, res) => {
-  const id = req.params.id;
-  const doc = await getEvaluationIfConfigured(id);
-  if (!doc) return res.status(404).json({ error: "Not found (or Firebase not configured)" });
+evaluateRouter.get(
+  "/manual-score/:id",
+  handle(async (req, res) => {
+    const id = req.params.id;
+    const doc = await getManualScore(id);
+    if (!doc) return res.status(404).json({ error: "Not found" });
+    return res.json({ id, ...doc });
+  })
+);
 
-  const pdfBuffer = await buildPdfReport({
-    evaluation: doc.evaluation,
-    meta: { evaluationId: id, createdAtIso: doc.createdAtIso }
-  });
+evaluateRouter.get(
+  "/evaluations",
+  handle(async (req, res) => {
+    const filter = RosterFilterSchema.safeParse(req.query);
+    if (!filter.success) return res.status(400).json({ error: "Invalid filter", details: filter.error.flatten() });
+    return res.json({ evaluations: await listEvaluations(filter.data) });
+  })
+);
 
-  res.setHeader("Content-Type", "application/pdf");
-  res.setHeader("Content-Disposition", `inline; filename=\"evaluation-${id}.pdf\"`);
-  return res.send(pdfBuffer);
+evaluateRouter.get(
+  "/evaluation/:id",
+  handle(async (req, res) => {
+    const id = req.params.id;
+    const doc = await getEvaluation(id);
+    if (!doc) return res.status(404).json({ error: "Not found" });
+    return res.json(doc);
+  })
+);
+
+// Teacher review: edit marks, feedback and deductions, confirm flagged questions or mark the evaluation reviewed.
+evaluateRouter.patch("/evaluation/:id", async (req, res) => {
+  try {
+    const parsed = EvaluationEditSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: "Invalid edit", details: parsed.error.flatten() });
+
+    const id = req.params.id;
+    const doc = await updateEvaluation(id, (current) => applyEvaluationEdit(current, parsed.data));
+    if (!doc) return res.status(404).json({ error: "Not found" });
+
+    const pdfBuffer = await buildPdfReport({
+      evaluation: doc.evaluation,
+      answerSources: doc.answerSources,
+      meta: { evaluationId: id, createdAtIso: doc.createdAtIso },
+      review: doc.review,
+      revision: doc.revisions.length - 1
+    });
+    return res.json({ evaluationId: id, ...doc, pdfBase64: pdfBuffer.toString("base64") });
+  } catch (err) {
+    const { status, body } = describeGradingError(err);
+    return res.status(status).json(body);
+  }
 });
 
+evaluateRouter.get(
+  "/evaluation/:id/pdf",
+  handle(async (req, res) => {
+    const id = req.params.id;
+    const doc = await getEvaluation(id);
+    if (!doc) return res.status(404).json({ error: "Not found" });
+
+    const pdfBuffer = await buildPdfReport({
+      evaluation: doc.evaluation,
+      answerSources: doc.answerSources,
+      meta: { evaluationId: id, createdAtIso: doc.createdAtIso },
+      review: doc.review,
+      revision: doc.revisions.length - 1
+    });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="evaluation-${id}.pdf"`);
+    return res.send(pdfBuffer);
+  })
+);
+
 evaluateRouter.post("/generate-paper", async (req, res) => {
   try {
-    const parsed = PaperSpecSchema.safeParse(req.body ?? {});
+    const parsed = PaperRequestSchema.safeParse(req.body ?? {});
     if (!parsed.success) {
       return res.status(400).json({ error: "Invalid paper spec", details: parsed.error.flatten() });
     }
 
-    const paper = await generatePaper(parsed.data);
-    const validated = GeneratedPaperSchema.safeParse(paper);
-    if (!validated.success) {
-      return res.status(500).json({ error: "Generated paper validation failed", details: validated.error.flatten() });
-    }
-
-    const persisted = await maybePersistPaper({ spec: parsed.data, paper: validated.data });
-    const paperPdf = await buildQuestionPaperPdf({ paper: validated.data, paperId: persisted.paperId, createdAtIso: persisted.createdAtIso });
-    const solutionPdf = await buildSolutionPdf({ paper: validated.data, paperId: persisted.paperId, createdAtIso: persisted.createdAtIso });
-
-    return res.json({
-      paperId: persisted.paperId,
-      createdAtIso: persisted.createdAtIso,
-      spec: parsed.data,
-      paper: validated.data,
-      paperPdfBase64: paperPdf.toString("base64"),
-      solutionPdfBase64: solutionPdf.toString("base64")
-    });
-  } catch (err: any) {
-    const status = Number(err?.status || err?.response?.status || 0);
-    const code = String(err?.code || err?.error?.code || "");
-    const type = String(err?.type || err?.error?.type || "");
-    const requestId = String(err?.request_id || err?.requestId || "");
-    const message = String(err?.error?.message || err?.message || "Internal error");
-    const openaiProject = String(err?.headers?.["openai-project"] || "");
-    const openaiOrganization = String(err?.headers?.["openai-organization"] || "");
-
-    if (status === 429 && (code === "insufficient_quota" || type === "insufficient_quota")) {
-      return res.status(402).json({
-        error:
-          "Paper generation requires an LLM. OpenAI quota/billing is not enabled for this API key/project. " +
-          "Enable billing or set PAPER_PROVIDER=ollama to use a local model.",
-        details: { status, code, type, requestId, message, openaiProject, openaiOrganization }
-      });
-    }
-
-    console.error(err);
-    return res.status(500).json({
-      error: "Internal error",
-      details: { status, code, type, requestId, message, openaiProject, openaiOrganization }
-    });
+    return res.json(await runPaperGeneration(parsed.data));
+  } catch (err) {
+    const { status, body } = describePaperError(err);
+    return res.status(status).json(body);
   }
 });
 
-evaluateRouter.get("/paper/:id", async (req, res) => {
-  const id = req.params.id;
-  const doc = await getPaperIfConfigured(id);
-  if (!doc) return res.status(404).json({ error: "Not found (or Firebase not configured)" });
-  return res.json({ paperId: id, ...doc });
-});
-
-evaluateRouter.get("/paper/:id/pdf", async (req, res) => {
-  const id = req.params.id;
-  const type = String(req.query.type || "paper");
-  const doc = await getPaperIfConfigured(id);
-  if (!doc) return res.status(404).json({ error: "Not found (or Firebase not configured)" });
+evaluateRouter.get(
+  "/papers",
+  handle(async (req, res) => {
+    const filter = RosterFilterSchema.safeParse(req.query);
+    if (!filter.success) return res.status(400).json({ error: "Invalid filter", details: filter.error.flatten() });
+    return res.json({ papers: await listPapers(filter.data) });
+  })
+);
 
-  const pdfBuffer =
-    type === "solution"
-      ? await buildSolutionPdf({ paper: doc.paper, paperId: id, createdAtIso: doc.createdAtIso })
-      : await buildQuestionPaperPdf({ paper: doc.paper, paperId: id, createdAtIso: doc.createdAtIso });
+evaluateRouter.get(
+  "/paper/:id",
+  handle(async (req, res) => {
+    const id = req.params.id;
+    const doc = await getPaper(id);
+    if (!doc) return res.status(404).json({ error: "Not found" });
+    return res.json({ paperId: id, ...doc });
+  })
+);
 
-  res.setHeader("Content-Type", "application/pdf");
-  res.setHeader("Content-Disposition", `inline; filename=\"paper-${id}-${type}.pdf\"`);
-  return res.send(pdfBuffer);
-});
+evaluateRouter.get(
+  "/paper/:id/pdf",
+  handle(async (req, res) => {
+    const id = req.params.id;
+    const type = String(req.query.type || "paper");
+    const doc = await getPaper(id);
+    if (!doc) return res.status(404).json({ error: "Not found" });
+
+    const pdfBuffer =
+      type === "solution"
+        ? await buildSolutionPdf({ paper: doc.paper, paperId: id, createdAtIso: doc.createdAtIso })
+        : await buildQuestionPaperPdf({ paper: doc.paper, paperId: id, createdAtIso: doc.createdAtIso });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="paper-${id}-${type}.pdf"`);
+    return res.send(pdfBuffer);
+  })
+);
@@ -0,0 +1,45 @@
+import express from "express";
+import { z } from "zod";
+
+import { jsonField } from "../services/evaluatePipeline.js";
+import { buildMarksExport, ExportColumnsSchema, toCsv, toXlsx, type ExportSource } from "../services/exportMarks.js";
+import { describeRosterError } from "./errors.js";
+
+// Marks for ERP upload: XLSX (students and questions sheets) or CSV (one sheet).
+export const exportRouter = express.Router();
+
+const ExportQuerySchema = z.object({
+  format: z.enum(["xlsx", "csv"]).default("xlsx"),
+  // CSV holds one table: `students` (one row per student) or `questions` (the per-question breakdown).
+  sheet: z.enum(["students", "questions"]).default("students"),
+  // JSON, e.g. [{"field":"rollNumber","header":"ROLL_NO"},{"field":"total","header":"MARKS"}]; default EXPORT_COLUMNS.
+  columns: z.preprocess(jsonField, ExportColumnsSchema.optional())
+});
+
+function exportRoute(sourceOf: (id: string) => ExportSource): express.RequestHandler {
+  return async (req, res) => {
+    const query = ExportQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).json({ error: "Invalid query", details: query.error.flatten() });
+    try {
+      const data = await buildMarksExport(sourceOf(req.params.id), query.data.columns);
+      if (!data) return res.status(404).json({ error: "Not found" });
+
+      const base = data.name.replace(/[^A-Za-z0-9_-]+/g, "-").replace(/^-+|-+$/g, "") || "marks";
+      if (query.data.format === "csv") {
+        const table = query.data.sheet === "questions" ? data.questions : data.students;
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${base}-${query.data.sheet}.csv"`);
+        return res.send(toCsv(table));
+      }
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${base}-marks.xlsx"`);
+      return res.send(await toXlsx(data));
+    } catch (err) {
+      const { status, body } = describeRosterError(err);
+      return res.status(status).json(body);
+    }
+  };
+}
+
+exportRouter.get("/export/exams/:id", exportRoute((examId) => ({ examId })));
+exportRouter.get("/export/batches/:id", exportRoute((batchId) => ({ batchId })));
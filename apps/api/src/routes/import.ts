@@ -0,0 +1,40 @@
+import express from "express";
+import type { z } from "zod";
+
+import {
+  importMarks,
+  importStudents,
+  MarksImportBodySchema,
+  StudentImportBodySchema,
+  type ImportReport
+} from "../services/importData.js";
+import { upload } from "./evaluate.js";
+import { describeRosterError } from "./errors.js";
+
+// Spreadsheet (XLSX or CSV) imports; each responds with a per-row report.
+export const importRouter = express.Router();
+
+function importRoute<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  run: (buffer: Buffer, body: T) => Promise<ImportReport>
+): express.RequestHandler[] {
+  return [
+    upload.single("file"),
+    async (req, res) => {
+      const parsed = schema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+      }
+      if (!req.file) return res.status(400).json({ error: "Missing file upload" });
+      try {
+        return res.json(await run(req.file.buffer, parsed.data));
+      } catch (err) {
+        const { status, body } = describeRosterError(err);
+        return res.status(status).json(body);
+      }
+    }
+  ];
+}
+
+importRouter.post("/import/students", ...importRoute(StudentImportBodySchema, importStudents));
+importRouter.post("/import/marks", ...importRoute(MarksImportBodySchema, importMarks));
@@ -0,0 +1,147 @@
+import express from "express";
+
+import {
+  EvaluateBatchBodySchema,
+  EvaluateBodySchema,
+  MAX_BATCH_SHEETS,
+  runBatchEvaluation,
+  runEvaluation
+} from "../services/evaluatePipeline.js";
+import { cancelJob, getJob, submitJob, type JobRecord } from "../services/jobs.js";
+import { PaperRequestSchema, runPaperGeneration } from "../services/paperPipeline.js";
+import { describeGradingError, describeJobStoreError, describePaperError } from "./errors.js";
+import { MAX_PAGE_UPLOADS, upload } from "./evaluate.js";
+
+// Async variants of the long-running endpoints: submit returns a job id, then poll /jobs/:id.
+export const jobsRouter = express.Router();
+
+type Handler = (req: express.Request, res: express.Response) => Promise<unknown>;
+
+// The job store can fail on any call (Firestore unconfigured or unreachable); job failures are stored on the job.
+function handle(run: Handler): express.RequestHandler {
+  return async (req, res) => {
+    try {
+      await run(req, res);
+    } catch (err) {
+      const { status, body } = describeJobStoreError(err);
+      res.status(status).json(body);
+    }
+  };
+}
+
+jobsRouter.post(
+  "/jobs/evaluate",
+  upload.fields([
+    { name: "modelFile", maxCount: MAX_PAGE_UPLOADS },
+    { name: "studentFile", maxCount: MAX_PAGE_UPLOADS }
+  ]),
+  handle(async (req, res) => {
+    const parsed = EvaluateBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+    }
+
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const job = await submitJob(
+      "evaluate",
+      (hooks) =>
+        runEvaluation(parsed.data, { modelFiles: files?.modelFile, studentFiles: files?.studentFile }, hooks),
+      describeGradingError
+    );
+    return res.status(202).json(toStatus(job));
+  })
+);
+
+jobsRouter.post(
+  "/jobs/evaluate-batch",
+  upload.fields([
+    { name: "modelFile", maxCount: MAX_PAGE_UPLOADS },
+    { name: "studentFiles", maxCount: MAX_BATCH_SHEETS },
+    { name: "studentZip", maxCount: 1 }
+  ]),
+  handle(async (req, res) => {
+    const parsed = EvaluateBatchBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+    }
+
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const job = await submitJob(
+      "evaluate-batch",
+      (hooks) =>
+        runBatchEvaluation(
+          parsed.data,
+          {
+            modelFiles: files?.modelFile,
+            studentFiles: files?.studentFiles ?? [],
+            studentZip: files?.studentZip?.[0]
+          },
+          hooks
+        ),
+      describeGradingError
+    );
+    return res.status(202).json(toStatus(job));
+  })
+);
+
+jobsRouter.post(
+  "/jobs/generate-paper",
+  handle(async (req, res) => {
+    const parsed = PaperRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid paper spec", details: parsed.error.flatten() });
+    }
+
+    const job = await submitJob(
+      "generate-paper",
+      (hooks) => runPaperGeneration(parsed.data, hooks),
+      describePaperError
+    );
+    return res.status(202).json(toStatus(job));
+  })
+);
+
+jobsRouter.get(
+  "/jobs/:id",
+  handle(async (req, res) => {
+    const job = await getJob(req.params.id);
+    if (!job) return res.status(404).json({ error: "Job not found" });
+    return res.json(toStatus(job));
+  })
+);
+
+jobsRouter.get(
+  "/jobs/:id/result",
+  handle(async (req, res) => {
+    const job = await getJob(req.params.id);
+    if (!job) return res.status(404).json({ error: "Job not found" });
+    if (job.status === "failed" && job.error) return res.status(job.error.status).json(job.error.body);
+    if (job.status !== "succeeded") {
+      return res.status(409).json({ error: `Job is ${job.status}; no result available`, job: toStatus(job) });
+    }
+    return res.json(job.result);
+  })
+);
+
+jobsRouter.post(
+  "/jobs/:id/cancel",
+  handle(async (req, res) => {
+    const job = await cancelJob(req.params.id);
+    if (!job) return res.status(404).json({ error: "Job not found" });
+    return res.json(toStatus(job));
+  })
+);
+
+// Status payload without the (potentially large) result.
+function toStatus(job: JobRecord) {
+  return {
+    jobId: job.id,
+    kind: job.kind,
+    status: job.status,
+    stage: job.stage,
+    progress: job.progress,
+    createdAtIso: job.createdAtIso,
+    updatedAtIso: job.updatedAtIso,
+    error: job.error?.body ?? null
+  };
+}
@@ -0,0 +1,10 @@
+import express from "express";
+
+import { getLlmUsage } from "../services/llm.js";
+
+// Token and cost accounting for LLM calls made by this process (grading, paper generation, alignment).
+export const llmRouter = express.Router();
+
+llmRouter.get("/llm/usage", (_req, res) => {
+  res.json(getLlmUsage());
+});
@@ -0,0 +1,142 @@
+import express from "express";
+import type { z } from "zod";
+
+import {
+  ClassInputSchema,
+  createClass,
+  createExam,
+  createSchool,
+  createStudent,
+  ExamInputSchema,
+  ExamPatchSchema,
+  getClass,
+  getExam,
+  getSchool,
+  getStudent,
+  listClasses,
+  listExams,
+  listSchools,
+  listStudents,
+  RosterFilterSchema,
+  SchoolInputSchema,
+  SchoolPatchSchema,
+  StudentInputSchema,
+  StudentPatchSchema,
+  updateExam,
+  updateSchool,
+  updateStudent
+} from "../services/roster.js";
+import { describeRosterError } from "./errors.js";
+
+// Schools, class-sections, students and exams. Evaluations, scores and papers link to them by id.
+export const rosterRouter = express.Router();
+
+type Handler = (req: express.Request, res: express.Response) => Promise<unknown>;
+
+function handle(run: Handler): express.RequestHandler {
+  return async (req, res) => {
+    try {
+      await run(req, res);
+    } catch (err) {
+      const { status, body } = describeRosterError(err);
+      res.status(status).json(body);
+    }
+  };
+}
+
+function parseOrReply<T extends z.ZodTypeAny>(schema: T, input: unknown, res: express.Response): z.infer<T> | null {
+  const parsed = schema.safeParse(input ?? {});
+  if (parsed.success) return parsed.data;
+  res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+  return null;
+}
+
+function parseFilter(req: express.Request, res: express.Response) {
+  const parsed = RosterFilterSchema.safeParse(req.query);
+  if (parsed.success) return parsed.data;
+  res.status(400).json({ error: "Invalid filter", details: parsed.error.flatten() });
+  return null;
+}
+
+function found(res: express.Response, doc: unknown) {
+  return doc ? res.json(doc) : res.status(404).json({ error: "Not found" });
+}
+
+rosterRouter.post(
+  "/schools",
+  handle(async (req, res) => {
+    const input = parseOrReply(SchoolInputSchema, req.body, res);
+    if (input) res.status(201).json(await createSchool(input));
+  })
+);
+rosterRouter.get("/schools", handle(async (_req, res) => res.json({ schools: await listSchools() })));
+rosterRouter.get("/schools/:id", handle(async (req, res) => found(res, await getSchool(req.params.id))));
+rosterRouter.patch(
+  "/schools/:id",
+  handle(async (req, res) => {
+    const patch = parseOrReply(SchoolPatchSchema, req.body, res);
+    if (patch) res.json(await updateSchool(req.params.id, patch));
+  })
+);
+
+rosterRouter.post(
+  "/classes",
+  handle(async (req, res) => {
+    const input = parseOrReply(ClassInputSchema, req.body, res);
+    if (input) res.status(201).json(await createClass(input));
+  })
+);
+rosterRouter.get(
+  "/classes",
+  handle(async (req, res) => {
+    const filter = parseFilter(req, res);
+    if (filter) res.json({ classes: await listClasses(filter) });
+  })
+);
+rosterRouter.get("/classes/:id", handle(async (req, res) => found(res, await getClass(req.params.id))));
+
+rosterRouter.post(
+  "/students",
+  handle(async (req, res) => {
+    const input = parseOrReply(StudentInputSchema, req.body, res);
+    if (input) res.status(201).json(await createStudent(input));
+  })
+);
+rosterRouter.get(
+  "/students",
+  handle(async (req, res) => {
+    const filter = parseFilter(req, res);
+    if (filter) res.json({ students: await listStudents(filter) });
+  })
+);
+rosterRouter.get("/students/:id", handle(async (req, res) => found(res, await getStudent(req.params.id))));
+rosterRouter.patch(
+  "/students/:id",
+  handle(async (req, res) => {
+    const patch = parseOrReply(StudentPatchSchema, req.body, res);
+    if (patch) res.json(await updateStudent(req.params.id, patch));
+  })
+);
+
+rosterRouter.post(
+  "/exams",
+  handle(async (req, res) => {
+    const input = parseOrReply(ExamInputSchema, req.body, res);
+    if (input) res.status(201).json(await createExam(input));
+  })
+);
+rosterRouter.get(
+  "/exams",
+  handle(async (req, res) => {
+    const filter = parseFilter(req, res);
+    if (filter) res.json({ exams: await listExams(filter) });
+  })
+);
+rosterRouter.get("/exams/:id", handle(async (req, res) => found(res, await getExam(req.params.id))));
+rosterRouter.patch(
+  "/exams/:id",
+  handle(async (req, res) => {
+    const patch = parseOrReply(ExamPatchSchema, req.body, res);
+    if (patch) res.json(await updateExam(req.params.id, patch));
+  })
+);
@@ -0,0 +1,255 @@
+import { z } from "zod";
+
+import type { GradingQuestion } from "./answerKey.js";
+import type { QaPair } from "./extractQaPairs.js";
+import { cosineSimilarity } from "./gradingHeuristic.js";
+import { generateJson } from "./llm.js";
+import { compareQuestionIds, isDescendantId, normalizeQuestionId } from "./questionIds.js";
+
+// "id": join strictly by number; "content": re-match renumbered answers by similarity;
+// "llm": content matching, checked by an LLM.
+export const ALIGN_MODES = ["id", "content", "llm"] as const;
+export type AlignMode = (typeof ALIGN_MODES)[number];
+
+// Teacher override: student answer id (as numbered on the sheet) -> question id, or null to leave it ungraded.
+export const AlignmentOverrideSchema = z.record(z.string(), z.string().nullable());
+export type AlignmentOverride = z.infer<typeof AlignmentOverrideSchema>;
+
+// `similarity` is the content similarity (0..1) between the student answer and the question it is graded as.
+export type AlignmentEntry = {
+  studentQuestionId: string;
+  questionId: string | null;
+  similarity: number;
+  method: "id" | "content" | "llm" | "manual";
+};
+
+export type Alignment = { entries: AlignmentEntry[]; warnings: string[] };
+
+// Numbering is usually right: a renumbered match has to beat the numbered one by this much.
+const ID_BONUS = 0.15;
+const MIN_SIMILARITY = 0.2;
+const LLM_EXCERPT_CHARS = 600;
+
+type Target = { id: string; reference: string };
+
+// Proposes which question each student answer block belongs to. `questions` are the grading questions built
+// from the key/model alone; sub-part differences (2 vs 2(a)) are left to buildGradingQuestions.
+export async function alignAnswers(params: {
+  questions: GradingQuestion[];
+  studentQa: QaPair[];
+  mode: AlignMode;
+  override?: AlignmentOverride;
+}): Promise<Alignment> {
+  const targets: Target[] = params.questions.map((q) => ({ id: q.questionId, reference: referenceText(q) }));
+  const warnings: string[] = [];
+
+  let entries =
+    params.mode === "id" ? idEntries(params.studentQa, targets) : contentEntries(params.studentQa, targets);
+
+  if (params.mode === "llm" && entries.some((e) => e.method === "content")) {
+    try {
+      entries = await arbitrateWithLlm(params.studentQa, targets, entries);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : "unknown error";
+      warnings.push(`LLM alignment unavailable (${reason}); used content matching.`);
+    }
+  }
+
+  if (params.override) {
+    entries = applyOverride(entries, params.override).map((e) =>
+      e.method === "manual" ? { ...e, similarity: similarityTo(params.studentQa, targets, e) } : e
+    );
+  }
+
+  for (const e of entries) {
+    if (e.questionId === null) warnings.push(`Student answer ${e.studentQuestionId} is not graded.`);
+    else if (e.method === "content" || e.method === "llm") {
+      warnings.push(
+        `Student answer ${e.studentQuestionId} was graded as Q${e.questionId} ` +
+          `(matched by ${e.method === "llm" ? "LLM" : "content"}).`
+      );
+    } else if (e.method === "id" && targets.length && !targets.some((t) => idCompatible(e.studentQuestionId, t.id))) {
+      warnings.push(`Student answer ${e.studentQuestionId} does not match any question in the key.`);
+    }
+  }
+  return { entries, warnings };
+}
+
+// Renames student answers to the question ids they are graded as; blocks mapped to the same question are joined.
+export function applyAlignment(studentQa: QaPair[], entries: AlignmentEntry[]): QaPair[] {
+  const mapping = new Map(entries.map((e) => [e.studentQuestionId, e.questionId]));
+  const byId = new Map<string, QaPair>();
+  for (const q of studentQa) {
+    const mapped = mapping.get(q.questionId);
+    const id = mapped === undefined ? q.questionId : mapped;
+    if (id === null) continue;
+    const existing = byId.get(id);
+    byId.set(id, existing ? mergePairs(existing, q) : { ...q, questionId: id });
+  }
+  return [...byId.values()].sort((a, b) => compareQuestionIds(a.questionId, b.questionId));
+}
+
+function referenceText(q: GradingQuestion): string {
+  // MCQ answers are option letters; there is no content to compare.
+  if (q.mcq) return "";
+  return [q.modelAnswer, ...q.rubric.map((p) => p.description)].join("\n").trim();
+}
+
+// Same question, or a sub-part relation that buildGradingQuestions reconciles.
+function idCompatible(studentId: string, questionId: string): boolean {
+  return studentId === questionId || isDescendantId(studentId, questionId) || isDescendantId(questionId, studentId);
+}
+
+function idEntries(studentQa: QaPair[], targets: Target[]): AlignmentEntry[] {
+  return studentQa.map((s) => ({
+    studentQuestionId: s.questionId,
+    questionId: s.questionId,
+    similarity: ownSimilarity(s, targets),
+    method: "id"
+  }));
+}
+
+function ownSimilarity(s: QaPair, targets: Target[]): number {
+  const own = targets.filter((t) => t.reference && idCompatible(s.questionId, t.id));
+  return round(Math.max(0, ...own.map((t) => cosineSimilarity(s.text, t.reference))));
+}
+
+function contentEntries(studentQa: QaPair[], targets: Target[]): AlignmentEntry[] {
+  const rows = studentQa.map((s) => {
+    const scored = targets
+      .filter((t) => t.reference)
+      .map((t) => ({ target: t, similarity: cosineSimilarity(s.text, t.reference) }))
+      .sort((a, b) => b.similarity - a.similarity);
+    const own = ownSimilarity(s, targets);
+    // Renumbering candidates: another question clearly matches better than the one the student wrote down.
+    const better = scored.filter(
+      (c) => !idCompatible(s.questionId, c.target.id) && c.similarity >= MIN_SIMILARITY && c.similarity > own + ID_BONUS
+    );
+    return { student: s, own, better };
+  });
+
+  // Questions kept by correctly numbered answers are not up for grabs.
+  const taken = new Set<string>();
+  for (const row of rows) {
+    if (row.better.length) continue;
+    for (const t of targets) if (idCompatible(row.student.questionId, t.id)) taken.add(t.id);
+  }
+
+  // Strongest matches claim their question first.
+  const assigned = new Map<QaPair, { id: string; similarity: number }>();
+  const claims = rows
+    .flatMap((row) => row.better.map((c) => ({ student: row.student, id: c.target.id, similarity: c.similarity })))
+    .sort((a, b) => b.similarity - a.similarity);
+  for (const claim of claims) {
+    if (assigned.has(claim.student) || taken.has(claim.id)) continue;
+    assigned.set(claim.student, claim);
+    taken.add(claim.id);
+  }
+
+  return rows.map((row) => {
+    const match = assigned.get(row.student);
+    return match
+      ? {
+          studentQuestionId: row.student.questionId,
+          questionId: match.id,
+          similarity: round(match.similarity),
+          method: "content" as const
+        }
+      : {
+          studentQuestionId: row.student.questionId,
+          questionId: row.student.questionId,
+          similarity: row.own,
+          method: "id" as const
+        };
+  });
+}
+
+// Lets an LLM confirm or correct the proposed renumbering; ids it returns must exist in the key.
+async function arbitrateWithLlm(
+  studentQa: QaPair[],
+  targets: Target[],
+  proposed: AlignmentEntry[]
+): Promise<AlignmentEntry[]> {
+  const excerpt = (text: string) => text.slice(0, LLM_EXCERPT_CHARS);
+  const { data } = await generateJson({
+    purpose: "alignment",
+    schema: LlmMappingSchema,
+    schemaName: "answer_alignment",
+    messages: [
+      {
+        role: "system",
+        content:
+          "You match a student's answer blocks to exam questions. Students skip, renumber or reorder answers.\n" +
+          "Use the content, not the numbering alone. Each question gets at most one block.\n" +
+          'Return questionId "" for a block that answers none of the questions.'
+      },
+      {
+        role: "user",
+        content: JSON.stringify({
+          questions: targets.map((t) => ({ questionId: t.id, modelAnswer: excerpt(t.reference) })),
+          studentAnswers: studentQa.map((s) => ({ studentQuestionId: s.questionId, text: excerpt(s.text) })),
+          proposedMapping: proposed.map((e) => ({
+            studentQuestionId: e.studentQuestionId,
+            questionId: e.questionId ?? ""
+          }))
+        })
+      }
+    ],
+    temperature: 0
+  });
+
+  const decided = new Map(data.mapping.map((m) => [m.studentQuestionId, m.questionId]));
+  const targetIds = new Set(targets.map((t) => t.id));
+
+  return proposed.map((entry) => {
+    const answer = decided.get(entry.studentQuestionId);
+    // Unknown ids and "no match" keep the student's own numbering rather than dropping the answer.
+    const questionId = answer && targetIds.has(answer) ? answer : entry.studentQuestionId;
+    if (questionId === entry.questionId && entry.method === "id") return entry;
+    const decision = { studentQuestionId: entry.studentQuestionId, questionId };
+    return {
+      ...decision,
+      similarity: similarityTo(studentQa, targets, decision),
+      method: idCompatible(entry.studentQuestionId, questionId) ? "id" : "llm"
+    };
+  });
+}
+
+const LlmMappingSchema = z.object({
+  mapping: z.array(z.object({ studentQuestionId: z.string(), questionId: z.string() }))
+});
+
+function applyOverride(entries: AlignmentEntry[], override: AlignmentOverride): AlignmentEntry[] {
+  const manual = new Map(
+    Object.entries(override).map(([from, to]) => [
+      normalizeQuestionId(from),
+      to === null ? null : normalizeQuestionId(to)
+    ])
+  );
+  return entries.map((e) => {
+    const questionId = manual.get(e.studentQuestionId);
+    return questionId === undefined ? e : { ...e, questionId, method: "manual" };
+  });
+}
+
+function similarityTo(
+  studentQa: QaPair[],
+  targets: Target[],
+  entry: { studentQuestionId: string; questionId: string | null }
+): number {
+  const student = studentQa.find((s) => s.questionId === entry.studentQuestionId);
+  const target = targets.find((t) => t.id === entry.questionId);
+  return student && target?.reference ? round(cosineSimilarity(student.text, target.reference)) : 0;
+}
+
+function mergePairs(a: QaPair, b: QaPair): QaPair {
+  const merged: QaPair = { questionId: a.questionId, text: [a.text, b.text].filter(Boolean).join("\n") };
+  if (a.pages || b.pages) merged.pages = [...new Set([...(a.pages ?? []), ...(b.pages ?? [])])].sort((x, y) => x - y);
+  const confidences = [a.ocrConfidence, b.ocrConfidence].filter((c): c is number => c !== undefined);
+  if (confidences.length) merged.ocrConfidence = Math.min(...confidences);
+  return merged;
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,419 @@
+import type { Evaluation } from "./gradingSchema.js";
+import { listStoredEvaluations, type StoredEvaluation } from "./persist.js";
+import { compareQuestionIds } from "./questionIds.js";
+import { getClass, getExam, getStudent, listExams, listStudents, RosterError, type ExamDoc } from "./roster.js";
+
+export type AnalyticsEvaluation = StoredEvaluation & { evaluationId: string };
+
+export type AnalyticsOptions = {
+  // Only count evaluations a teacher has signed off.
+  reviewedOnly?: boolean;
+};
+
+export type ScorePoint = {
+  evaluationId: string;
+  createdAtIso: string;
+  examId: string | null;
+  examName: string | null;
+  subject: string | null;
+  dateIso: string | null;
+  totalMarks: number;
+  maxTotalMarks: number;
+  percentage: number;
+  reviewStatus: StoredEvaluation["review"]["status"];
+};
+
+export type StudentTrend = {
+  studentId: string;
+  points: ScorePoint[];
+  // Percentage points from the first to the latest exam, and the least-squares slope per exam.
+  change: number | null;
+  slopePerExam: number | null;
+};
+
+export type TopicMastery = {
+  topic: string;
+  // 0..1, recency-weighted; 1 means the topic has not been flagged again since it first came up.
+  mastery: number;
+  flaggedIn: number;
+  evaluations: number;
+  lastFlaggedIso: string;
+};
+
+// Distribution of percentage scores.
+export type ScoreDistribution = {
+  students: number;
+  mean: number | null;
+  median: number | null;
+  stdDev: number | null;
+  min: number | null;
+  max: number | null;
+  percentiles: { p10: number; p25: number; p75: number; p90: number } | null;
+  histogram: Array<{ fromPercent: number; toPercent: number; students: number }>;
+};
+
+export type QuestionAnalysis = {
+  questionId: string;
+  maxMarks: number;
+  attempts: number;
+  averageMarks: number;
+  // Share of the available marks the class earned (0..1): high is easy, low is hard.
+  difficultyIndex: number;
+  // Upper-group minus lower-group difficulty (-1..1); null with fewer than 4 students.
+  discriminationIndex: number | null;
+};
+
+export type ExamAnalytics = {
+  examId: string;
+  classId: string;
+  name: string;
+  subject: string;
+  dateIso: string | null;
+  distribution: ScoreDistribution;
+  questions: QuestionAnalysis[];
+  commonWeakAreas: Array<{ area: string; students: number }>;
+};
+
+export type ClassAnalytics = {
+  classId: string;
+  // Oldest exam first, so the means read as the class trend.
+  exams: Array<{
+    examId: string;
+    name: string;
+    subject: string;
+    dateIso: string | null;
+    students: number;
+    mean: number | null;
+    median: number | null;
+  }>;
+  // Weakest average first; students with no evaluations last.
+  students: Array<{
+    studentId: string;
+    rollNumber: string;
+    name: string;
+    exams: number;
+    averagePercentage: number | null;
+  }>;
+};
+
+// A topic flagged this many evaluations ago weighs half as much as one flagged in the latest.
+const MASTERY_HALF_LIFE = 3;
+// The discrimination index compares the top and bottom 27% of the class by total.
+const DISCRIMINATION_GROUP = 0.27;
+const MIN_DISCRIMINATION_STUDENTS = 4;
+
+export async function studentTrend(studentId: string, options: AnalyticsOptions = {}): Promise<StudentTrend> {
+  await requireStudent(studentId);
+  const evaluations = filterEvaluations(await listStoredEvaluations({ studentId }), options);
+  const exams = await loadExams(evaluations);
+  return { studentId, ...scoreTrend(evaluations, exams) };
+}
+
+export async function studentMastery(
+  studentId: string,
+  options: AnalyticsOptions = {}
+): Promise<{ studentId: string; evaluations: number; topics: TopicMastery[] }> {
+  await requireStudent(studentId);
+  const evaluations = latestPerExam(filterEvaluations(await listStoredEvaluations({ studentId }), options));
+  return { studentId, evaluations: evaluations.length, topics: topicMastery(evaluations) };
+}
+
+export async function examAnalytics(examId: string, options: AnalyticsOptions = {}): Promise<ExamAnalytics> {
+  const exam = await getExam(examId);
+  if (!exam) throw new RosterError(`Exam not found: ${examId}`, 404);
+
+  const evaluations = latestPerStudent(filterEvaluations(await listStoredEvaluations({ examId }), options));
+  return {
+    examId,
+    classId: exam.classId,
+    name: exam.name,
+    subject: exam.subject,
+    dateIso: exam.dateIso,
+    distribution: scoreDistribution(evaluations.map((e) => percentageOf(e.evaluation))),
+    questions: analyzeQuestions(evaluations),
+    commonWeakAreas: commonWeakAreas(evaluations)
+  };
+}
+
+export async function classAnalytics(classId: string, options: AnalyticsOptions = {}): Promise<ClassAnalytics> {
+  if (!(await getClass(classId))) throw new RosterError(`Class not found: ${classId}`, 404);
+
+  const [exams, students, stored] = await Promise.all([
+    listExams({ classId }),
+    listStudents({ classId }),
+    listStoredEvaluations({ classId })
+  ]);
+  const evaluations = filterEvaluations(stored, options);
+
+  const examRows = exams
+    .sort((a, b) => (a.dateIso ?? a.createdAtIso).localeCompare(b.dateIso ?? b.createdAtIso))
+    .map((exam) => {
+      const taken = latestPerStudent(evaluations.filter((e) => e.examId === exam.id));
+      const distribution = scoreDistribution(taken.map((e) => percentageOf(e.evaluation)));
+      return {
+        examId: exam.id,
+        name: exam.name,
+        subject: exam.subject,
+        dateIso: exam.dateIso,
+        students: distribution.students,
+        mean: distribution.mean,
+        median: distribution.median
+      };
+    });
+
+  const studentRows = students.map((student) => {
+    const own = latestPerExam(evaluations.filter((e) => e.studentId === student.id));
+    const percentages = own.map((e) => percentageOf(e.evaluation));
+    return {
+      studentId: student.id,
+      rollNumber: student.rollNumber,
+      name: student.name,
+      exams: own.length,
+      averagePercentage: percentages.length ? round2(mean(percentages)) : null
+    };
+  });
+  studentRows.sort((a, b) => (a.averagePercentage ?? Number.MAX_VALUE) - (b.averagePercentage ?? Number.MAX_VALUE));
+
+  return { classId, exams: examRows, students: studentRows };
+}
+
+// One point per exam (the latest evaluation if a student was graded again), in exam order.
+export function scoreTrend(
+  evaluations: AnalyticsEvaluation[],
+  exams: Map<string, ExamDoc> = new Map()
+): Omit<StudentTrend, "studentId"> {
+  const points = latestPerExam(evaluations)
+    .map((e): ScorePoint => {
+      const exam = e.examId ? exams.get(e.examId) : undefined;
+      return {
+        evaluationId: e.evaluationId,
+        createdAtIso: e.createdAtIso,
+        examId: e.examId,
+        examName: exam?.name ?? null,
+        subject: exam?.subject ?? null,
+        dateIso: exam?.dateIso ?? null,
+        totalMarks: e.evaluation.totalMarks,
+        maxTotalMarks: e.evaluation.maxTotalMarks,
+        percentage: percentageOf(e.evaluation),
+        reviewStatus: e.review.status
+      };
+    })
+    .sort((a, b) => (a.dateIso ?? a.createdAtIso).localeCompare(b.dateIso ?? b.createdAtIso));
+
+  if (points.length < 2) return { points, change: null, slopePerExam: null };
+  const ys = points.map((p) => p.percentage);
+  return { points, change: round2(ys[ys.length - 1] - ys[0]), slopePerExam: round2(slope(ys)) };
+}
+
+// Mastery per recurring weak area. After a topic first comes up, every evaluation counts: 1 when it isn't
+// flagged, otherwise the share of marks earned on the questions that flagged it (or on the whole paper).
+export function topicMastery(evaluations: AnalyticsEvaluation[]): TopicMastery[] {
+  const ordered = [...evaluations].sort((a, b) => a.createdAtIso.localeCompare(b.createdAtIso));
+  const flagged = ordered.map((e) => weakTopicsOf(e.evaluation));
+
+  const firstSeen = new Map<string, { topic: string; index: number }>();
+  flagged.forEach((topics, index) => {
+    for (const [key, topic] of topics) if (!firstSeen.has(key)) firstSeen.set(key, { topic, index });
+  });
+
+  const last = ordered.length - 1;
+  const result: TopicMastery[] = [];
+  for (const [key, { topic, index: first }] of firstSeen) {
+    let weighted = 0;
+    let weights = 0;
+    let flaggedIn = 0;
+    let lastFlaggedIso = "";
+    for (let i = first; i <= last; i++) {
+      const weight = 0.5 ** ((last - i) / MASTERY_HALF_LIFE);
+      const isFlagged = flagged[i].has(key);
+      weighted += weight * (isFlagged ? flaggedScore(ordered[i].evaluation, key) : 1);
+      weights += weight;
+      if (isFlagged) {
+        flaggedIn += 1;
+        lastFlaggedIso = ordered[i].createdAtIso;
+      }
+    }
+    result.push({
+      topic,
+      mastery: round2(weighted / weights),
+      flaggedIn,
+      evaluations: last - first + 1,
+      lastFlaggedIso
+    });
+  }
+  return result.sort((a, b) => a.mastery - b.mastery || b.flaggedIn - a.flaggedIn || a.topic.localeCompare(b.topic));
+}
+
+export function scoreDistribution(percentages: number[]): ScoreDistribution {
+  const sorted = [...percentages].sort((a, b) => a - b);
+  // Ten 10-point bands; 100% falls in the last.
+  const histogram = Array.from({ length: 10 }, (_, i) => ({
+    fromPercent: i * 10,
+    toPercent: (i + 1) * 10,
+    students: 0
+  }));
+  for (const p of sorted) histogram[Math.min(9, Math.max(0, Math.floor(p / 10)))].students += 1;
+
+  if (!sorted.length) {
+    return { students: 0, mean: null, median: null, stdDev: null, min: null, max: null, percentiles: null, histogram };
+  }
+  const avg = mean(sorted);
+  return {
+    students: sorted.length,
+    mean: round2(avg),
+    median: round2(percentile(sorted, 0.5)),
+    stdDev: round2(Math.sqrt(mean(sorted.map((p) => (p - avg) ** 2)))),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    percentiles: {
+      p10: round2(percentile(sorted, 0.1)),
+      p25: round2(percentile(sorted, 0.25)),
+      p75: round2(percentile(sorted, 0.75)),
+      p90: round2(percentile(sorted, 0.9))
+    },
+    histogram
+  };
+}
+
+// Classical item analysis over one evaluation per student.
+export function analyzeQuestions(evaluations: AnalyticsEvaluation[]): QuestionAnalysis[] {
+  const ranked = [...evaluations].sort((a, b) => percentageOf(b.evaluation) - percentageOf(a.evaluation));
+  const groupSize = Math.max(1, Math.round(ranked.length * DISCRIMINATION_GROUP));
+  const canDiscriminate = ranked.length >= MIN_DISCRIMINATION_STUDENTS;
+  const upper = ranked.slice(0, groupSize);
+  const lower = ranked.slice(-groupSize);
+
+  const ids = new Set(evaluations.flatMap((e) => e.evaluation.questions.map((q) => q.questionId)));
+  return [...ids].sort(compareQuestionIds).map((questionId) => {
+    const answers = evaluations.flatMap((e) => e.evaluation.questions.filter((q) => q.questionId === questionId));
+    const marks = answers.reduce((acc, q) => acc + q.marksAwarded, 0);
+    const difficulty = difficultyOf(evaluations, questionId) ?? 0;
+    const upperDifficulty = difficultyOf(upper, questionId);
+    const lowerDifficulty = difficultyOf(lower, questionId);
+    return {
+      questionId,
+      maxMarks: Math.max(...answers.map((q) => q.maxMarks)),
+      attempts: answers.length,
+      averageMarks: round2(marks / answers.length),
+      difficultyIndex: round2(difficulty),
+      discriminationIndex:
+        canDiscriminate && upperDifficulty !== null && lowerDifficulty !== null
+          ? round2(upperDifficulty - lowerDifficulty)
+          : null
+    };
+  });
+}
+
+function filterEvaluations(evaluations: AnalyticsEvaluation[], options: AnalyticsOptions): AnalyticsEvaluation[] {
+  return options.reviewedOnly ? evaluations.filter((e) => e.review.status === "reviewed") : evaluations;
+}
+
+// Evaluations arrive oldest first, so the last one per key is the latest re-grade.
+function latestBy(evaluations: AnalyticsEvaluation[], key: (e: AnalyticsEvaluation) => string): AnalyticsEvaluation[] {
+  const latest = new Map<string, AnalyticsEvaluation>();
+  for (const e of evaluations) latest.set(key(e), e);
+  return [...latest.values()];
+}
+
+// Evaluations without a roster link each count on their own.
+function latestPerExam(evaluations: AnalyticsEvaluation[]) {
+  return latestBy(evaluations, (e) => e.examId ?? e.evaluationId);
+}
+
+export function latestPerStudent(evaluations: AnalyticsEvaluation[]) {
+  return latestBy(evaluations, (e) => e.studentId ?? e.evaluationId);
+}
+
+async function requireStudent(studentId: string) {
+  const student = await getStudent(studentId);
+  if (!student) throw new RosterError(`Student not found: ${studentId}`, 404);
+  return student;
+}
+
+async function loadExams(evaluations: AnalyticsEvaluation[]): Promise<Map<string, ExamDoc>> {
+  const ids = [...new Set(evaluations.map((e) => e.examId).filter((id): id is string => !!id))];
+  const exams = await Promise.all(ids.map((id) => getExam(id)));
+  return new Map(exams.filter((exam) => exam !== null).map((exam) => [exam.id, exam]));
+}
+
+// Weak areas by normalized key ("Units ", "units" are one topic), keeping the first spelling.
+function weakTopicsOf(evaluation: Evaluation): Map<string, string> {
+  const topics = new Map<string, string>();
+  for (const area of [...evaluation.weakAreas, ...evaluation.questions.flatMap((q) => q.weakAreas)]) {
+    const topic = area.trim().replace(/\s+/g, " ");
+    const key = topicKey(topic);
+    if (key && !topics.has(key)) topics.set(key, topic);
+  }
+  return topics;
+}
+
+function topicKey(area: string): string {
+  return area.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function flaggedScore(evaluation: Evaluation, key: string): number {
+  const questions = evaluation.questions.filter((q) => q.weakAreas.some((area) => topicKey(area) === key));
+  const marks = questions.reduce((acc, q) => acc + q.marksAwarded, 0);
+  const maxMarks = questions.reduce((acc, q) => acc + q.maxMarks, 0);
+  if (maxMarks > 0) return marks / maxMarks;
+  return evaluation.maxTotalMarks > 0 ? evaluation.totalMarks / evaluation.maxTotalMarks : 0;
+}
+
+function commonWeakAreas(evaluations: AnalyticsEvaluation[]): Array<{ area: string; students: number }> {
+  // Once per student, as in the batch summary.
+  const counts = new Map<string, { area: string; students: number }>();
+  for (const e of evaluations) {
+    for (const [key, area] of weakTopicsOf(e.evaluation)) {
+      const entry = counts.get(key) ?? { area, students: 0 };
+      entry.students += 1;
+      counts.set(key, entry);
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.students - a.students).slice(0, 10);
+}
+
+function difficultyOf(evaluations: AnalyticsEvaluation[], questionId: string): number | null {
+  let marks = 0;
+  let maxMarks = 0;
+  for (const e of evaluations) {
+    for (const q of e.evaluation.questions) {
+      if (q.questionId !== questionId) continue;
+      marks += q.marksAwarded;
+      maxMarks += q.maxMarks;
+    }
+  }
+  return maxMarks > 0 ? marks / maxMarks : null;
+}
+
+function percentageOf(evaluation: Evaluation): number {
+  return evaluation.maxTotalMarks ? round2((evaluation.totalMarks / evaluation.maxTotalMarks) * 100) : 0;
+}
+
+// Linear interpolation between the closest ranks.
+function percentile(sorted: number[], p: number): number {
+  const rank = (sorted.length - 1) * p;
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+// Least-squares slope of ys against 0, 1, 2, ...
+function slope(ys: number[]): number {
+  const xMean = (ys.length - 1) / 2;
+  const yMean = mean(ys);
+  let num = 0;
+  let den = 0;
+  ys.forEach((y, x) => {
+    num += (x - xMean) * (y - yMean);
+    den += (x - xMean) ** 2;
+  });
+  return den ? num / den : 0;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,175 @@
+import { z } from "zod";
+
+import type { ChoiceGroup, QaPair } from "./extractQaPairs.js";
+import { compareQuestionIds, isDescendantId, normalizeQuestionId } from "./questionIds.js";
+
+export const RubricPointSchema = z.object({
+  id: z.string().min(1).optional(),
+  description: z.string().min(1),
+  marks: z.number().positive().max(100)
+});
+
+export const AnswerKeyQuestionSchema = z.object({
+  // Canonical ids: "Q2", "2b" and "2.b" all become "2" / "2(b)".
+  questionId: z.string().min(1).transform(normalizeQuestionId),
+  maxMarks: z.number().positive().max(100),
+  modelAnswer: z.string().default(""),
+  rubric: z.array(RubricPointSchema).default([]),
+  // MCQs are graded deterministically against the correct option instead of by the grader provider.
+  options: z.array(z.string()).optional(),
+  correctOptionIndex: z.number().int().min(0).max(10).optional(),
+  // Questions sharing a choiceGroup are alternatives ("attempt any one"); only the best `choicePick` count.
+  choiceGroup: z.string().min(1).optional(),
+  choicePick: z.number().int().min(1).optional(),
+  // "numeric"/"expression": checked by the maths grader (equivalent values, method marks); "text" opts a question
+  // of a maths paper out of it. `finalAnswer` overrides the last line of the model answer; `tolerance` is absolute.
+  answerType: z.enum(["text", "numeric", "expression"]).optional(),
+  finalAnswer: z.string().min(1).optional(),
+  tolerance: z.number().min(0).optional()
+});
+
+// A structured answer key: per-question max marks, model answer and weighted rubric points.
+export const AnswerKeySchema = z.array(AnswerKeyQuestionSchema).min(1);
+
+export type AnswerKey = z.infer<typeof AnswerKeySchema>;
+export type RubricPoint = { id: string; description: string; marks: number };
+
+export type GradingQuestion = {
+  questionId: string;
+  maxMarks: number;
+  modelAnswer: string;
+  studentAnswer: string;
+  rubric: RubricPoint[];
+  mcq?: { options: string[]; correctOptionIndex: number };
+  answerType?: "text" | "numeric" | "expression";
+  finalAnswer?: string;
+  tolerance?: number;
+};
+
+type GradingInput = {
+  modelQa: QaPair[];
+  studentQa: QaPair[];
+  maxMarksPerQuestion: number;
+  answerKey?: AnswerKey;
+};
+
+// With an answer key, only the key's questions are graded; otherwise every model and student question is.
+export function buildGradingQuestions(params: GradingInput): GradingQuestion[] {
+  const { keyById, modelById, reconciled } = matchQuestions(params);
+  const questionIds = keyById.size
+    ? [...keyById.keys()].sort(compareQuestionIds)
+    : [...new Set([...modelById.keys(), ...reconciled.answers.keys()])].sort(compareQuestionIds);
+
+  return questionIds.map((id) => {
+    const key = keyById.get(id);
+    return {
+      questionId: id,
+      maxMarks: key?.maxMarks ?? params.maxMarksPerQuestion,
+      // Prefer the key's model answer; fall back to the uploaded/pasted model text for this id.
+      modelAnswer: (key?.modelAnswer.trim() || modelById.get(id) || "").trim(),
+      studentAnswer: (reconciled.answers.get(id) ?? "").trim(),
+      rubric: (key?.rubric ?? []).map((p, idx) => ({
+        id: p.id?.trim() || `p${idx + 1}`,
+        description: p.description.trim(),
+        marks: p.marks
+      })),
+      mcq:
+        key?.options?.length && key.correctOptionIndex !== undefined && key.correctOptionIndex < key.options.length
+          ? { options: key.options, correctOptionIndex: key.correctOptionIndex }
+          : undefined,
+      answerType: key?.answerType,
+      finalAnswer: key?.finalAnswer,
+      tolerance: key?.tolerance
+    };
+  });
+}
+
+// The graded question(s) each student answer went into, and the student answers an answer key has no question for.
+export function matchStudentAnswers(params: GradingInput): { targets: Map<string, string[]>; unmatched: string[] } {
+  const { reconciled } = matchQuestions(params);
+  return { targets: reconciled.targets, unmatched: reconciled.unmatched };
+}
+
+function matchQuestions(params: GradingInput) {
+  const keyById = new Map((params.answerKey ?? []).map((q) => [normalizeQuestionId(q.questionId), q]));
+  // A model parent with graded sub-parts only carries instructions ("Attempt any one"), not an answer.
+  const subdivided = (id: string) =>
+    [...keyById.keys(), ...params.modelQa.map((q) => q.questionId)].some((other) => isDescendantId(other, id));
+  const modelById = new Map(params.modelQa.filter((q) => !subdivided(q.questionId)).map((q) => [q.questionId, q.text]));
+  const expected = new Set(keyById.size ? keyById.keys() : modelById.keys());
+  const reconciled = reconcileStudentAnswers(params.studentQa, expected, keyById.size > 0);
+  return { keyById, modelById, reconciled };
+}
+
+type Reconciled = {
+  answers: Map<string, string>;
+  // Student answer id -> the graded question ids its text went into.
+  targets: Map<string, string[]>;
+  unmatched: string[];
+};
+
+// Lines the student's sub-part structure up with the key/model: "2" answered as 2(a) + 2(b) is joined, and
+// a combined answer to "2" is used for 2(a)/2(b) when those are graded separately.
+function reconcileStudentAnswers(studentQa: QaPair[], expected: Set<string>, keyed: boolean): Reconciled {
+  const reconciled = new Map<string, string>();
+  const targets = new Map<string, string[]>();
+  const use = (studentId: string, gradedId: string) =>
+    targets.set(studentId, [...new Set([...(targets.get(studentId) ?? []), gradedId])]);
+  if (!expected.size) {
+    for (const q of studentQa) {
+      reconciled.set(q.questionId, q.text);
+      use(q.questionId, q.questionId);
+    }
+    return { answers: reconciled, targets, unmatched: [] };
+  }
+
+  const studentById = new Map(studentQa.map((q) => [q.questionId, q.text]));
+  for (const id of expected) {
+    const own = studentById.get(id);
+    const parts = studentQa.filter((q) => isDescendantId(q.questionId, id) && !expected.has(q.questionId));
+    if (own !== undefined || parts.length) {
+      const labelled = parts.map((q) => `(${q.questionId.slice(id.length).replace(/[()]+/g, " ").trim()}) ${q.text}`);
+      reconciled.set(id, [own ?? "", ...labelled].filter((t) => t.trim()).join("\n"));
+      if (own !== undefined) use(id, id);
+      parts.forEach((q) => use(q.questionId, id));
+      continue;
+    }
+    const ancestor = studentQa
+      .filter((q) => isDescendantId(id, q.questionId) && !expected.has(q.questionId))
+      .sort((a, b) => b.questionId.length - a.questionId.length)[0];
+    if (ancestor) {
+      reconciled.set(id, ancestor.text);
+      use(ancestor.questionId, id);
+    }
+  }
+
+  const unmatched: string[] = [];
+  for (const q of studentQa) {
+    if (targets.has(q.questionId)) continue;
+    // Text written under "2" before its sub-parts goes with the first graded sub-part.
+    const firstPart = [...expected].filter((id) => isDescendantId(id, q.questionId)).sort(compareQuestionIds)[0];
+    if (firstPart) {
+      reconciled.set(firstPart, [q.text, reconciled.get(firstPart) ?? ""].filter((t) => t.trim()).join("\n"));
+      use(q.questionId, firstPart);
+    } else if (keyed) {
+      // The key lists every question that counts: an answer to anything else is reported, not graded.
+      unmatched.push(q.questionId);
+    } else {
+      reconciled.set(q.questionId, q.text);
+      use(q.questionId, q.questionId);
+    }
+  }
+  return { answers: reconciled, targets, unmatched };
+}
+
+export function choiceGroupsFromKey(answerKey?: AnswerKey): ChoiceGroup[] {
+  const groups = new Map<string, ChoiceGroup>();
+  for (const q of answerKey ?? []) {
+    if (!q.choiceGroup) continue;
+    const group = groups.get(q.choiceGroup) ?? { questionIds: [], pick: 1 };
+    group.questionIds.push(normalizeQuestionId(q.questionId));
+    if (q.choicePick) group.pick = q.choicePick;
+    groups.set(q.choiceGroup, group);
+  }
+  return [...groups.values()].filter((g) => g.questionIds.length > g.pick);
+}
@@ -0,0 +1,94 @@
+import type { PagePreprocessing } from "./extractText.js";
+import type { Evaluation } from "./gradingSchema.js";
+import type { ReviewState } from "./review.js";
+
+export type BatchStudentResult = {
+  label: string;
+  rollNumber: string | null;
+  name: string | null;
+  studentId: string | null;
+  evaluationId: string | null;
+  evaluation: Evaluation | null;
+  review: ReviewState | null;
+  warnings: string[];
+  preprocessing: PagePreprocessing[];
+  error: string | null;
+};
+
+export type BatchSummary = {
+  students: number;
+  graded: number;
+  failed: number;
+  averageTotal: number | null;
+  highestTotal: number | null;
+  lowestTotal: number | null;
+  maxTotalMarks: number | null;
+  totals: Array<{ label: string; rollNumber: string | null; name: string | null; totalMarks: number; maxTotalMarks: number; percentage: number }>;
+  questions: Array<{ questionId: string; averageMarks: number; maxMarks: number; averagePercentage: number; attempts: number }>;
+  commonWeakAreas: Array<{ area: string; students: number }>;
+};
+
+export function summarizeBatch(results: BatchStudentResult[]): BatchSummary {
+  const graded = results.filter((r): r is BatchStudentResult & { evaluation: Evaluation } => !!r.evaluation);
+
+  const totals = graded.map((r) => ({
+    label: r.label,
+    rollNumber: r.rollNumber,
+    name: r.name,
+    totalMarks: r.evaluation.totalMarks,
+    maxTotalMarks: r.evaluation.maxTotalMarks,
+    percentage: r.evaluation.maxTotalMarks ? round2((r.evaluation.totalMarks / r.evaluation.maxTotalMarks) * 100) : 0
+  }));
+
+  const byQuestion = new Map<string, { sum: number; maxMarks: number; attempts: number }>();
+  for (const r of graded) {
+    for (const q of r.evaluation.questions) {
+      const agg = byQuestion.get(q.questionId) ?? { sum: 0, maxMarks: q.maxMarks, attempts: 0 };
+      agg.sum += q.marksAwarded;
+      agg.maxMarks = Math.max(agg.maxMarks, q.maxMarks);
+      agg.attempts += 1;
+      byQuestion.set(q.questionId, agg);
+    }
+  }
+  const questions = [...byQuestion.entries()]
+    .sort((a, b) => Number(a[0]) - Number(b[0]))
+    .map(([questionId, agg]) => {
+      const averageMarks = round2(agg.sum / agg.attempts);
+      return {
+        questionId,
+        averageMarks,
+        maxMarks: agg.maxMarks,
+        averagePercentage: agg.maxMarks ? round2((averageMarks / agg.maxMarks) * 100) : 0,
+        attempts: agg.attempts
+      };
+    });
+
+  // Count each weak area once per student so one long answer can't dominate the class view.
+  const weakCounts = new Map<string, number>();
+  for (const r of graded) {
+    const areas = new Set([...r.evaluation.weakAreas, ...r.evaluation.questions.flatMap((q) => q.weakAreas)]);
+    for (const a of areas) weakCounts.set(a, (weakCounts.get(a) ?? 0) + 1);
+  }
+  const commonWeakAreas = [...weakCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([area, students]) => ({ area, students }));
+
+  const marks = totals.map((t) => t.totalMarks);
+  return {
+    students: results.length,
+    graded: graded.length,
+    failed: results.length - graded.length,
+    averageTotal: marks.length ? round2(marks.reduce((a, b) => a + b, 0) / marks.length) : null,
+    highestTotal: marks.length ? Math.max(...marks) : null,
+    lowestTotal: marks.length ? Math.min(...marks) : null,
+    maxTotalMarks: totals.length ? Math.max(...totals.map((t) => t.maxTotalMarks)) : null,
+    totals,
+    questions,
+    commonWeakAreas
+  };
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
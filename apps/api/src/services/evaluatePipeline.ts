@@ -0,0 +1,702 @@
+import AdmZip from "adm-zip";
+import { randomUUID } from "crypto";
+import path from "path";
+import { z } from "zod";
+
+import {
+  ALIGN_MODES,
+  AlignmentOverrideSchema,
+  alignAnswers,
+  applyAlignment,
+  type AlignMode,
+  type AlignmentEntry,
+  type AlignmentOverride
+} from "./alignment.js";
+import {
+  AnswerKeySchema,
+  buildGradingQuestions,
+  matchStudentAnswers,
+  type AnswerKey,
+  type GradingQuestion
+} from "./answerKey.js";
+import { summarizeBatch, type BatchStudentResult, type BatchSummary } from "./batchSummary.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import {
+  extractTextFromUpload,
+  extractTextFromUploads,
+  type ExtractionOptions,
+  type MultiPageExtractionResult,
+  type PagePreprocessing,
+  type PageSource,
+  type UploadedFile
+} from "./extractText.js";
+import {
+  answerSourcesFor,
+  flattenQa,
+  segmentAnswers,
+  type AnswerSource,
+  type QaPair,
+  type Segmentation
+} from "./extractQaPairs.js";
+import { gradeSubmission } from "./grading.js";
+import { PreprocessOptionsSchema, resolvePreprocessSteps, type PreprocessOptions } from "./imagePreprocess.js";
+import type { Evaluation } from "./gradingSchema.js";
+import { answerKeyFromPaper } from "./paperAnswerKey.js";
+import { GeneratedPaperSchema, type GeneratedPaper } from "./paperSchema.js";
+import type { OcrProfile } from "./ocr.js";
+import { persistEvaluation } from "./persist.js";
+import { getPaper } from "./persistPaper.js";
+import { buildBatchPdfReport, buildPdfReport } from "./reportPdf.js";
+import { flagForReview, initialReview, type ReviewState } from "./review.js";
+import {
+  findStudentByRollNumber,
+  resolveRosterLinks,
+  RosterLinksInputSchema,
+  type RosterLinks,
+  type RosterLinksInput
+} from "./roster.js";
+
+// Multipart forms carry structured fields as JSON strings.
+export function jsonField(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  if (!value.trim()) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+const PageOrderSchema = z.array(z.union([z.string().min(1), z.number().int().min(0)]));
+
+export const EvaluateBodySchema = z.object({
+  modelText: z.string().optional(),
+  studentText: z.string().optional(),
+  maxMarksPerQuestion: z.coerce.number().int().min(1).max(50).default(5),
+  // Optional structured key; overrides maxMarksPerQuestion and adds rubric points per question.
+  answerKey: z.preprocess(jsonField, AnswerKeySchema.optional()),
+  // Grade against a paper from /api/generate-paper: stored (paperId) or inline (paper).
+  paperId: z.string().optional(),
+  paper: z.preprocess(jsonField, GeneratedPaperSchema.optional()),
+  strictness: z.enum(["lenient", "balanced", "strict"]).default("strict"),
+  subject: z.string().optional(),
+  // Grade this many times and combine (median marks, confidence from agreement); defaults to GRADER_SAMPLES.
+  samples: z.coerce.number().int().min(1).max(7).optional(),
+  // Page order for multi-image uploads: filenames or 0-based upload indexes. Unlisted pages follow by filename.
+  modelPageOrder: z.preprocess(jsonField, PageOrderSchema.optional()),
+  studentPageOrder: z.preprocess(jsonField, PageOrderSchema.optional()),
+  // OCR tuning for answer sheets; defaults to "math" for maths subjects, otherwise "prose".
+  ocrProfile: z.enum(["prose", "math"]).optional(),
+  // Image cleanup before OCR: "none", "rotate,deskew,...", or {"binarize":true} on top of the defaults.
+  preprocess: z.preprocess(jsonField, PreprocessOptionsSchema.optional()),
+  // How student answers are matched to questions: by number, unless content/LLM re-matching is asked for
+  // (see /api/align).
+  alignBy: z.enum(ALIGN_MODES).default("id"),
+  // Teacher-confirmed mapping from /api/align: student answer id -> question id (null: don't grade).
+  alignment: z.preprocess(jsonField, AlignmentOverrideSchema.optional()),
+  // Roster links; an exam supplies the answer key (or paper) and subject when the request has none.
+  ...RosterLinksInputSchema.shape
+});
+
+const BatchStudentSchema = z.object({
+  // Uploaded filename (or path inside the zip) this entry describes.
+  file: z.string().min(1),
+  rollNumber: z.string().optional(),
+  name: z.string().optional(),
+  // Roster student; without it, rollNumber is looked up in the batch's classId.
+  studentId: z.string().optional()
+});
+
+export const EvaluateBatchBodySchema = EvaluateBodySchema.omit({
+  studentText: true,
+  studentPageOrder: true,
+  alignment: true,
+  studentId: true
+}).extend({
+  students: z.preprocess(jsonField, z.array(BatchStudentSchema).default([])),
+  concurrency: z.coerce.number().int().min(1).max(8).default(3)
+});
+
+export type EvaluateBody = z.infer<typeof EvaluateBodySchema>;
+export type EvaluateBatchBody = z.infer<typeof EvaluateBatchBodySchema>;
+
+export type PipelineStage = "extracting" | "parsing" | "grading" | "rendering_pdf" | "generating" | "validating";
+
+// Progress callbacks and cancellation for long-running pipelines (used by the job queue).
+export type PipelineHooks = {
+  onStage?: (stage: PipelineStage, progress?: { completed: number; total: number }) => void;
+  signal?: AbortSignal;
+};
+
+// A pipeline failure that maps onto an HTTP status (bad input, missing paper, ...).
+export class PipelineError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly extra: { warnings?: string[]; details?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "PipelineError";
+  }
+}
+
+export type EvaluationResult = RosterLinks & {
+  evaluationId: string;
+  createdAtIso: string;
+  evaluation: Evaluation;
+  studentPages: PageSource[];
+  answerSources: AnswerSource[];
+  segmentation: { model: Segmentation; student: Segmentation };
+  alignment: AlignmentEntry[];
+  // Questions the teacher must confirm or edit (PATCH /api/evaluation/:id) before the result is final.
+  review: ReviewState;
+  preprocessing: { model: PagePreprocessing[]; student: PagePreprocessing[] };
+  warnings: string[];
+  pdfBase64: string;
+};
+
+export async function runEvaluation(
+  request: EvaluateBody,
+  files: { modelFiles?: UploadedFile[]; studentFiles?: UploadedFile[] },
+  hooks: PipelineHooks = {}
+): Promise<EvaluationResult> {
+  const { body, links } = await applyRoster(request);
+  const submission = await prepareSubmission(body, files, hooks);
+  const { answerKey, paper, modelSegmentation, studentSegmentation, modelQa } = submission;
+  const alignment = await alignSubmission(body, submission);
+  const studentQa = applyAlignment(submission.studentQa, alignment.entries);
+
+  hooks.onStage?.("grading");
+  const graded = outOfPaperTotal(
+    await gradeSubmission({
+      modelQa,
+      studentQa,
+      maxMarksPerQuestion: body.maxMarksPerQuestion,
+      answerKey,
+      strictness: body.strictness,
+      subject: body.subject || paper?.header.subject,
+      samples: body.samples,
+      choiceGroups: [...modelSegmentation.choiceGroups, ...studentSegmentation.choiceGroups]
+    }),
+    paper
+  );
+  const { evaluation } = graded;
+  hooks.signal?.throwIfAborted();
+
+  const answerSources = answerSourcesFor(studentQa, submission.studentPages);
+  const review = initialReview(flagForReview({ evaluation, answerSources, alignment: alignment.entries }));
+
+  const persisted = await persistEvaluation({
+    evaluation,
+    modelText: submission.modelText,
+    studentText: submission.studentText,
+    answerSources,
+    review,
+    links
+  });
+
+  // Optional: include PDF bytes as base64 for the UI to download.
+  hooks.onStage?.("rendering_pdf");
+  const pdfBuffer = await buildPdfReport({
+    evaluation,
+    answerSources,
+    meta: {
+      evaluationId: persisted.evaluationId,
+      createdAtIso: persisted.createdAtIso
+    },
+    review
+  });
+
+  return {
+    evaluationId: persisted.evaluationId,
+    createdAtIso: persisted.createdAtIso,
+    ...links,
+    evaluation,
+    studentPages: submission.studentPages,
+    answerSources,
+    segmentation: { model: modelSegmentation, student: studentSegmentation },
+    alignment: alignment.entries,
+    review,
+    preprocessing: submission.preprocessing,
+    warnings: [
+      ...submission.warnings,
+      ...alignment.warnings,
+      ...unkeyedAnswerWarnings(body, { modelQa, studentQa, answerKey }),
+      ...graded.warnings,
+      ...lowConfidenceWarnings(answerSources)
+    ],
+    pdfBase64: pdfBuffer.toString("base64")
+  };
+}
+
+export type AlignmentResult = {
+  alignment: AlignmentEntry[];
+  questions: Array<{ questionId: string; modelAnswer: string }>;
+  studentAnswers: QaPair[];
+  warnings: string[];
+};
+
+// Proposes the student-answer -> question mapping without grading, so a teacher can correct it and send it back
+// as `alignment` to /api/evaluate.
+export async function runAlignment(
+  request: EvaluateBody,
+  files: { modelFiles?: UploadedFile[]; studentFiles?: UploadedFile[] }
+): Promise<AlignmentResult> {
+  const { body } = await applyRoster(request);
+  const submission = await prepareSubmission(body, files);
+  const alignment = await alignSubmission(body, submission);
+  return {
+    alignment: alignment.entries,
+    questions: gradingTargets(body, submission).map((q) => ({ questionId: q.questionId, modelAnswer: q.modelAnswer })),
+    studentAnswers: submission.studentQa,
+    warnings: [...submission.warnings, ...alignment.warnings]
+  };
+}
+
+type PreparedSubmission = {
+  answerKey?: AnswerKey;
+  paper?: GeneratedPaper;
+  modelText: string;
+  studentText: string;
+  modelSegmentation: Segmentation;
+  studentSegmentation: Segmentation;
+  modelQa: QaPair[];
+  studentQa: QaPair[];
+  studentPages: PageSource[];
+  preprocessing: { model: PagePreprocessing[]; student: PagePreprocessing[] };
+  warnings: string[];
+};
+
+// Extraction and segmentation shared by grading and the alignment preview.
+async function prepareSubmission(
+  body: EvaluateBody,
+  files: { modelFiles?: UploadedFile[]; studentFiles?: UploadedFile[] },
+  hooks: PipelineHooks = {}
+): Promise<PreparedSubmission> {
+  const { answerKey, paper } = await resolveAnswerKey(body);
+
+  hooks.onStage?.("extracting");
+  const modelTextOverride = body.modelText && body.modelText.trim();
+  const studentTextOverride = body.studentText && body.studentText.trim();
+
+  const extractionOptions = extractionOptionsFor(body, paper);
+  const modelExtraction = await extractPages(files.modelFiles, body.modelPageOrder, extractionOptions);
+  hooks.signal?.throwIfAborted();
+  const studentExtraction = await extractPages(files.studentFiles, body.studentPageOrder, extractionOptions);
+  hooks.signal?.throwIfAborted();
+
+  const modelText = modelTextOverride || modelExtraction?.text || "";
+  const studentText = studentTextOverride || studentExtraction?.text || "";
+
+  const extractionWarnings = [
+    ...(modelExtraction?.warnings ?? []).map((w) => `Model file: ${w}`),
+    ...(studentExtraction?.warnings ?? []).map((w) => `Student file: ${w}`)
+  ];
+
+  if (!modelText.trim() && !answerKey) {
+    throw new PipelineError(
+      "Model answer text is empty. Paste text, upload images for OCR, or send an answerKey or paperId.",
+      400,
+      { warnings: extractionWarnings }
+    );
+  }
+  if (!studentText.trim()) {
+    throw new PipelineError("Student answer text is empty. Paste text or upload images for OCR.", 400, {
+      warnings: extractionWarnings
+    });
+  }
+
+  hooks.onStage?.("parsing");
+  // OCR layout only lines up with the text when it came from the uploads.
+  const modelSegmentation = segmentAnswers(modelText, { ocrLines: modelTextOverride ? [] : modelExtraction?.lines });
+  const modelQa = flattenQa(modelSegmentation.questions);
+  const studentSegmentation = segmentAnswers(studentText, {
+    ocrLines: studentTextOverride ? [] : studentExtraction?.lines,
+    expectedIds: expectedQuestionIds(answerKey, modelSegmentation, modelQa)
+  });
+
+  return {
+    answerKey,
+    paper,
+    modelText,
+    studentText,
+    modelSegmentation,
+    studentSegmentation,
+    modelQa,
+    studentQa: flattenQa(studentSegmentation.questions),
+    // Page info only applies when the student text came from the uploads.
+    studentPages: studentTextOverride ? [] : (studentExtraction?.pages ?? []),
+    preprocessing: { model: modelExtraction?.preprocessing ?? [], student: studentExtraction?.preprocessing ?? [] },
+    warnings: [
+      ...extractionWarnings,
+      ...modelSegmentation.warnings.map((w) => `Model answers: ${w}`),
+      ...studentSegmentation.warnings.map((w) => `Student answers: ${w}`)
+    ]
+  };
+}
+
+function gradingTargets(
+  body: { maxMarksPerQuestion: number },
+  submission: { modelQa: QaPair[]; answerKey?: AnswerKey }
+): GradingQuestion[] {
+  return buildGradingQuestions({
+    modelQa: submission.modelQa,
+    studentQa: [],
+    maxMarksPerQuestion: body.maxMarksPerQuestion,
+    answerKey: submission.answerKey
+  });
+}
+
+function alignSubmission(
+  body: { maxMarksPerQuestion: number; alignBy: AlignMode; alignment?: AlignmentOverride },
+  submission: { modelQa: QaPair[]; studentQa: QaPair[]; answerKey?: AnswerKey }
+) {
+  return alignAnswers({
+    questions: gradingTargets(body, submission),
+    studentQa: submission.studentQa,
+    mode: body.alignBy,
+    override: body.alignment
+  });
+}
+
+async function extractPages(
+  files: UploadedFile[] | undefined,
+  pageOrder: Array<string | number> | undefined,
+  options: ExtractionOptions
+): Promise<MultiPageExtractionResult | null> {
+  return files?.length ? extractTextFromUploads(files, { ...options, pageOrder }) : null;
+}
+
+// Ids the student is expected to answer, so numbered lists inside answers aren't taken for questions.
+// Model text without question numbers says nothing about the ids.
+function expectedQuestionIds(answerKey: AnswerKey | undefined, model: Segmentation, modelQa: QaPair[]): string[] {
+  if (answerKey) return answerKey.map((q) => q.questionId);
+  return model.confidence >= 0.5 && modelQa.length > 1 ? modelQa.map((q) => q.questionId) : [];
+}
+
+// Graded against a paper, marks are out of the paper's total. Its questions add up to it unless the paper was edited
+// by hand or an explicit answerKey changed their marks; the teacher is told when they don't.
+function outOfPaperTotal(
+  evaluation: Evaluation,
+  paper?: GeneratedPaper
+): { evaluation: Evaluation; warnings: string[] } {
+  const paperTotal = paper?.header.totalMarks;
+  if (!paperTotal || paperTotal === evaluation.maxTotalMarks) return { evaluation, warnings: [] };
+  return {
+    evaluation: {
+      ...evaluation,
+      totalMarks: Math.min(evaluation.totalMarks, paperTotal),
+      maxTotalMarks: paperTotal
+    },
+    warnings: [
+      `The paper's questions add up to ${evaluation.maxTotalMarks} marks, not its total of ${paperTotal}; ` +
+        `marks are out of ${paperTotal}.`
+    ]
+  };
+}
+
+// With an answer key, answers to questions it doesn't list are not graded; the teacher should know they were there.
+function unkeyedAnswerWarnings(
+  body: { maxMarksPerQuestion: number },
+  submission: { modelQa: QaPair[]; studentQa: QaPair[]; answerKey?: AnswerKey }
+): string[] {
+  if (!submission.answerKey) return [];
+  const { unmatched } = matchStudentAnswers({ ...submission, maxMarksPerQuestion: body.maxMarksPerQuestion });
+  return unmatched.map((id) => `Student answers: Q${id} is not in the answer key and was not graded.`);
+}
+
+// Answers OCR'd with low confidence are likely misread; point the teacher at the original page.
+function lowConfidenceWarnings(sources: AnswerSource[]): string[] {
+  const threshold = Number(process.env.OCR_LOW_CONFIDENCE || 0.6);
+  return sources
+    .filter((s) => s.ocrConfidence !== null && s.ocrConfidence < threshold)
+    .map(
+      (s) =>
+        `Q${s.questionId}: low OCR confidence (${Math.round((s.ocrConfidence ?? 0) * 100)}%). ` +
+        `Check the original on page ${s.pages.join(", ")}.`
+    );
+}
+
+function extractionOptionsFor(
+  body: { ocrProfile?: OcrProfile; subject?: string; preprocess?: PreprocessOptions },
+  paper?: GeneratedPaper
+): ExtractionOptions {
+  const subject = body.subject || paper?.header.subject || "";
+  return {
+    ocrProfile: body.ocrProfile ?? (/math/i.test(subject) ? "math" : "prose"),
+    preprocess: resolvePreprocessSteps(body.preprocess)
+  };
+}
+
+export type BatchEvaluationResult = {
+  batchId: string;
+  createdAtIso: string;
+  classId: string | null;
+  examId: string | null;
+  summary: BatchSummary;
+  students: BatchStudentResult[];
+  warnings: string[];
+  pdfBase64: string;
+};
+
+const BATCH_FILE_EXTENSIONS = /\.(pdf|png|jpe?g|webp|gif|bmp|tiff?|heic|heif)$/i;
+// Answer sheets per batch, uploaded and zipped together.
+export const MAX_BATCH_SHEETS = 200;
+// Uncompressed bytes read from a studentZip; each entry may be as large as a single upload.
+const MAX_ZIP_BYTES = 250 * 1024 * 1024;
+const MAX_ZIP_ENTRY_BYTES = 25 * 1024 * 1024;
+
+export async function runBatchEvaluation(
+  request: EvaluateBatchBody,
+  files: { modelFiles?: UploadedFile[]; studentFiles: UploadedFile[]; studentZip?: UploadedFile },
+  hooks: PipelineHooks = {}
+): Promise<BatchEvaluationResult> {
+  const { body, links: batchLinks } = await applyRoster(request);
+  const { answerKey, paper } = await resolveAnswerKey(body);
+
+  const studentFiles = [
+    ...files.studentFiles,
+    ...unzipStudentFiles(files.studentZip, MAX_BATCH_SHEETS - files.studentFiles.length)
+  ];
+  if (!studentFiles.length) {
+    throw new PipelineError("Upload studentFiles or a studentZip with at least one answer sheet.", 400);
+  }
+
+  hooks.onStage?.("extracting");
+  const extractionOptions = extractionOptionsFor(body, paper);
+  const modelExtraction = await extractPages(files.modelFiles, body.modelPageOrder, extractionOptions);
+  const modelText = (body.modelText && body.modelText.trim()) || modelExtraction?.text || "";
+  const modelWarnings = (modelExtraction?.warnings ?? []).map((w) => `Model file: ${w}`);
+  if (!modelText.trim() && !answerKey) {
+    throw new PipelineError(
+      "Model answer text is empty. Paste text, upload images for OCR, or send an answerKey or paperId.",
+      400,
+      { warnings: modelWarnings }
+    );
+  }
+  const modelSegmentation = segmentAnswers(modelText, {
+    ocrLines: body.modelText?.trim() ? [] : modelExtraction?.lines
+  });
+  const modelQa = flattenQa(modelSegmentation.questions);
+  const expectedIds = expectedQuestionIds(answerKey, modelSegmentation, modelQa);
+  const targets = gradingTargets(body, { modelQa, answerKey });
+  modelWarnings.push(...modelSegmentation.warnings.map((w) => `Model answers: ${w}`));
+
+  const batchId = randomUUID();
+  const createdAtIso = new Date().toISOString();
+  const tags = new Map(body.students.map((s) => [s.file, s]));
+
+  let completed = 0;
+  hooks.onStage?.("grading", { completed, total: studentFiles.length });
+  const students = await mapWithConcurrency(studentFiles, body.concurrency, async (file) => {
+    hooks.signal?.throwIfAborted();
+    const tag = tags.get(file.originalname);
+    const result: BatchStudentResult = {
+      label: tag?.name || tag?.rollNumber || file.originalname.replace(/\.[^.]+$/, ""),
+      rollNumber: tag?.rollNumber ?? null,
+      name: tag?.name ?? null,
+      studentId: null,
+      evaluationId: null,
+      evaluation: null,
+      review: null,
+      warnings: [],
+      preprocessing: [],
+      error: null
+    };
+
+    try {
+      const roster = await batchStudentLinks(tag, batchLinks);
+      if (roster.warning) result.warnings.push(roster.warning);
+      if (roster.student) {
+        result.rollNumber = roster.student.rollNumber;
+        result.name = tag?.name || roster.student.name;
+        result.label = result.name;
+      }
+      result.studentId = roster.links.studentId;
+
+      const extraction = await extractTextFromUpload(file, extractionOptions);
+      result.warnings.push(...extraction.warnings);
+      result.preprocessing = extraction.preprocessing;
+      if (!extraction.text.trim()) {
+        result.error = "Student answer text is empty (OCR returned no text).";
+        return result;
+      }
+
+      const segmentation = segmentAnswers(extraction.text, { ocrLines: extraction.lines, expectedIds });
+      const studentQa = flattenQa(segmentation.questions);
+      const alignment = await alignAnswers({ questions: targets, studentQa, mode: body.alignBy });
+      const alignedQa = applyAlignment(studentQa, alignment.entries);
+      result.warnings.push(
+        ...segmentation.warnings,
+        ...alignment.warnings,
+        ...unkeyedAnswerWarnings(body, { modelQa, studentQa: alignedQa, answerKey })
+      );
+      const { evaluation, warnings } = outOfPaperTotal(
+        await gradeSubmission({
+          modelQa,
+          studentQa: alignedQa,
+          maxMarksPerQuestion: body.maxMarksPerQuestion,
+          answerKey,
+          strictness: body.strictness,
+          subject: body.subject || paper?.header.subject,
+          samples: body.samples,
+          choiceGroups: [...modelSegmentation.choiceGroups, ...segmentation.choiceGroups]
+        }),
+        paper
+      );
+      result.warnings.push(...warnings);
+      // One file per student: every page comes from it.
+      const pages = [...new Set(alignedQa.flatMap((q) => q.pages ?? [1]))];
+      const answerSources = answerSourcesFor(alignedQa, pages.map((page) => ({ page, filename: file.originalname })));
+      const review = initialReview(flagForReview({ evaluation, answerSources, alignment: alignment.entries }));
+      const persisted = await persistEvaluation({
+        evaluation,
+        modelText,
+        studentText: extraction.text,
+        answerSources,
+        review,
+        links: roster.links,
+        batch: { batchId, label: result.label, rollNumber: result.rollNumber, studentName: result.name }
+      });
+
+      result.evaluationId = persisted.evaluationId;
+      result.evaluation = evaluation;
+      result.review = review;
+    } catch (err: unknown) {
+      // Quota/auth problems affect every student the same way; surface them for the whole batch.
+      if (isProviderAccessError(err)) throw err;
+      console.error(err);
+      result.error = err instanceof Error ? err.message : "Grading failed";
+    } finally {
+      completed += 1;
+      hooks.onStage?.("grading", { completed, total: studentFiles.length });
+    }
+    return result;
+  });
+  hooks.signal?.throwIfAborted();
+
+  hooks.onStage?.("rendering_pdf");
+  const summary = summarizeBatch(students);
+  const pdfBuffer = await buildBatchPdfReport({ summary, students, meta: { batchId, createdAtIso } });
+
+  return {
+    batchId,
+    createdAtIso,
+    classId: batchLinks.classId,
+    examId: batchLinks.examId,
+    summary,
+    students,
+    warnings: modelWarnings,
+    pdfBase64: pdfBuffer.toString("base64")
+  };
+}
+
+// Checks the roster ids; a named exam fills in the answer key, paper and subject the request leaves out.
+async function applyRoster<
+  T extends RosterLinksInput & { answerKey?: AnswerKey; paperId?: string; paper?: GeneratedPaper; subject?: string }
+>(body: T): Promise<{ body: T; links: RosterLinks }> {
+  const { links, exam } = await resolveRosterLinks(body);
+  if (!exam) return { body, links };
+  // A key sent with the request replaces the exam's key and paper altogether.
+  const ownKey = body.answerKey || body.paperId || body.paper;
+  return {
+    body: {
+      ...body,
+      answerKey: ownKey ? body.answerKey : (exam.answerKey ?? undefined),
+      paperId: ownKey ? body.paperId : (exam.paperId ?? undefined),
+      subject: body.subject || exam.subject
+    },
+    links
+  };
+}
+
+// Matches a batch entry to a roster student: by studentId, else by roll number within the batch's class.
+async function batchStudentLinks(
+  tag: { rollNumber?: string; studentId?: string } | undefined,
+  batchLinks: RosterLinks
+): Promise<{ links: RosterLinks; student: { rollNumber: string; name: string } | null; warning: string | null }> {
+  if (tag?.studentId) {
+    const { links, student } = await resolveRosterLinks({
+      studentId: tag.studentId,
+      classId: batchLinks.classId ?? undefined,
+      examId: batchLinks.examId ?? undefined
+    });
+    return { links, student, warning: null };
+  }
+  if (!batchLinks.classId || !tag?.rollNumber) return { links: batchLinks, student: null, warning: null };
+
+  const student = await findStudentByRollNumber(batchLinks.classId, tag.rollNumber);
+  if (!student) {
+    return { links: batchLinks, student: null, warning: `Roll number ${tag.rollNumber} is not on the class roster.` };
+  }
+  return { links: { ...batchLinks, studentId: student.id }, student, warning: null };
+}
+
+// Resolves the structured answer key from an explicit key and/or a generated paper.
+async function resolveAnswerKey(body: {
+  answerKey?: AnswerKey;
+  paperId?: string;
+  paper?: GeneratedPaper;
+}): Promise<{ answerKey?: AnswerKey; paper?: GeneratedPaper }> {
+  const paper = body.paper ?? (body.paperId ? (await getPaper(body.paperId))?.paper : undefined);
+  if (body.paperId && !paper) throw new PipelineError("Paper not found", 404);
+  if (!paper) return { answerKey: body.answerKey };
+
+  // Explicit answer-key entries override the ones derived from the paper.
+  const explicitKey = body.answerKey ?? [];
+  const explicitIds = new Set(explicitKey.map((q) => q.questionId.trim()));
+  return {
+    answerKey: [...answerKeyFromPaper(paper).filter((q) => !explicitIds.has(q.questionId)), ...explicitKey],
+    paper
+  };
+}
+
+// Sizes come from the entry headers, which adm-zip also enforces while inflating, so a zip bomb is refused before
+// anything is decompressed.
+function unzipStudentFiles(zipFile: UploadedFile | undefined, maxEntries: number): UploadedFile[] {
+  if (!zipFile) return [];
+  let entries: AdmZip.IZipEntry[];
+  try {
+    entries = new AdmZip(zipFile.buffer)
+      .getEntries()
+      .filter((e) => !e.isDirectory && !e.entryName.startsWith("__MACOSX/") && !path.basename(e.entryName).startsWith("."))
+      .filter((e) => BATCH_FILE_EXTENSIONS.test(e.entryName))
+      // An entry that declares no size would inflate without a limit.
+      .filter((e) => e.header.size > 0)
+      .sort((a, b) => a.entryName.localeCompare(b.entryName, undefined, { numeric: true }));
+  } catch (err) {
+    throw new PipelineError(`studentZip is not a readable zip file: ${describeZipError(err)}`, 400);
+  }
+
+  if (entries.length > maxEntries) {
+    throw new PipelineError(
+      `Too many answer sheets: a batch takes at most ${MAX_BATCH_SHEETS} files, uploaded and zipped together.`,
+      400
+    );
+  }
+  const tooLarge = entries.find((e) => e.header.size > MAX_ZIP_ENTRY_BYTES);
+  if (tooLarge) {
+    throw new PipelineError(`studentZip entry ${tooLarge.entryName} is larger than 25 MB uncompressed.`, 400);
+  }
+  if (entries.reduce((acc, e) => acc + e.header.size, 0) > MAX_ZIP_BYTES) {
+    throw new PipelineError("studentZip is larger than 250 MB uncompressed.", 400);
+  }
+
+  return entries.map((e) => {
+    try {
+      return { buffer: e.getData(), mimetype: "application/octet-stream", originalname: e.entryName };
+    } catch (err) {
+      throw new PipelineError(`studentZip entry ${e.entryName} could not be read: ${describeZipError(err)}`, 400);
+    }
+  });
+}
+
+function describeZipError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function isProviderAccessError(err: unknown): boolean {
+  const e = err as { status?: number; response?: { status?: number } } | null;
+  const status = Number(e?.status || e?.response?.status || 0);
+  return status === 401 || status === 403 || status === 429;
+}
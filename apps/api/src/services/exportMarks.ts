@@ -0,0 +1,258 @@
+import ExcelJS from "exceljs";
+import { z } from "zod";
+
+import { analyzeQuestions, latestPerStudent, type AnalyticsEvaluation } from "./analytics.js";
+import { jsonField } from "./evaluatePipeline.js";
+import { listStoredEvaluations } from "./persist.js";
+import { compareQuestionIds, normalizeQuestionId } from "./questionIds.js";
+import { getExam, listStudents, type ExamDoc, type StudentDoc } from "./roster.js";
+
+export const EXPORT_FIELDS = [
+  "rollNumber",
+  "name",
+  "studentId",
+  "evaluationId",
+  "exam",
+  "subject",
+  "questions",
+  "total",
+  "maxTotal",
+  "percentage",
+  "weakAreas",
+  "reviewStatus"
+] as const;
+type ExportField = (typeof EXPORT_FIELDS)[number];
+
+// A column of the students sheet: a field, or "q:<id>" for one question's marks. `questions` expands to one
+// column per question; its header may contain {id}.
+export const ExportColumnSchema = z.object({
+  field: z.union([z.enum(EXPORT_FIELDS), z.string().regex(/^q:.+/)]),
+  header: z.string().trim().min(1).max(100).optional()
+});
+export const ExportColumnsSchema = z.array(ExportColumnSchema).min(1).max(200);
+export type ExportColumn = z.infer<typeof ExportColumnSchema>;
+
+const DEFAULT_HEADERS: Record<ExportField, string> = {
+  rollNumber: "Roll number",
+  name: "Student",
+  studentId: "Student ID",
+  evaluationId: "Evaluation ID",
+  exam: "Exam",
+  subject: "Subject",
+  questions: "Q{id}",
+  total: "Total",
+  maxTotal: "Out of",
+  percentage: "Percentage",
+  weakAreas: "Weak areas",
+  reviewStatus: "Review status"
+};
+
+const DEFAULT_COLUMNS: ExportColumn[] = [
+  { field: "rollNumber" },
+  { field: "name" },
+  { field: "questions" },
+  { field: "total" },
+  { field: "maxTotal" },
+  { field: "percentage" },
+  { field: "weakAreas" }
+];
+
+export type Cell = string | number | null;
+export type ExportTable = { title: string; headers: string[]; rows: Cell[][] };
+// `students`: one row per student; `questions`: the per-question breakdown.
+export type MarksExport = { name: string; students: ExportTable; questions: ExportTable };
+
+export type ExportSource = { examId: string } | { batchId: string };
+
+type StudentRow = {
+  evaluation: AnalyticsEvaluation;
+  rollNumber: string;
+  name: string;
+  exam: ExamDoc | null;
+};
+
+// EXPORT_COLUMNS (JSON, same format as the `columns` parameter) sets the columns an ERP upload expects.
+export function defaultExportColumns(): ExportColumn[] {
+  const configured = process.env.EXPORT_COLUMNS;
+  if (!configured?.trim()) return DEFAULT_COLUMNS;
+  const parsed = ExportColumnsSchema.safeParse(jsonField(configured));
+  if (!parsed.success) throw new Error(`Invalid EXPORT_COLUMNS: ${parsed.error.message}`);
+  return parsed.data;
+}
+
+// Marks for every student in an exam (their latest evaluation) or in one /api/evaluate-batch run.
+// Resolves to null when the exam or batch doesn't exist.
+export async function buildMarksExport(
+  source: ExportSource,
+  columns: ExportColumn[] = defaultExportColumns()
+): Promise<MarksExport | null> {
+  let name: string;
+  let evaluations: AnalyticsEvaluation[];
+  if ("examId" in source) {
+    const exam = await getExam(source.examId);
+    if (!exam) return null;
+    name = exam.name;
+    evaluations = latestPerStudent(await listStoredEvaluations({ examId: source.examId }));
+  } else {
+    evaluations = await listStoredEvaluations({ batchId: source.batchId });
+    if (!evaluations.length) return null;
+    name = `batch-${source.batchId}`;
+  }
+
+  const rows = await studentRows(evaluations);
+  const questionIds = [...new Set(evaluations.flatMap((e) => e.evaluation.questions.map((q) => q.questionId)))].sort(
+    compareQuestionIds
+  );
+  return { name, students: studentsTable(rows, questionIds, columns), questions: questionsTable(evaluations) };
+}
+
+export function toCsv(table: ExportTable): string {
+  return [table.headers, ...table.rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export async function toXlsx(data: MarksExport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  for (const table of [data.students, data.questions]) {
+    const sheet = workbook.addWorksheet(table.title);
+    sheet.addRow(table.headers).font = { bold: true };
+    sheet.addRows(table.rows);
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+    table.headers.forEach((header, i) => {
+      const longest = Math.max(header.length, ...table.rows.map((row) => String(row[i] ?? "").length));
+      sheet.getColumn(i + 1).width = Math.min(60, Math.max(8, longest + 2));
+    });
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// Roster students come first by roll number; unlinked evaluations fall back to the batch tag.
+async function studentRows(evaluations: AnalyticsEvaluation[]): Promise<StudentRow[]> {
+  const classIds = [...new Set(evaluations.map((e) => e.classId).filter((id): id is string => !!id))];
+  const examIds = [...new Set(evaluations.map((e) => e.examId).filter((id): id is string => !!id))];
+  const [rosters, exams] = await Promise.all([
+    Promise.all(classIds.map((classId) => listStudents({ classId }))),
+    Promise.all(examIds.map((id) => getExam(id)))
+  ]);
+  const students = new Map<string, StudentDoc>(rosters.flat().map((s) => [s.id, s]));
+  const examsById = new Map(exams.filter((exam) => exam !== null).map((exam) => [exam.id, exam]));
+
+  return evaluations
+    .map((e) => {
+      const student = e.studentId ? students.get(e.studentId) : undefined;
+      return {
+        evaluation: e,
+        rollNumber: student?.rollNumber ?? e.batch?.rollNumber ?? "",
+        name: student?.name ?? e.batch?.studentName ?? e.batch?.label ?? "",
+        exam: (e.examId && examsById.get(e.examId)) || null
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.rollNumber.localeCompare(b.rollNumber, undefined, { numeric: true }) || a.name.localeCompare(b.name)
+    );
+}
+
+function studentsTable(rows: StudentRow[], questionIds: string[], columns: ExportColumn[]): ExportTable {
+  const headers: string[] = [];
+  const cells: Array<(row: StudentRow) => Cell> = [];
+  for (const column of columns) {
+    if (column.field === "questions") {
+      for (const id of questionIds) {
+        headers.push((column.header ?? DEFAULT_HEADERS.questions).replaceAll("{id}", id));
+        cells.push((row) => questionMarks(row, id));
+      }
+    } else if (column.field.startsWith("q:")) {
+      const id = normalizeQuestionId(column.field.slice(2));
+      headers.push(column.header ?? DEFAULT_HEADERS.questions.replaceAll("{id}", id));
+      cells.push((row) => questionMarks(row, id));
+    } else {
+      const field = column.field as Exclude<ExportField, "questions">;
+      headers.push(column.header ?? DEFAULT_HEADERS[field]);
+      cells.push((row) => fieldValue(row, field));
+    }
+  }
+  return { title: "Students", headers, rows: rows.map((row) => cells.map((cell) => cell(row))) };
+}
+
+function fieldValue(row: StudentRow, field: Exclude<ExportField, "questions">): Cell {
+  const { evaluation } = row.evaluation;
+  switch (field) {
+    case "rollNumber":
+      return row.rollNumber;
+    case "name":
+      return row.name;
+    case "studentId":
+      return row.evaluation.studentId;
+    case "evaluationId":
+      return row.evaluation.evaluationId;
+    case "exam":
+      return row.exam?.name ?? null;
+    case "subject":
+      return row.exam?.subject ?? null;
+    case "total":
+      return evaluation.totalMarks;
+    case "maxTotal":
+      return evaluation.maxTotalMarks;
+    case "percentage":
+      return evaluation.maxTotalMarks ? round2((evaluation.totalMarks / evaluation.maxTotalMarks) * 100) : 0;
+    case "weakAreas":
+      return [...new Set([...evaluation.weakAreas, ...evaluation.questions.flatMap((q) => q.weakAreas)])].join("; ");
+    case "reviewStatus":
+      return row.evaluation.review.status;
+  }
+}
+
+// Blank when the student's sheet has no answer graded as this question.
+function questionMarks(row: StudentRow, questionId: string): Cell {
+  return row.evaluation.evaluation.questions.find((q) => q.questionId === questionId)?.marksAwarded ?? null;
+}
+
+function questionsTable(evaluations: AnalyticsEvaluation[]): ExportTable {
+  const rows = analyzeQuestions(evaluations).map((q): Cell[] => {
+    const areas = new Map<string, number>();
+    for (const e of evaluations) {
+      for (const answer of e.evaluation.questions) {
+        if (answer.questionId !== q.questionId) continue;
+        for (const area of new Set(answer.weakAreas)) areas.set(area, (areas.get(area) ?? 0) + 1);
+      }
+    }
+    const common = [...areas.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([area, count]) => `${area} (${count})`);
+    return [
+      q.questionId,
+      q.maxMarks,
+      q.attempts,
+      q.averageMarks,
+      q.difficultyIndex,
+      q.discriminationIndex,
+      common.join("; ")
+    ];
+  });
+  return {
+    title: "Questions",
+    headers: [
+      "Question",
+      "Max marks",
+      "Attempts",
+      "Average marks",
+      "Difficulty index",
+      "Discrimination index",
+      "Common weak areas"
+    ],
+    rows
+  };
+}
+
+// Text starting with = + - @ would run as a formula when the CSV is opened in a spreadsheet.
+function csvCell(value: Cell): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
@@ -1,35 +1,512 @@
-export type QaPair = { questionId: string; text: string };
+import { PAGE_MARKER_LINE, type PageSource } from "./extractText.js";
+import { meanConfidence, type OcrLine } from "./ocr.js";
+import { compareQuestionIds, isDescendantId, questionIdParts } from "./questionIds.js";
 
-export function extractQaPairs(rawText: string): QaPair[] {
-  const text = rawText.replace(/\r\n/g, "\n").trim();
-  if (!text) return [];
+// `pages` is set when the text was stitched from several pages (see extractTextFromUploads);
+// `ocrConfidence` when OCR lines were supplied (0..1, word-weighted over the answer's lines).
+export type QaPair = { questionId: string; text: string; pages?: number[]; ocrConfidence?: number };
 
-  const markers: Array<{ idx: number; qid: string; markerLen: number }> = [];
+// Where each student answer was found in a multi-page upload, so teachers can check the original.
+export type AnswerSource = { questionId: string; pages: number[]; files: string[]; ocrConfidence: number | null };
 
-  // Matches: "Q1:", "Question 1 -", "1.", "1)"
-  const re = /(^|\n)\s*(?:Q(?:uestion)?\s*)?(\d{1,3})\s*[:.)-]\s*/gi;
-  for (;;) {
-    const m = re.exec(text);
-    if (!m) break;
-    const full = m[0];
-    const qid = String(m[2]);
-    const idx = (m.index ?? 0) + (m[1]?.length ?? 0);
-    markers.push({ idx, qid, markerLen: full.length - (m[1]?.length ?? 0) });
+// A question or sub-part as written on the sheet. `prompt` holds question text the student copied before an
+// "Ans:" marker; `parts` are sub-questions such as 2(a) or 2(a)(ii), in question order.
+export type QaNode = {
+  questionId: string;
+  label: string;
+  prompt?: string;
+  text: string;
+  parts: QaNode[];
+  pages?: number[];
+  ocrConfidence?: number;
+};
+
+// "Attempt any one" / OR alternatives: only the best `pick` of `questionIds` count towards the total.
+export type ChoiceGroup = { questionIds: string[]; pick: number };
+
+// `confidence` (0..1) drops with every ambiguity listed in `warnings`.
+export type Segmentation = { questions: QaNode[]; choiceGroups: ChoiceGroup[]; warnings: string[]; confidence: number };
+
+// `expectedIds` (from the answer key or model answers) tell numbered lists inside an answer apart from new questions.
+export type SegmentOptions = { ocrLines?: OcrLine[]; expectedIds?: string[] };
+
+type Marker =
+  | {
+      kind: "question";
+      top: string;
+      subs: string[];
+      prefixed: boolean;
+      answer: boolean;
+      topLength: number;
+      length: number;
+    }
+  | { kind: "part"; token: string; length: number }
+  | { kind: "answer"; length: number }
+  | { kind: "or"; length: number };
+
+// `from` is where the marker starts, `start` where the node's own text starts.
+type Span = { from: number; start: number; end: number };
+
+type WorkNode = {
+  id: string;
+  token: string;
+  label: string;
+  style: "number" | "letter" | "roman";
+  parent: WorkNode | null;
+  children: WorkNode[];
+  spans: Span[];
+  // Index of the span where the answer starts after an "Ans:" marker; earlier spans are the copied prompt.
+  answerSpan: number | null;
+};
+
+const OR_LINE = /^[-–—(\s]*or[-–—)\s]*$/i;
+// "Q1", "Q.No.1", "Question 1", "Ans 1", or a bare "1".
+const QUESTION_START = /^(?:(q(?:ues(?:tion)?)?|ans(?:wer)?)\s*\.?\s*(?:no\.?\s*)?)?(\d{1,3})(?!\d)/i;
+const SUB_PAREN = /^\s*\(\s*([a-z]|[ivx]{2,4})\s*\)/i;
+const SUB_CLOSE = /^\.?([a-z]|[ivx]{2,4})\)/i;
+// Lower-case only, so "1.I think" stays text.
+const SUB_ATTACHED = /^\.?([a-z]|[ivx]{2,4})(?=[\s:.-]|$)/;
+// Not followed by a digit, so "1.5 kg" and "10:30" stay text.
+const TERMINATOR = /^\s*[:.)\-–](?!\d)\s*/;
+const ANSWER_START = /^ans(?:wer)?\s*[:.\-–)]\s*/i;
+const PART_STARTS = [/^\(\s*([a-z]|[ivx]{2,4})\s*\)\s*/i, /^([a-z]|[ivx]{2,4})\)\s*/i, /^([a-z]|[ivx]{2,4})\.\s+/];
+const ANY_OF = /\b(?:attempt|answer|do|solve|write)\s+any\s+(one|two|three|four|five|six|\d{1,2})\b/i;
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+// Splits an answer sheet into questions, sub-parts (1(a), 2.b, iii)) and OR-choices.
+// Ambiguities (repeated ids, stray sub-parts, unexpected ids) are reported instead of silently overwriting.
+export function segmentAnswers(rawText: string, options: SegmentOptions = {}): Segmentation {
+  const { text, pageStarts } = stripPageMarkers(rawText.replace(/\r\n/g, "\n"));
+  if (!text) return { questions: [], choiceGroups: [], warnings: [], confidence: 0 };
+  const locatedLines = locateLines(text, options.ocrLines ?? []);
+  const expectedTop = options.expectedIds?.length
+    ? new Set(options.expectedIds.map((id) => questionIdParts(id)[0]))
+    : null;
+
+  const lines = splitLines(text);
+  // With two or more "Q"/"Ans" markers, bare numbers are usually lists inside answers.
+  const strongDocument = lines.filter((l) => l.marker?.kind === "question" && l.marker.prefixed).length >= 2;
+
+  const roots: WorkNode[] = [];
+  const byId = new Map<string, WorkNode>();
+  const choiceGroups: ChoiceGroup[] = [];
+  const warnings: string[] = [];
+  let penalty = 0;
+  let current: WorkNode | null = null;
+  let openSpan: Span | null = null;
+  let pendingOr: WorkNode | null = null;
+  let listNumber = 0;
+  let maxTop = 0;
+  let preambleEnd = text.length;
+
+  const warn = (message: string, cost: number) => {
+    if (!warnings.includes(message)) warnings.push(message);
+    penalty += cost;
+  };
+
+  const close = (at: number) => {
+    if (openSpan) openSpan.end = at;
+    else preambleEnd = Math.min(preambleEnd, at);
+  };
+
+  const open = (node: WorkNode, from: number, start: number) => {
+    close(from);
+    openSpan = { from, start, end: text.length };
+    node.spans.push(openSpan);
+    current = node;
+  };
+
+  const child = (parent: WorkNode | null, token: string, style: WorkNode["style"]): WorkNode => {
+    const id = parent ? `${parent.id}(${token})` : token;
+    const existing = byId.get(id);
+    if (existing) return existing;
+    const node: WorkNode = { id, token, label: id, style, parent, children: [], spans: [], answerSpan: null };
+    byId.set(id, node);
+    (parent ? parent.children : roots).push(node);
+    return node;
+  };
+
+  // A node that already has text was written twice, unless the marker just repeats it at the top of a new page.
+  const enter = (node: WorkNode, label: string, from: number, start: number) => {
+    const pageHeader = current && isSameOrDescendant(current.id, node.id) && pageStarts.some((p) => p.offset === from);
+    if (node.spans.length && !pageHeader) warn(`Q${node.id} appears more than once; its answers were combined.`, 0.1);
+    if (!node.spans.length) node.label = label;
+    if (pendingOr) addChoice(pendingOr, node);
+    pendingOr = null;
+    listNumber = 0;
+    open(node, from, start);
+  };
+
+  const addChoice = (previous: WorkNode, next: WorkNode) => {
+    let alternative: WorkNode | null = previous;
+    while (alternative && depth(alternative) > depth(next)) alternative = alternative.parent;
+    if (!alternative || alternative === next || alternative.parent !== next.parent) return;
+    const group = choiceGroups.find((g) => g.questionIds.includes(alternative.id));
+    if (!group) choiceGroups.push({ questionIds: [alternative.id, next.id], pick: 1 });
+    else if (!group.questionIds.includes(next.id)) group.questionIds.push(next.id);
+  };
+
+  const bareNumberIsList = (n: string): boolean => {
+    if (!current) return false;
+    if (expectedTop && !expectedTop.has(n)) return true;
+    if (listNumber && Number(n) === listNumber + 1) return true;
+    if (strongDocument) return Number(n) <= maxTop;
+    if (n === rootOf(current).id) return false;
+    // A restarted "1." is a list inside the current answer.
+    return n === "1" && Boolean(byId.get(n)?.spans.length);
+  };
+
+  lines.forEach((line, i) => {
+    const marker = line.marker;
+    if (!marker) return;
+    const from = line.start + line.indent;
+    const rest = line.text.slice(line.indent + marker.length).trim();
+
+    if (marker.kind === "or") {
+      if (!current) return;
+      pendingOr = current;
+      open(current, from, line.start + line.text.length);
+      return;
+    }
+
+    if (marker.kind === "answer") {
+      if (!current) return;
+      close(from);
+      const target = dissolveOptionParts(current, byId) ?? current;
+      open(target, from, from + marker.length);
+      target.answerSpan ??= target.spans.length - 1;
+      return;
+    }
+
+    if (marker.kind === "part") {
+      if (!current) {
+        warn(`Sub-part (${marker.token}) appears before any question number and was ignored.`, 0.1);
+        return;
+      }
+      const { parent, style } = placePart(current, marker.token);
+      const label = line.text.slice(line.indent, line.indent + marker.length).trim();
+      enter(child(parent, marker.token, style), label, from, from + marker.length);
+      return;
+    }
+
+    let subs = marker.subs;
+    let length = marker.length;
+    // "1 (b)" alone on a line is an MCQ choice, not sub-part 1(b), when the next line starts another question.
+    if (subs.length === 1 && !rest && isOptionChoice(marker.top, lines.slice(i + 1), options.expectedIds)) {
+      subs = [];
+      const afterTop = line.text.slice(line.indent + marker.topLength);
+      length = marker.topLength + (/^\s*[:.)\-–]\s*/.exec(afterTop)?.[0].length ?? 0);
+    }
+    if (!marker.prefixed && !subs.length && bareNumberIsList(marker.top)) {
+      listNumber = Number(marker.top);
+      return;
+    }
+    if (expectedTop && !expectedTop.has(marker.top)) {
+      warn(`Q${marker.top} is not in the answer key or model answers.`, 0.05);
+    }
+
+    let node = child(null, marker.top, "number");
+    subs.forEach((sub, idx) => {
+      node = child(node, sub, idx > 0 || /^[ivx]{2,}$/.test(sub) ? "roman" : "letter");
+    });
+    maxTop = Math.max(maxTop, Number(marker.top));
+    enter(node, line.text.slice(line.indent, line.indent + length).trim(), from, from + length);
+    if (marker.answer) node.answerSpan ??= node.spans.length - 1;
+  });
+  if (openSpan) (openSpan as Span).end = text.length;
+
+  if (!roots.length) {
+    const whole: QaNode = annotateNode(
+      { questionId: "1", label: "1", text, parts: [] },
+      [{ from: 0, start: 0, end: text.length }],
+      text,
+      pageStarts,
+      locatedLines
+    );
+    return {
+      questions: [whole],
+      choiceGroups: [],
+      warnings: ["No question numbers found; the whole text was treated as Q1."],
+      confidence: 0.3
+    };
+  }
+
+  // "Attempt any one of the following" under a question (or in the header, for whole questions).
+  const preamble = text.slice(0, preambleEnd);
+  addAnyOfGroup(choiceGroups, preamble, roots);
+  for (const node of byId.values()) {
+    addAnyOfGroup(choiceGroups, node.spans.map((s) => text.slice(s.start, s.end)).join("\n"), node.children);
+  }
+
+  return {
+    questions: roots
+      .map((node) => toQaNode(node, text, pageStarts, locatedLines))
+      .sort((a, b) => compareQuestionIds(a.questionId, b.questionId)),
+    choiceGroups,
+    warnings,
+    confidence: Math.round(Math.max(0, 1 - penalty) * 100) / 100
+  };
+}
+
+// Graded units: leaf questions and sub-parts, plus any parent that has text of its own.
+export function flattenQa(questions: QaNode[]): QaPair[] {
+  return questions.flatMap((node) => {
+    const own: QaPair[] = node.parts.length && !node.text ? [] : [toQaPair(node)];
+    return [...own, ...flattenQa(node.parts)];
+  });
+}
+
+export function extractQaPairs(rawText: string, options: SegmentOptions = {}): QaPair[] {
+  return flattenQa(segmentAnswers(rawText, options).questions);
+}
+
+function toQaPair(node: QaNode): QaPair {
+  const pair: QaPair = { questionId: node.questionId, text: node.text };
+  if (node.pages) pair.pages = node.pages;
+  if (node.ocrConfidence !== undefined) pair.ocrConfidence = node.ocrConfidence;
+  return pair;
+}
+
+type ParsedLine = { start: number; text: string; indent: number; marker: Marker | null };
+
+function splitLines(text: string): ParsedLine[] {
+  const lines: ParsedLine[] = [];
+  let start = 0;
+  for (const line of text.split("\n")) {
+    const indent = line.length - line.trimStart().length;
+    lines.push({ start, text: line, indent, marker: parseMarker(line.trimStart()) });
+    start += line.length + 1;
   }
+  return lines;
+}
 
-  if (markers.length === 0) return [{ questionId: "1", text }];
+function parseMarker(line: string): Marker | null {
+  if (!line) return null;
+  if (OR_LINE.test(line)) return { kind: "or", length: line.length };
 
-  const pairs: QaPair[] = [];
-  for (let i = 0; i < markers.length; i++) {
-    const start = markers[i].idx + markers[i].markerLen;
-    const end = i + 1 < markers.length ? markers[i + 1].idx : text.length;
-    const chunk = text.slice(start, end).trim();
-    pairs.push({ questionId: markers[i].qid, text: chunk });
+  const q = QUESTION_START.exec(line);
+  if (q) {
+    const prefix = q[1]?.toLowerCase();
+    const answer = Boolean(prefix?.startsWith("a"));
+    let rest = line.slice(q[0].length);
+    const subs: string[] = [];
+    let attached = false;
+    while (subs.length < 2) {
+      const paren = SUB_PAREN.exec(rest) ?? SUB_CLOSE.exec(rest);
+      const sub = paren ?? SUB_ATTACHED.exec(rest);
+      if (!sub) break;
+      attached ||= !paren && !sub[0].startsWith(".");
+      subs.push(sub[1].toLowerCase());
+      rest = rest.slice(sub[0].length);
+    }
+    let term = TERMINATOR.exec(rest);
+    // "Q5. (a) ..." puts the sub-part after the punctuation.
+    const late = !subs.length && term ? SUB_PAREN.exec(rest.slice(term[0].length)) : null;
+    if (late && term) {
+      subs.push(late[1].toLowerCase());
+      rest = rest.slice(term[0].length + late[0].length);
+      term = TERMINATOR.exec(rest);
+    }
+    // Bare numbers need punctuation ("1.", "2)", "2.b"), so "2x + 3" or "12 apples" stay text.
+    const ok = prefix
+      ? !answer || Boolean(term) || subs.length > 0 || !rest.trim()
+      : Boolean(term) || (subs.length > 0 && !attached) || late !== null;
+    if (ok) {
+      const after = rest.slice(term?.[0].length ?? 0);
+      return {
+        kind: "question",
+        top: String(Number(q[2])),
+        subs,
+        prefixed: Boolean(prefix),
+        answer,
+        topLength: q[0].length,
+        length: line.length - after.trimStart().length
+      };
+    }
   }
 
-  // De-dup question ids by keeping the last occurrence (common in scanned pages with repeated headers).
-  const byId = new Map<string, QaPair>();
-  for (const p of pairs) byId.set(p.questionId, p);
-  return [...byId.values()].sort((a, b) => Number(a.questionId) - Number(b.questionId));
+  const ans = ANSWER_START.exec(line);
+  if (ans) return { kind: "answer", length: ans[0].length };
+
+  for (const re of PART_STARTS) {
+    const part = re.exec(line);
+    if (part) return { kind: "part", token: part[1].toLowerCase(), length: part[0].length };
+  }
+  return null;
 }
 
+// Decides whether a standalone "(i)" is letter i under the question or roman i under the current lettered part.
+function placePart(current: WorkNode, token: string): { parent: WorkNode; style: "letter" | "roman" } {
+  const top = rootOf(current);
+  const active = current === top ? null : current.parent === top ? current : current.parent;
+  const single = token.length === 1;
+  const romanLike = /^[ivx]+$/.test(token);
+
+  if (!romanLike) return { parent: top, style: "letter" };
+  if (single && active?.style === "letter" && active.token.charCodeAt(0) + 1 === token.charCodeAt(0)) {
+    return { parent: top, style: "letter" };
+  }
+  if (active?.style === "letter") return { parent: active, style: "roman" };
+  if (single && !active) return { parent: top, style: token === "i" ? "roman" : "letter" };
+  return { parent: top, style: "roman" };
+}
+
+function isOptionChoice(top: string, following: ParsedLine[], expectedIds?: string[]): boolean {
+  if (expectedIds?.length) {
+    const expected = new Set(expectedIds);
+    if (expected.has(top) && !expectedIds.some((id) => isDescendantId(id, top))) return true;
+  }
+  const next = following.find((l) => l.text.trim());
+  if (!next) return true;
+  return next.marker?.kind === "question" && next.marker.top !== top;
+}
+
+// Short one-line "parts" followed by "Ans:" were MCQ options; fold them back into the question prompt.
+function dissolveOptionParts(current: WorkNode, byId: Map<string, WorkNode>): WorkNode | null {
+  const parent = current.parent;
+  if (!parent || parent.children.length < 2) return null;
+  const isOption = (n: WorkNode) =>
+    !n.children.length && n.answerSpan === null && n.spans.length === 1 && n.spans[0].end - n.spans[0].from < 80;
+  if (!parent.children.every(isOption)) return null;
+
+  for (const option of parent.children) {
+    byId.delete(option.id);
+    parent.spans.push({ ...option.spans[0], start: option.spans[0].from });
+  }
+  parent.children = [];
+  return parent;
+}
+
+function addAnyOfGroup(groups: ChoiceGroup[], text: string, alternatives: WorkNode[]) {
+  const m = ANY_OF.exec(text);
+  if (!m) return;
+  const pick = NUMBER_WORDS[m[1].toLowerCase()] ?? Number(m[1]);
+  const ids = alternatives.map((n) => n.id).sort(compareQuestionIds);
+  if (pick >= 1 && pick < ids.length && !groups.some((g) => g.questionIds.join() === ids.join())) {
+    groups.push({ questionIds: ids, pick });
+  }
+}
+
+function toQaNode(node: WorkNode, text: string, pageStarts: PageStart[], located: LocatedLine[]): QaNode {
+  const answerFrom = node.answerSpan ?? 0;
+  const prompt = joinSpans(text, node.spans.slice(0, answerFrom));
+  const qa: QaNode = {
+    questionId: node.id,
+    label: node.label,
+    text: joinSpans(text, node.spans.slice(answerFrom)),
+    parts: node.children
+      .map((c) => toQaNode(c, text, pageStarts, located))
+      .sort((a, b) => compareQuestionIds(a.questionId, b.questionId))
+  };
+  if (prompt) qa.prompt = prompt;
+  return annotateNode(qa, subtreeSpans(node), text, pageStarts, located);
+}
+
+function annotateNode(
+  qa: QaNode,
+  spans: Span[],
+  text: string,
+  pageStarts: PageStart[],
+  located: LocatedLine[]
+): QaNode {
+  // Only count content the question actually has, not surrounding blank lines.
+  const ranges = spans
+    .map((s) => {
+      const slice = text.slice(s.from, s.end);
+      const from = s.from + (slice.length - slice.trimStart().length);
+      return { from, to: Math.max(from + 1, s.from + slice.trimEnd().length) };
+    })
+    .filter((r) => r.to > r.from);
+  if (pageStarts.length) {
+    const pages = new Set(ranges.flatMap((r) => pagesInRange(pageStarts, r.from, r.to)));
+    qa.pages = [...pages].sort((a, b) => a - b);
+  }
+  const lines = located.filter((l) => ranges.some((r) => l.offset < r.to && l.end > r.from)).map((l) => l.line);
+  const confidence = meanConfidence(lines);
+  if (confidence !== null) qa.ocrConfidence = Math.round(confidence * 100) / 100;
+  return qa;
+}
+
+function joinSpans(text: string, spans: Span[]): string {
+  return spans
+    .map((s) => text.slice(s.start, s.end).trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function subtreeSpans(node: WorkNode): Span[] {
+  return [...node.spans, ...node.children.flatMap(subtreeSpans)];
+}
+
+function isSameOrDescendant(id: string, ancestor: string): boolean {
+  return id === ancestor || isDescendantId(id, ancestor);
+}
+
+function rootOf(node: WorkNode): WorkNode {
+  return node.parent ? rootOf(node.parent) : node;
+}
+
+function depth(node: WorkNode): number {
+  return node.parent ? depth(node.parent) + 1 : 0;
+}
+type PageStart = { offset: number; page: number };
+
+// Removes page marker lines, remembering where each page starts in the remaining text.
+function stripPageMarkers(raw: string): { text: string; pageStarts: PageStart[] } {
+  const pageStarts: PageStart[] = [];
+  const kept: string[] = [];
+  let offset = 0;
+  for (const line of raw.split("\n")) {
+    const m = PAGE_MARKER_LINE.exec(line.trim());
+    if (m) {
+      pageStarts.push({ offset, page: Number(m[1]) });
+      continue;
+    }
+    kept.push(line);
+    offset += line.length + 1;
+  }
+
+  const joined = kept.join("\n");
+  const lead = joined.length - joined.trimStart().length;
+  return {
+    text: joined.trim(),
+    pageStarts: pageStarts.map((p) => ({ ...p, offset: Math.max(0, p.offset - lead) }))
+  };
+}
+
+function pagesInRange(pageStarts: PageStart[], start: number, end: number): number[] {
+  const pages: number[] = [];
+  for (let i = 0; i < pageStarts.length; i++) {
+    const pageEnd = i + 1 < pageStarts.length ? pageStarts[i + 1].offset : Infinity;
+    if (pageStarts[i].offset < end && pageEnd > start) pages.push(pageStarts[i].page);
+  }
+  return pages;
+}
+
+export function answerSourcesFor(qa: QaPair[], pages: PageSource[]): AnswerSource[] {
+  if (!pages.length) return [];
+  const filenames = new Map(pages.map((p) => [p.page, p.filename]));
+  return qa.map((q) => {
+    // Single-page uploads carry no markers, so everything came from page 1.
+    const answerPages = q.pages ?? [1];
+    const files = [...new Set(answerPages.map((p) => filenames.get(p)).filter((f): f is string => Boolean(f)))];
+    return { questionId: q.questionId, pages: answerPages, files, ocrConfidence: q.ocrConfidence ?? null };
+  });
+}
+
+// Finds each OCR line in the text (in reading order) so answers can be matched back to their confidences.
+type LocatedLine = { offset: number; end: number; line: OcrLine };
+
+function locateLines(text: string, lines: OcrLine[]): LocatedLine[] {
+  const located: LocatedLine[] = [];
+  let cursor = 0;
+  for (const line of lines) {
+    const needle = line.text.trim();
+    if (!needle) continue;
+    const offset = text.indexOf(needle, cursor);
+    if (offset < 0) continue;
+    located.push({ offset, end: offset + needle.length, line });
+    cursor = offset + needle.length;
+  }
+  return located;
+}
@@ -1,18 +1,118 @@
+import {
+  isIdentifierLine,
+  readMarksLayout,
+  type LayoutReading,
+  type MarksLayout,
+  type MarksTemplate,
+  type QuestionMarks
+} from "./marksLayout.js";
+import type { OcrLine } from "./ocr.js";
+
 export type ExtractedScore = {
   obtained: number | null;
   outOf: number | null;
   confidence: number; // 0..1
-  method: "fraction" | "out_of" | "label" | "fallback";
-  candidates: Array<{ obtained: number; outOf: number | null; raw: string }>;
+  method: "marks_box" | "marks_table" | "fraction" | "out_of" | "label" | "circled" | "fallback";
+  // `ocrConfidence` is the confidence of the OCR line the candidate was read from, when known.
+  candidates: Array<{ obtained: number; outOf: number | null; raw: string; ocrConfidence?: number }>;
+  // Per-question marks read from a marks table on the page.
+  questions: QuestionMarks[];
+  // e.g. question marks that don't add up to the written total.
+  warnings: string[];
 };
 
 export function extractScoreFromText(params: {
   text: string;
   expectedOutOf?: number;
   labelHint?: string; // e.g. "marks", "score", "total"
+  lines?: OcrLine[]; // OCR layout/confidences; locates the marks box and scales confidence by legibility
+  template?: MarksTemplate; // where the school's cover page keeps its marks
 }): ExtractedScore {
-  const text = normalize(params.text);
   const expectedOutOf = Number.isFinite(params.expectedOutOf) ? params.expectedOutOf : undefined;
+  const layout = params.lines?.some((l) => l.words.length)
+    ? readMarksLayout(params.lines, params.template, params.labelHint ? [params.labelHint] : [])
+    : null;
+  const outOfHint =
+    params.template?.outOf ?? expectedOutOf ?? (layout && (tableOutOf(layout.questions) ?? layout.maxMarks)) ?? undefined;
+
+  const warnings: string[] = [];
+  let score: ExtractedScore | null = null;
+  if (layout?.total) {
+    const outOf = layout.total.outOf ?? outOfHint ?? null;
+    score = fromMarksBox(layout.total, outOf);
+    if (!score) warnings.push(`Read ${layout.total.obtained} as the total, more than the maximum of ${outOf}.`);
+  }
+  score ??= layout?.questions.length
+    ? fromMarksTable(layout.questions, outOfHint)
+    : {
+        ...fromText({ ...params, text: layout?.regionText || params.text, expectedOutOf: outOfHint }, layout),
+        questions: [],
+        warnings: []
+      };
+  return crossCheck({ ...score, warnings: [...warnings, ...score.warnings] }, layout?.questions ?? []);
+}
+
+// The value next to a printed total label: the most direct reading of a marks box.
+function fromMarksBox(total: LayoutReading, outOf: number | null): ExtractedScore | null {
+  if (outOf !== null && total.obtained > outOf) return null;
+  return {
+    obtained: total.obtained,
+    outOf,
+    confidence: scaleByOcr(0.9, total.ocrConfidence),
+    method: "marks_box",
+    candidates: [{ obtained: total.obtained, outOf, raw: total.raw, ocrConfidence: total.ocrConfidence }],
+    questions: [],
+    warnings: []
+  };
+}
+
+// No written total: add up the per-question marks.
+function fromMarksTable(questions: QuestionMarks[], outOfHint?: number): ExtractedScore {
+  const obtained = sumMarks(questions);
+  const outOf = outOfHint ?? null;
+  const raw = questions.map((q) => `Q${q.questionId}: ${q.marks}`).join(", ");
+  return {
+    obtained,
+    outOf,
+    confidence: 0.75,
+    method: "marks_table",
+    candidates: [{ obtained, outOf, raw }],
+    questions: [],
+    warnings: ["No written total found; the score is the sum of the question marks."]
+  };
+}
+
+// Question marks and the written total are both on the page: they should agree.
+function crossCheck(score: ExtractedScore, questions: QuestionMarks[]): ExtractedScore {
+  if (!questions.length) return score;
+  const sum = sumMarks(questions);
+  if (score.method === "marks_table" || score.obtained === null) return { ...score, questions };
+  if (Math.abs(sum - score.obtained) < 0.01) {
+    return { ...score, questions, confidence: Math.min(0.99, Math.round((score.confidence + 0.1) * 100) / 100) };
+  }
+  return {
+    ...score,
+    questions,
+    confidence: Math.min(score.confidence, 0.5),
+    warnings: [
+      ...score.warnings,
+      `Question marks add up to ${sum}, but the written total is ${score.obtained}. Check the marks box.`
+    ]
+  };
+}
+
+// Flattened text (embedded PDF text, pasted text, or the template region): fractions, labels, then any number.
+function fromText(
+  params: { text: string; expectedOutOf?: number; labelHint?: string; lines?: OcrLine[] },
+  layout: MarksLayout | null
+): Omit<ExtractedScore, "questions" | "warnings"> {
+  const text = normalize(params.text);
+  const lineTexts = (params.lines ?? []).map((l) => ({ text: normalize(l.text), confidence: l.confidence }));
+  const withOcr = (c: ExtractedScore["candidates"][number]) => {
+    const line = lineTexts.find((l) => l.text.includes(c.raw));
+    return line ? { ...c, ocrConfidence: line.confidence } : c;
+  };
+  const expectedOutOf = params.expectedOutOf;
   const labelHint = (params.labelHint || "marks").toLowerCase();
 
   const candidates: ExtractedScore["candidates"] = [];
@@ -24,7 +124,7 @@ export function extractScoreFromText(params: {
     if (!isFinite(obtained) || !isFinite(outOf)) continue;
     if (outOf <= 0) continue;
     if (obtained < 0 || obtained > outOf) continue;
-    candidates.push({ obtained, outOf, raw: m[0] });
+    candidates.push(withOcr({ obtained, outOf, raw: m[0] }));
   }
 
   // 2) "out of" phrasing like 23 out of 30
@@ -34,7 +134,7 @@ export function extractScoreFromText(params: {
     if (!isFinite(obtained) || !isFinite(outOf)) continue;
     if (outOf <= 0) continue;
     if (obtained < 0 || obtained > outOf) continue;
-    candidates.push({ obtained, outOf, raw: m[0] });
+    candidates.push(withOcr({ obtained, outOf, raw: m[0] }));
   }
 
   // Choose the best fraction/out-of candidate first.
@@ -44,7 +144,7 @@ export function extractScoreFromText(params: {
     return {
       obtained: bestPair.obtained,
       outOf: bestPair.outOf,
-      confidence: expectedOutOf && bestPair.outOf === expectedOutOf ? 0.95 : 0.85,
+      confidence: scaleByOcr(expectedOutOf && bestPair.outOf === expectedOutOf ? 0.95 : 0.85, bestPair.ocrConfidence),
       method,
       candidates
     };
@@ -65,8 +165,25 @@ export function extractScoreFromText(params: {
     }
   }
 
-  // 4) Fallback: pick any plausible 0-100 number (low confidence).
-  const nums = [...text.matchAll(/\b(\d{1,3})\b/g)].map((m) => Number(m[1])).filter((n) => n >= 0 && n <= 100);
+  // 4) A number written much larger than the printed text, usually the circled total.
+  if (layout?.prominent) {
+    const { obtained, outOf, raw, ocrConfidence } = layout.prominent;
+    candidates.push({ obtained, outOf: outOf ?? expectedOutOf ?? null, raw, ocrConfidence });
+    return {
+      obtained,
+      outOf: outOf ?? expectedOutOf ?? null,
+      confidence: scaleByOcr(0.5, ocrConfidence),
+      method: "circled",
+      candidates
+    };
+  }
+
+  // 5) Fallback: pick any plausible 0-100 number (low confidence), skipping roll numbers and dates.
+  const nums = text
+    .split("\n")
+    .filter((line) => !isIdentifierLine(line))
+    .flatMap((line) => [...line.matchAll(/\b(\d{1,3})\b/g)].map((m) => Number(m[1])))
+    .filter((n) => n >= 0 && n <= (expectedOutOf ?? 100));
   if (nums.length) {
     const obtained = nums[0];
     candidates.push({ obtained, outOf: expectedOutOf ?? null, raw: String(obtained) });
@@ -82,20 +199,34 @@ export function extractScoreFromText(params: {
   return { obtained: null, outOf: expectedOutOf ?? null, confidence: 0, method: "fallback", candidates };
 }
 
+function sumMarks(questions: QuestionMarks[]): number {
+  return Math.round(questions.reduce((acc, q) => acc + q.marks, 0) * 100) / 100;
+}
+
+// The table's maximum marks, when every question has one.
+function tableOutOf(questions: QuestionMarks[]): number | null {
+  if (!questions.length || questions.some((q) => q.outOf === null)) return null;
+  return sumMarks(questions.map((q) => ({ ...q, marks: q.outOf ?? 0 })));
+}
+
 function normalize(s: string): string {
   return s.toLowerCase().replace(/\r\n/g, "\n").replace(/[ \t]+/g, " ").trim();
 }
 
-function pickBestPair(
-  candidates: Array<{ obtained: number; outOf: number | null; raw: string }>,
-  expectedOutOf?: number
-) {
+// A clean parse of badly-read digits is still uncertain: blend in the OCR confidence of the source line.
+function scaleByOcr(confidence: number, ocrConfidence?: number): number {
+  if (ocrConfidence === undefined) return confidence;
+  return Math.round(confidence * (0.5 + 0.5 * ocrConfidence) * 100) / 100;
+}
+
+function pickBestPair(candidates: ExtractedScore["candidates"], expectedOutOf?: number) {
   if (!candidates.length) return null;
   const scored = candidates.map((c) => {
     let score = 0;
     if (c.outOf !== null) score += c.outOf; // prefer larger totals
     if (expectedOutOf !== undefined && c.outOf === expectedOutOf) score += 1000;
     if (c.raw.includes("/")) score += 5;
+    if (c.ocrConfidence !== undefined) score += c.ocrConfidence; // tie-break on legibility
     return { c, score };
   });
   scored.sort((a, b) => b.score - a.score);
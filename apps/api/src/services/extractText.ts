@@ -1,75 +1,251 @@
 import { fileTypeFromBuffer } from "file-type";
 import pdf from "pdf-parse";
 
-import { extractTextWithGoogleVision } from "./ocrGoogleVision.js";
-import { extractTextWithTesseract } from "./ocrTesseract.js";
+import { decodeToPngPages, needsDecoding } from "./imageDecode.js";
+import { preprocessImage, resolvePreprocessSteps, type AppliedStep, type PreprocessStep } from "./imagePreprocess.js";
+import type { OcrLine, OcrProfile, OcrProvider } from "./ocr.js";
+import { getConfiguredOcrProvider, listOcrProviders } from "./ocrProviders.js";
+import { rasterizePdfPages } from "./pdfRaster.js";
 
-type UploadedFile = { buffer: Buffer; mimetype: string; originalname: string };
+export type UploadedFile = { buffer: Buffer; mimetype: string; originalname: string };
 
-export type TextExtractionResult = { text: string; warnings: string[]; mime: string };
+// Preprocessing steps that actually changed an OCR'd page.
+export type PagePreprocessing = { page: number; applied: AppliedStep[] };
 
-export async function extractTextFromUpload(file: UploadedFile): Promise<TextExtractionResult> {
-  const ocrProvider = process.env.OCR_PROVIDER || "pdf_text";
+// `lines` carries OCR confidences and layout (empty for embedded PDF text and pasted text).
+export type TextExtractionResult = {
+  text: string;
+  warnings: string[];
+  mime: string;
+  lines: OcrLine[];
+  preprocessing: PagePreprocessing[];
+};
+
+export type PageSource = { page: number; filename: string };
+
+export type MultiPageExtractionResult = TextExtractionResult & { pages: PageSource[] };
+
+export type ExtractionOptions = {
+  // Tunes OCR for the content: "prose" answers (default), "math" working, or "score" marks boxes.
+  ocrProfile?: OcrProfile;
+  // Image cleanup before OCR; defaults to PREPROCESS_STEPS (or the built-in defaults).
+  preprocess?: PreprocessStep[];
+};
+
+// Separates pages when text from several page images is stitched together.
+export function pageMarker(page: number): string {
+  return `--- Page ${page} ---`;
+}
+
+export const PAGE_MARKER_LINE = /^--- Page (\d+) ---$/;
+
+// Orders page uploads: explicitly listed pages first (by filename or upload index), the rest by filename.
+export function orderPages<T extends { originalname: string }>(files: T[], order?: Array<string | number>): T[] {
+  const remaining = [...files];
+  const ordered: T[] = [];
+  for (const key of order ?? []) {
+    const idx =
+      typeof key === "number" ? remaining.indexOf(files[key]) : remaining.findIndex((f) => f.originalname === key);
+    if (idx >= 0) ordered.push(...remaining.splice(idx, 1));
+  }
+  remaining.sort((a, b) => a.originalname.localeCompare(b.originalname, undefined, { numeric: true }));
+  return [...ordered, ...remaining];
+}
+
+// OCRs several uploads (e.g. photos of one answer sheet) in page order and stitches them with page markers.
+export async function extractTextFromUploads(
+  files: UploadedFile[],
+  options: ExtractionOptions & { pageOrder?: Array<string | number> } = {}
+): Promise<MultiPageExtractionResult> {
+  const ordered = orderPages(files, options.pageOrder);
+  const warnings: string[] = [];
+  const mimes = new Set<string>();
+  const pages: PageSource[] = [];
+  const pageTexts: string[] = [];
+  const lines: OcrLine[] = [];
+  const preprocessing: PagePreprocessing[] = [];
+
+  for (const file of ordered) {
+    const extracted = await extractTextFromUpload(file, options);
+    mimes.add(extracted.mime);
+    warnings.push(...extracted.warnings.map((w) => (ordered.length > 1 ? `${file.originalname}: ${w}` : w)));
+
+    // Multi-page PDFs already carry their own markers; renumber them into the combined sequence.
+    const firstPage = pages.length + 1;
+    lines.push(...extracted.lines.map((l) => ({ ...l, page: firstPage + (l.page ?? 1) - 1 })));
+    preprocessing.push(...extracted.preprocessing.map((p) => ({ ...p, page: firstPage + p.page - 1 })));
+    for (const segment of splitPages(extracted.text)) {
+      pages.push({ page: pages.length + 1, filename: file.originalname });
+      pageTexts.push(segment);
+    }
+  }
+
+  const text =
+    pageTexts.length > 1
+      ? pageTexts.map((t, i) => `${pageMarker(i + 1)}\n${t}`).join("\n\n")
+      : (pageTexts[0] ?? "");
+  return { text: pageTexts.some((t) => t) ? text : "", warnings, mime: [...mimes].join(","), lines, preprocessing, pages };
+}
+
+function splitPages(text: string): string[] {
+  const segments: string[] = [];
+  let current: string[] | null = null;
+  for (const line of text.split("\n")) {
+    if (PAGE_MARKER_LINE.test(line.trim())) {
+      if (current) segments.push(current.join("\n").trim());
+      current = [];
+    } else {
+      (current ??= []).push(line);
+    }
+  }
+  if (current) segments.push(current.join("\n").trim());
+  return segments.length ? segments : [text];
+}
+
+export async function extractTextFromUpload(
+  file: UploadedFile,
+  options: ExtractionOptions = {}
+): Promise<TextExtractionResult> {
+  const provider = getConfiguredOcrProvider();
+  const ocr: OcrSettings = {
+    provider,
+    profile: options.ocrProfile ?? "prose",
+    preprocess: options.preprocess ?? resolvePreprocessSteps()
+  };
   const detected = await fileTypeFromBuffer(file.buffer).catch(() => null);
   const mime = detected?.mime || file.mimetype || "application/octet-stream";
 
   if (mime === "application/pdf") {
-    // Best-effort: if PDF contains text, parse it. (Handwritten PDFs will need OCR.)
+    // Best-effort: if PDF contains text, parse it. Otherwise render pages and OCR them.
+    let parseWarning: string | null = null;
     try {
       const parsed = await pdf(file.buffer);
-      if (parsed.text && parsed.text.trim()) return { text: normalizeText(parsed.text), warnings: [], mime };
+      if (parsed.text && parsed.text.trim()) {
+        return { text: normalizeText(parsed.text), warnings: [], mime, lines: [], preprocessing: [] };
+      }
     } catch (err: any) {
       const msg = String(err?.message || "");
       const details = String(err?.details || "");
       const isBadXref = /xref/i.test(msg) || /xref/i.test(details) || /bad xref entry/i.test(msg);
-      const warning = isBadXref
+      parseWarning = isBadXref
         ? "PDF parsing failed (bad XRef entry). The PDF is likely corrupted or non-standard. Re-save/print-to-PDF and retry, or upload images."
         : `PDF parsing failed. ${msg || details || "Unknown PDF error"}`;
-      return { text: "", warnings: [warning], mime };
     }
 
-    // No embedded text. OCR of PDFs requires converting pages to images or using Google Vision async batch with GCS.
-    const warnings: string[] = [];
-    warnings.push("PDF has no extractable text. If this is a scanned/handwritten PDF, upload page images or paste text.");
-    if (ocrProvider === "google_vision") {
-      warnings.push("Google Vision OCR for PDFs is not enabled in this MVP (needs GCS async batch). Use images or paste text.");
-    }
-    if (ocrProvider === "tesseract") {
-      warnings.push("Tesseract OCR for PDFs is not enabled in this MVP (needs PDF->image conversion). Use images or paste text.");
+    if (!provider) {
+      const warnings = parseWarning
+        ? [parseWarning]
+        : ["PDF has no extractable text. If this is a scanned/handwritten PDF, upload page images or paste text."];
+      warnings.push(`Set OCR_PROVIDER (${listOcrProviders().join(", ")}) to OCR scanned PDFs page by page.`);
+      return { text: "", warnings, mime, lines: [], preprocessing: [] };
     }
-    return { text: "", warnings, mime };
+
+    // No embedded text (scanned/handwritten): rasterize locally and OCR page by page.
+    const result = await extractTextFromPdfPages(file.buffer, { ...ocr, provider });
+    if (parseWarning && result.text) result.warnings.unshift("PDF text layer could not be parsed; used page OCR instead.");
+    if (parseWarning && !result.text) result.warnings.unshift(parseWarning);
+    return { ...result, mime };
   }
 
   // Images: use OCR provider.
   const warnings: string[] = [];
 
   if (mime === "application/octet-stream") {
-    warnings.push("Unknown file type. If this is an iPhone HEIC photo, convert to JPG/PNG and retry.");
-  }
-  if (mime === "image/heic" || mime === "image/heif") {
-    warnings.push("HEIC/HEIF images are not supported by this OCR pipeline. Convert to JPG/PNG and retry.");
-    return { text: "", warnings, mime };
+    warnings.push("Unknown file type. Upload a PDF or an image (JPG, PNG, HEIC, WebP or TIFF).");
   }
 
-  if (ocrProvider === "google_vision") {
-    const text = normalizeText(await extractTextWithGoogleVision(file.buffer));
-    if (!text) warnings.push("OCR produced empty text. For handwriting, ensure the photo is sharp and well-lit.");
-    return { text, warnings, mime };
-  }
-  if (ocrProvider === "tesseract") {
-    const text = normalizeText(await extractTextWithTesseract(file.buffer));
-    if (!text) {
-      warnings.push(
-        "Tesseract returned empty text. This often happens with handwriting, low contrast, or rotated images. " +
-          "Try a clearer photo or use OCR_PROVIDER=google_vision for handwriting."
-      );
+  if (provider) {
+    let image = file.buffer;
+    // HEIC/HEIF (iPhone), WebP and TIFF are converted to PNG; multi-page TIFFs are OCR'd page by page.
+    if (needsDecoding(mime)) {
+      let decoded: Awaited<ReturnType<typeof decodeToPngPages>>;
+      try {
+        decoded = await decodeToPngPages(file.buffer, mime);
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        warnings.push(`Could not decode ${mime} image (${msg}). Convert to JPG/PNG and retry.`);
+        return { text: "", warnings, mime, lines: [], preprocessing: [] };
+      }
+      if (decoded.totalPages > 1) {
+        const result = await ocrPageImages(decoded.pages, decoded.totalPages, { ...ocr, provider });
+        return { ...result, warnings: [...warnings, ...result.warnings], mime };
+      }
+      image = decoded.pages[0];
     }
-    return { text, warnings, mime };
+
+    const result = await ocrImage(image, { ...ocr, provider }, file.buffer);
+    return {
+      text: result.text,
+      warnings: [...warnings, ...result.warnings],
+      mime,
+      lines: result.lines,
+      preprocessing: result.applied.length ? [{ page: 1, applied: result.applied }] : []
+    };
   }
 
   // MVP fallback: no OCR configured.
-  warnings.push("No OCR provider configured for images. Set OCR_PROVIDER=tesseract or OCR_PROVIDER=google_vision.");
-  return { text: "", warnings, mime };
+  warnings.push(`No OCR provider configured for images. Set OCR_PROVIDER to one of: ${listOcrProviders().join(", ")}.`);
+  return { text: "", warnings, mime, lines: [], preprocessing: [] };
+}
+
+type OcrSettings = { provider: OcrProvider | null; profile: OcrProfile; preprocess: PreprocessStep[] };
+
+async function extractTextFromPdfPages(
+  pdfBytes: Buffer,
+  settings: OcrSettings & { provider: OcrProvider }
+): Promise<{ text: string; warnings: string[]; lines: OcrLine[]; preprocessing: PagePreprocessing[] }> {
+  let raster: Awaited<ReturnType<typeof rasterizePdfPages>>;
+  try {
+    raster = await rasterizePdfPages(pdfBytes);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { text: "", warnings: [`Could not render PDF pages for OCR. ${msg}`], lines: [], preprocessing: [] };
+  }
+
+  return ocrPageImages(raster.pages, raster.totalPages, settings);
+}
+
+// OCRs each page image and stitches the text with page markers.
+async function ocrPageImages(
+  images: Buffer[],
+  totalPages: number,
+  settings: OcrSettings & { provider: OcrProvider }
+): Promise<{ text: string; warnings: string[]; lines: OcrLine[]; preprocessing: PagePreprocessing[] }> {
+  const warnings: string[] = [];
+  if (totalPages > images.length) {
+    warnings.push(`Only the first ${images.length} of ${totalPages} pages were OCR'd (PDF_OCR_MAX_PAGES).`);
+  }
+
+  const pageTexts: string[] = [];
+  const lines: OcrLine[] = [];
+  const preprocessing: PagePreprocessing[] = [];
+  let hasText = false;
+  for (let i = 0; i < images.length; i++) {
+    const page = i + 1;
+    const ocr = await ocrImage(images[i], settings);
+    warnings.push(...ocr.warnings.map((w) => `Page ${page}: ${w}`));
+    lines.push(...ocr.lines.map((l) => ({ ...l, page })));
+    if (ocr.applied.length) preprocessing.push({ page, applied: ocr.applied });
+    // Keep a marker for blank pages too so page numbers stay aligned with the original.
+    pageTexts.push(`${pageMarker(page)}\n${ocr.text}`);
+    if (ocr.text) hasText = true;
+  }
+
+  if (!hasText) warnings.unshift("OCR produced no text on any page.");
+  return { text: hasText ? pageTexts.join("\n\n") : "", warnings, lines: hasText ? lines : [], preprocessing };
+}
+
+async function ocrImage(
+  imageBytes: Buffer,
+  settings: OcrSettings & { provider: OcrProvider },
+  source = imageBytes
+): Promise<{ text: string; warnings: string[]; lines: OcrLine[]; applied: AppliedStep[] }> {
+  const { provider } = settings;
+  const prepared = await preprocessImage(imageBytes, settings.preprocess);
+  const result = await provider.recognize(prepared.image, { profile: settings.profile, source });
+  const text = normalizeText(result.text);
+  const warnings = text ? [] : [provider.emptyTextHint || "OCR produced empty text."];
+  return { text, warnings, lines: result.lines, applied: prepared.applied };
 }
 
 function normalizeText(text: string): string {
@@ -1,206 +1,112 @@
-import OpenAI from "openai";
-import { z } from "zod";
-
-import type { QaPair } from "./extractQaPairs.js";
-import { EvaluationSchema, type Evaluation } from "./gradingSchema.js";
+import { buildGradingQuestions, choiceGroupsFromKey, matchStudentAnswers } from "./answerKey.js";
+import { applyChoiceGroups } from "./gradingChoices.js";
+import { combineSamples, samplingPlan, type GradingSample } from "./gradingConsistency.js";
 import { gradeSubmissionHeuristic } from "./gradingHeuristic.js";
+import { gradeMathsQuestion, isMathsQuestion, isMathsSubject } from "./gradingMaths.js";
+import { gradeMcqQuestion, mergeMcqResults } from "./gradingMcq.js";
+import { buildGradingMessages, normalizeEvaluation, type GradeParams } from "./gradingPrompt.js";
+import { EvaluationSchema, LenientEvaluationSchema, type Evaluation } from "./gradingSchema.js";
+import { gradeSubmissionSemantic } from "./gradingSemantic.js";
+import { generateJson, LlmError, resolveLlmTarget } from "./llm.js";
+
+export async function gradeSubmission(params: GradeParams): Promise<Evaluation> {
+  const evaluation = await gradeAllQuestions(params);
+  const groups = [...(params.choiceGroups ?? []), ...choiceGroupsFromKey(params.answerKey)];
+  return groups.length ? applyChoiceGroups(evaluation, groups) : evaluation;
+}
+
+async function gradeAllQuestions(params: GradeParams): Promise<Evaluation> {
+  // MCQs and maths answers are graded deterministically against the key; only the rest go to the provider.
+  const mathsSubject = isMathsSubject(params.subject);
+  const checked = buildGradingQuestions(params).flatMap((q) =>
+    q.mcq ? [gradeMcqQuestion(q)] : isMathsQuestion(q, mathsSubject) ? [gradeMathsQuestion(q)] : []
+  );
+  if (!checked.length) return gradeWithProvider(params);
+
+  const checkedIds = new Set(checked.map((q) => q.questionId));
+  // Student answers go where buildGradingQuestions put them: "3(a)" and "3(i)" written for a checked "3" are done.
+  const { targets } = matchStudentAnswers(params);
+  const rest: GradeParams = {
+    ...params,
+    modelQa: params.modelQa.filter((q) => !checkedIds.has(q.questionId)),
+    studentQa: params.studentQa.filter((q) => (targets.get(q.questionId) ?? []).some((id) => !checkedIds.has(id))),
+    answerKey: params.answerKey?.filter((q) => !checkedIds.has(q.questionId))
+  };
+  // With a key, only its questions are graded: nothing is left once they have all been checked.
+  const hasRest = rest.answerKey
+    ? rest.answerKey.length > 0
+    : rest.modelQa.length > 0 || rest.studentQa.length > 0;
 
-export async function gradeSubmission(params: {
-  modelQa: QaPair[];
-  studentQa: QaPair[];
-  maxMarksPerQuestion: number;
-  strictness: "lenient" | "balanced" | "strict";
-  subject?: string;
-}): Promise<Evaluation> {
+  const evaluation = hasRest ? await gradeWithProvider(rest) : null;
+  return mergeMcqResults(evaluation, checked);
+}
+
+async function gradeWithProvider(params: GradeParams): Promise<Evaluation> {
   const provider = (process.env.GRADER_PROVIDER || "openai").toLowerCase();
   if (provider === "heuristic") {
     return gradeSubmissionHeuristic({
       modelQa: params.modelQa,
       studentQa: params.studentQa,
-      maxMarksPerQuestion: params.maxMarksPerQuestion
+      maxMarksPerQuestion: params.maxMarksPerQuestion,
+      answerKey: params.answerKey
+    });
+  }
+  if (provider === "semantic") {
+    return gradeSubmissionSemantic({
+      modelQa: params.modelQa,
+      studentQa: params.studentQa,
+      maxMarksPerQuestion: params.maxMarksPerQuestion,
+      answerKey: params.answerKey
     });
   }
 
   try {
-    return await gradeSubmissionWithOpenAI(params);
-  } catch (err: any) {
-    const status = Number(err?.status || err?.response?.status || 0);
-    const code = String(err?.code || err?.error?.code || "");
-    const type = String(err?.type || err?.error?.type || "");
-    if (status === 429 && (code === "insufficient_quota" || type === "insufficient_quota")) {
+    return await gradeSubmissionWithLlm(params);
+  } catch (err) {
+    const quotaExhausted = err instanceof LlmError && [err.code, err.type].includes("insufficient_quota");
+    if (quotaExhausted) {
       // Auto-fallback to keep the MVP usable even without billing.
       return gradeSubmissionHeuristic({
         modelQa: params.modelQa,
         studentQa: params.studentQa,
-        maxMarksPerQuestion: params.maxMarksPerQuestion
+        maxMarksPerQuestion: params.maxMarksPerQuestion,
+        answerKey: params.answerKey
       });
     }
     throw err;
   }
 }
 
-async function gradeSubmissionWithOpenAI(params: {
-  modelQa: QaPair[];
-  studentQa: QaPair[];
-  maxMarksPerQuestion: number;
-  strictness: "lenient" | "balanced" | "strict";
-  subject?: string;
-}): Promise<Evaluation> {
-  const apiKey = process.env.OpenAI_API_KEY;
-  if (!apiKey) throw new Error("OPENAI_API_KEY is required");
-
-  const modelPrimary = process.env.OPENAI_MODEL_PRIMARY || "gpt-4.1";
-  const modelFallback = process.env.OPENAI_MODEL_FALLBACK || "gpt-4.1-mini";
-  const client = new OpenAI({ apiKey });
-
-  const modelById = new Map(params.modelQa.map((q) => [q.questionId, q.text]));
-  const studentById = new Map(params.studentQa.map((q) => [q.questionId, q.text]));
-
-  const questionIds = [...new Set([...modelById.keys(), ...studentById.keys()])].sort(
-    (a, b) => Number(a) - Number(b)
-  );
-
-  const questions = questionIds.map((id) => ({
-    questionId: id,
-    maxMarks: params.maxMarksPerQuestion,
-    modelAnswer: modelById.get(id) ?? "",
-    studentAnswer: studentById.get(id) ?? ""
-  }));
-
-  const strictnessHint =
-    params.strictness === "strict"
-      ? "Be fair but strict. Do not reward vague answers."
-      : params.strictness === "balanced"
-        ? "Be fair and consistent. Reward partial credit when clearly earned."
-        : "Be lenient but still accurate. Reward partial credit generously when plausible.";
-
-  const subjectHint = params.subject ? `Subject: ${params.subject}\n` : "";
-
-  const input = [
-    {
-      role: "system" as const,
-      content:
-        "You are an exam evaluator. Grade strictly to the rubric.\n" +
-        "Output must be valid JSON matching the provided schema.\n" +
-        "Never include markdown, code fences, or extra keys.\n"
-    },
-    {
-      role: "user" as const,
-      content:
-        subjectHint +
-        strictnessHint +
-        "\n\n" +
-        "For each question, compare the student's answer with the model answer.\n" +
-        "Give marks out of maxMarks. Explain deductions clearly.\n" +
-        "Return weak areas based on patterns of mistakes.\n\n" +
-        JSON.stringify({ questions }, null, 2)
-    }
-  ];
-
-  const request = {
-    input,
-    text: {
-      // Structured output: keep it strict so parsing is reliable.
-      format: {
-        type: "json_schema" as const,
-        name: "evaluation",
-        strict: true,
-        schema: zodToJsonSchema(EvaluationSchema)
-      }
-    },
-    temperature: 0.2
-  };
-
-  const response = await (async () => {
-    try {
-      return await client.responses.create({ model: modelPrimary, ...request });
-    } catch (err: any) {
-      const msg = String(err?.message || "");
-      const status = Number(err?.status || err?.response?.status || 0);
-      const shouldFallback =
-        status === 400 ||
-        status === 404 ||
-        /model/i.test(msg) ||
-        /not found/i.test(msg) ||
-        /does not exist/i.test(msg);
-      if (!shouldFallback || modelFallback === modelPrimary) throw err;
-      return await client.responses.create({ model: modelFallback, ...request });
-    }
-  })();
-
-  const text = response.output_text;
-  const parsed = safeJsonParse(text);
-  const validated = EvaluationSchema.safeParse(parsed);
-  if (!validated.success) {
-    throw new Error(`OpenAI response did not match schema: ${validated.error.message}`);
-  }
-
-  // Ensure totals are consistent even if the model makes minor arithmetic errors.
-  const maxTotal = validated.data.questions.reduce((acc, q) => acc + q.maxMarks, 0);
-  const total = validated.data.questions.reduce((acc, q) => acc + q.marksAwarded, 0);
-  return {
-    ...validated.data,
-    totalMarks: clamp(total, 0, maxTotal),
-    maxTotalMarks: maxTotal,
-    confidence: clamp(validated.data.confidence, 0, 1)
-  };
-}
-
-function clamp(n: number, min: number, max: number) {
-  return Math.min(max, Math.max(min, n));
-}
-
-function safeJsonParse(s: string): unknown {
-  try {
-    return JSON.parse(s);
-  } catch {
-    throw new Error("Failed to parse OpenAI JSON output");
-  }
-}
-
-// Minimal Zod -> JSON Schema for this MVP (enough for the fixed schemas below).
-function zodToJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
-  // Instead of bringing in a dependency, build a schema based on the known shape.
-  // If you expand the schema significantly, consider adding zod-to-json-schema.
-  const inferred = schema._def;
-  if (inferred.typeName !== z.ZodFirstPartyTypeKind.ZodObject) {
-    throw new Error("zodToJsonSchema: only supports ZodObject at the root for this MVP");
-  }
-  const shape = (schema as z.ZodObject<any>).shape;
-  const properties: Record<string, unknown> = {};
-  const required: string[] = [];
-  for (const [key, value] of Object.entries(shape)) {
-    properties[key] = zodFieldToSchema(value as z.ZodTypeAny);
-    required.push(key);
-  }
-  return {
-    type: "object",
-    additionalProperties: false,
-    properties,
-    required
+// Samples of one model need some randomness to disagree at all.
+const SAMPLE_TEMPERATURE = 0.7;
+
+async function gradeSubmissionWithLlm(params: GradeParams): Promise<Evaluation> {
+  const { messages, questions } = buildGradingMessages(params);
+  const target = resolveLlmTarget("grading");
+  const grade = async (models: string[], temperature: number): Promise<GradingSample> => {
+    const { data, usage } = await generateJson({
+      purpose: "grading",
+      target: { ...target, models },
+      schema: EvaluationSchema,
+      repairSchema: LenientEvaluationSchema,
+      schemaName: "evaluation",
+      messages,
+      temperature
+    });
+    return { model: usage.model, evaluation: normalizeEvaluation(data, questions) };
   };
-}
 
-function zodFieldToSchema(field: z.ZodTypeAny): Record<string, unknown> {
-  if (field instanceof z.ZodString) return { type: "string" };
-  if (field instanceof z.ZodNumber) return { type: "number" };
-  if (field instanceof z.ZodArray) return { type: "array", items: zodFieldToSchema(field.element) };
-  if (field instanceof z.ZodEnum) return { type: "string", enum: field.options };
-  if (field instanceof z.ZodObject) {
-    const shape = field.shape;
-    const properties: Record<string, unknown> = {};
-    const required: string[] = [];
-    for (const [k, v] of Object.entries(shape)) {
-      properties[k] = zodFieldToSchema(v as z.ZodTypeAny);
-      required.push(k);
-    }
-    return { type: "object", additionalProperties: false, properties, required };
-  }
-  if (field instanceof z.ZodOptional) return zodFieldToSchema(field.unwrap());
-  if (field instanceof z.ZodDefault) return zodFieldToSchema(field._def.innerType);
-  if (field instanceof z.ZodUnion) {
-    return { anyOf: field.options.map((opt: z.ZodTypeAny) => zodFieldToSchema(opt)) };
+  const plan = samplingPlan(params.samples);
+  if (plan.count <= 1) return (await grade(target.models, 0.2)).evaluation;
+  const settled = await Promise.allSettled(
+    Array.from({ length: plan.count }, (_, i) =>
+      plan.models.length ? grade([plan.models[i % plan.models.length]], 0.2) : grade(target.models, SAMPLE_TEMPERATURE)
+    )
+  );
+  const samples = settled.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+  if (samples.length < plan.minSuccessful) {
+    // The sample's own error, so quota and provider errors are reported (and fall back) as for a single grading.
+    throw settled.find((r): r is PromiseRejectedResult => r.status === "rejected")?.reason;
   }
-  // Fallback: treat as string to avoid hard failure.
-  return { type: "string" };
+  return combineSamples(samples, plan.threshold, plan.count - samples.length);
 }
@@ -0,0 +1,46 @@
+import type { ChoiceGroup } from "./extractQaPairs.js";
+import type { Evaluation } from "./gradingSchema.js";
+import { isDescendantId } from "./questionIds.js";
+
+// OR-choices and "attempt any N": only the best-scoring `pick` alternatives count; the rest leave the totals.
+export function applyChoiceGroups(evaluation: Evaluation, groups: ChoiceGroup[]): Evaluation {
+  let questions = evaluation.questions;
+  const notes: string[] = [];
+
+  for (const group of groups) {
+    const alternatives = group.questionIds
+      .map((id) => {
+        const results = questions.filter((q) => q.questionId === id || isDescendantId(q.questionId, id));
+        return {
+          id,
+          results,
+          marks: results.reduce((acc, q) => acc + q.marksAwarded, 0),
+          max: results.reduce((acc, q) => acc + q.maxMarks, 0)
+        };
+      })
+      .filter((a) => a.results.length);
+    if (alternatives.length <= group.pick) continue;
+
+    // Highest marks first; on a tie, the better percentage, then the earlier question.
+    const ranked = [...alternatives].sort(
+      (a, b) => b.marks - a.marks || b.marks / (b.max || 1) - a.marks / (a.max || 1)
+    );
+    const kept = ranked.slice(0, group.pick);
+    const dropped = new Set(ranked.slice(group.pick).flatMap((a) => a.results.map((q) => q.questionId)));
+    questions = questions.filter((q) => !dropped.has(q.questionId));
+    notes.push(
+      `Counted the best ${group.pick} of ${alternatives.map((a) => `Q${a.id}`).join(" / ")}: ` +
+        kept.map((a) => `Q${a.id}`).join(", ") +
+        "."
+    );
+  }
+  if (!notes.length) return evaluation;
+
+  return {
+    ...evaluation,
+    totalMarks: questions.reduce((acc, q) => acc + q.marksAwarded, 0),
+    maxTotalMarks: questions.reduce((acc, q) => acc + q.maxMarks, 0),
+    overallFeedback: [evaluation.overallFeedback, ...notes].filter(Boolean).join(" "),
+    questions
+  };
+}
@@ -0,0 +1,142 @@
+import type { Evaluation, QuestionResult } from "./gradingSchema.js";
+
+// Self-consistency grading: the same submission graded several times (or by several models) and combined per
+// question, so confidence comes from how much the graders agree rather than from what the model says about itself.
+
+export type GradingSample = { model: string; evaluation: Evaluation };
+
+export type SamplingPlan = {
+  // Gradings per submission; 1 turns sampling off.
+  count: number;
+  // Models to alternate between; empty: every sample uses the grading provider's usual model chain.
+  models: string[];
+  // Samples further apart than this share of the question's marks flag it for review.
+  threshold: number;
+  // Samples that must succeed; fewer fails the grading with the first sample's error.
+  minSuccessful: number;
+};
+
+const MAX_SAMPLES = 7;
+
+// GRADER_SAMPLES and GRADER_SAMPLE_MODELS set the default; a request can ask for its own sample count.
+// GRADER_MIN_SAMPLES (default: a majority) is how many of them must succeed.
+export function samplingPlan(requested?: number): SamplingPlan {
+  const models = (process.env.GRADER_SAMPLE_MODELS ?? "")
+    .split(",")
+    .map((m) => m.trim())
+    .filter(Boolean);
+  const wanted = requested ?? (Number(process.env.GRADER_SAMPLES) || models.length || 1);
+  const count = Math.min(MAX_SAMPLES, Math.max(1, Math.round(wanted)));
+  const threshold = Number(process.env.GRADER_DISAGREEMENT);
+  const minSuccessful = Math.round(Number(process.env.GRADER_MIN_SAMPLES) || Math.ceil(count / 2));
+  return {
+    count,
+    models,
+    threshold: Number.isFinite(threshold) && threshold >= 0 ? threshold : 0.25,
+    minSuccessful: Math.min(count, Math.max(1, minSuccessful))
+  };
+}
+
+// Median marks per question. Feedback and deductions come from the sample closest to the median, the overall
+// feedback from the sample whose total is closest to the median total. `failed` counts samples that errored.
+export function combineSamples(samples: GradingSample[], threshold: number, failed = 0): Evaluation {
+  if (!samples.length) throw new Error("combineSamples: no samples");
+  const medianTotal = median(samples.map((s) => s.evaluation.totalMarks));
+  const base = closest(samples, medianTotal, (s) => s.evaluation.totalMarks);
+
+  const ids = [...new Set(samples.flatMap((s) => s.evaluation.questions.map((q) => q.questionId)))];
+  const questions = ids.map((id): QuestionResult => {
+    const results = samples.flatMap((s) => {
+      const q = s.evaluation.questions.find((result) => result.questionId === id);
+      return q ? [{ model: s.model, q }] : [];
+    });
+    // A sample that skipped the question says nothing about its marks.
+    const graded = results.filter((g) => !g.q.ungraded);
+    if (!graded.length) return results[0].q;
+    const marks = graded.map((g) => g.q.marksAwarded);
+    const marksAwarded = round(median(marks));
+    const { q } = closest(graded, marksAwarded, (g) => g.q.marksAwarded);
+    const spread = round(Math.max(...marks) - Math.min(...marks));
+    // A standard deviation of half the question's marks is no better than guessing.
+    const confidence = q.maxMarks > 0 ? clamp(1 - (2 * standardDeviation(marks)) / q.maxMarks, 0, 1) : 1;
+    return {
+      ...q,
+      ...atMedian(q, marksAwarded, graded.map((g) => g.q)),
+      marksAwarded,
+      confidence: round(confidence),
+      consistency: {
+        samples: graded.map((g) => ({ model: g.model, marksAwarded: g.q.marksAwarded })),
+        spread,
+        disagreement: spread > threshold * q.maxMarks,
+        failed
+      }
+    };
+  });
+
+  return {
+    ...base.evaluation,
+    questions,
+    totalMarks: round(questions.reduce((acc, q) => acc + q.marksAwarded, 0)),
+    maxTotalMarks: questions.reduce((acc, q) => acc + q.maxMarks, 0),
+    confidence: questions.length
+      ? round(questions.reduce((acc, q) => acc + (q.confidence ?? 0), 0) / questions.length)
+      : base.evaluation.confidence
+  };
+}
+
+// An even number of samples can put the median between them (2 and 3 -> 2.5). The nearest sample's deductions are
+// then rescaled to what the median takes off, and the rubric points are those at least half the samples awarded.
+function atMedian(
+  nearest: QuestionResult,
+  marksAwarded: number,
+  graded: QuestionResult[]
+): Pick<QuestionResult, "feedback" | "deductions" | "awardedRubricPoints"> {
+  if (nearest.marksAwarded === marksAwarded) return nearest;
+
+  const lost = round(Math.max(0, nearest.maxMarks - marksAwarded));
+  const listed = nearest.deductions.reduce((acc, d) => acc + d.marks, 0);
+  let deductions: QuestionResult["deductions"] = [];
+  if (lost > 0 && listed > 0) {
+    deductions = nearest.deductions.map((d) => ({ ...d, marks: round((d.marks * lost) / listed) }));
+    // Rounding leftovers go on the largest deduction, so the list still adds up to what was lost.
+    const largest = deductions.reduce((best, d) => (d.marks > best.marks ? d : best));
+    largest.marks = round(largest.marks + lost - deductions.reduce((acc, d) => acc + d.marks, 0));
+  } else if (lost > 0) {
+    deductions = [{ reason: "Marks withheld by some of the gradings", marks: lost }];
+  }
+
+  const counts = new Map<string, number>();
+  for (const q of graded) for (const id of new Set(q.awardedRubricPoints)) counts.set(id, (counts.get(id) ?? 0) + 1);
+  const marks = graded.map((q) => q.marksAwarded).join(", ");
+  return {
+    feedback: `${nearest.feedback} (Marks are the median of ${graded.length} gradings: ${marks}.)`.trim(),
+    deductions,
+    awardedRubricPoints: [...counts].filter(([, n]) => n * 2 >= graded.length).map(([id]) => id)
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+}
+
+// First item whose value is nearest to `target`.
+function closest<T>(items: T[], target: number, value: (item: T) => number): T {
+  return items.reduce((best, item) =>
+    Math.abs(value(item) - target) < Math.abs(value(best) - target) ? item : best
+  );
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, n));
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
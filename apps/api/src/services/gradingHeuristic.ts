@@ -1,7 +1,8 @@
+import { buildGradingQuestions, type AnswerKey, type GradingQuestion } from "./answerKey.js";
 import type { QaPair } from "./extractQaPairs.js";
-import type { Evaluation } from "./gradingSchema.js";
+import type { Evaluation, QuestionResult } from "./gradingSchema.js";
 
-const STOP_WORDS = new Set([
+export const STOP_WORDS = new Set([
   "a","an","the","and","or","but","if","then","else","when","while","of","to","in","on","at","by","for","from","with",
   "is","are","was","were","be","been","being","as","it","this","that","these","those","we","you","they","i","he","she",
   "not","no","yes","do","does","did","done","can","could","should","would","may","might","must","will","shall",
@@ -12,18 +13,12 @@ export function gradeSubmissionHeuristic(params: {
   modelQa: QaPair[];
   studentQa: QaPair[];
   maxMarksPerQuestion: number;
+  answerKey?: AnswerKey;
 }): Evaluation {
-  const modelById = new Map(params.modelQa.map((q) => [q.questionId, q.text]));
-  const studentById = new Map(params.studentQa.map((q) => [q.questionId, q.text]));
+  const gradingQuestions = buildGradingQuestions(params);
 
-  const questionIds = [...new Set([...modelById.keys(), ...studentById.keys()])].sort(
-    (a, b) => Number(a) - Number(b)
-  );
-
-  const questions = questionIds.map((id) => {
-    const modelAnswer = (modelById.get(id) ?? "").trim();
-    const studentAnswer = (studentById.get(id) ?? "").trim();
-    const maxMarks = params.maxMarksPerQuestion;
+  const questions = gradingQuestions.map((gq): QuestionResult => {
+    const { questionId: id, modelAnswer, studentAnswer, maxMarks } = gq;
 
     if (!studentAnswer) {
       return {
@@ -32,10 +27,13 @@ export function gradeSubmissionHeuristic(params: {
         maxMarks,
         feedback: "No answer detected for this question.",
         deductions: [{ reason: "Blank or unreadable answer", marks: maxMarks }],
-        weakAreas: modelAnswer ? extractKeyPhrases(modelAnswer, 6) : []
+        weakAreas: modelAnswer ? extractKeyPhrases(modelAnswer, 6) : [],
+        awardedRubricPoints: []
       };
     }
 
+    if (gq.rubric.length) return gradeAgainstRubric(gq);
+
     if (!modelAnswer) {
       // If the model key is missing for this qid, we can't compare; give 0 with explanation.
       return {
@@ -44,7 +42,8 @@ export function gradeSubmissionHeuristic(params: {
         maxMarks,
         feedback: "Model answer for this question was not detected; cannot grade reliably.",
         deductions: [{ reason: "Missing model answer", marks: maxMarks }],
-        weakAreas: []
+        weakAreas: [],
+        awardedRubricPoints: []
       };
     }
 
@@ -76,7 +75,8 @@ export function gradeSubmissionHeuristic(params: {
       maxMarks,
       feedback,
       deductions,
-      weakAreas: missing
+      weakAreas: missing,
+      awardedRubricPoints: []
     };
   });
 
@@ -96,6 +96,45 @@ export function gradeSubmissionHeuristic(params: {
   };
 }
 
+// Share of a rubric point's keywords that must appear in the student answer for the point to be awarded.
+const RUBRIC_POINT_COVERAGE = 0.6;
+
+function gradeAgainstRubric(gq: GradingQuestion): QuestionResult {
+  const studentSet = new Set(tokenize(gq.studentAnswer));
+
+  const awarded: GradingQuestion["rubric"] = [];
+  const missed: GradingQuestion["rubric"] = [];
+  for (const point of gq.rubric) {
+    const pointTokens = [...new Set(tokenize(point.description))];
+    const covered = pointTokens.filter((t) => studentSet.has(t)).length;
+    const coverage = pointTokens.length ? covered / pointTokens.length : 0;
+    (coverage >= RUBRIC_POINT_COVERAGE ? awarded : missed).push(point);
+  }
+
+  const raw = awarded.reduce((acc, p) => acc + p.marks, 0);
+  const marksAwarded = clamp(Math.round(raw * 2) / 2, 0, gq.maxMarks);
+
+  const deductions = missed.map((p) => ({ reason: `Missing rubric point: ${p.description}`, marks: p.marks }));
+  const weakAreas = missingKeywords(missed.map((p) => p.description).join(" "), gq.studentAnswer, 6);
+
+  const feedback =
+    missed.length === 0
+      ? "Covers every rubric point."
+      : awarded.length === 0
+        ? "None of the rubric points were detected in the answer."
+        : `Partially correct. Covered ${awarded.length} of ${gq.rubric.length} rubric points.`;
+
+  return {
+    questionId: gq.questionId,
+    marksAwarded,
+    maxMarks: gq.maxMarks,
+    feedback,
+    deductions,
+    weakAreas,
+    awardedRubricPoints: awarded.map((p) => p.id)
+  };
+}
+
 function clamp(n: number, min: number, max: number) {
   return Math.min(max, Math.max(min, n));
 }
@@ -115,7 +154,7 @@ function termFreq(tokens: string[]): Map<string, number> {
   return m;
 }
 
-function cosineSimilarity(a: string, b: string): number {
+export function cosineSimilarity(a: string, b: string): number {
   const ta = tokenize(a);
   const tb = tokenize(b);
   if (ta.length === 0 || tb.length === 0) return 0;
@@ -0,0 +1,256 @@
+import type { GradingQuestion } from "./answerKey.js";
+import type { QuestionResult } from "./gradingSchema.js";
+import {
+  equationsEquivalent,
+  expressionsEquivalent,
+  isMathFunctionName,
+  normalizeMathText,
+  parseStatement,
+  simplify,
+  variablesOf,
+  type Expr,
+  type Statement,
+  type Tolerance
+} from "./mathExpr.js";
+
+// Deterministic maths grading: the final answer is checked for numeric or algebraic equivalence with the model
+// answer, and the working earns method marks for each model step the student reproduced in an equivalent form.
+
+export function isMathsSubject(subject?: string): boolean {
+  return /math/i.test(subject ?? "");
+}
+
+// Tagged numeric/expression questions always; in maths papers, unrubricked questions whose model answer is mostly
+// maths. Questions from generated papers always carry a rubric, so only uploaded model answers and keys get here.
+export function isMathsQuestion(gq: GradingQuestion, mathsSubject: boolean): boolean {
+  if (gq.answerType === "numeric" || gq.answerType === "expression") return true;
+  if (!mathsSubject || gq.answerType === "text" || gq.rubric.length) return false;
+  return isMostlyMaths(gq.modelAnswer);
+}
+
+// Prose words a final answer line may carry ("Area = 12 cm", "Hence x = 3") and still be a maths answer.
+const MAX_PROSE_WORDS = 3;
+
+// The final line must hold a statement with little prose around it: definitions that mention a number ("a prime
+// has exactly 2 factors") or an equation inside a sentence (Pythagoras) are left to the configured grader.
+function isMostlyMaths(text: string): boolean {
+  const lines = text
+    .split(/\n|;/)
+    .map((line) => line.trim())
+    .filter((line) => statementGroups(line).length);
+  const finalLine = [...lines].reverse().find((line) => ANSWER_MARKER.test(line)) ?? lines[lines.length - 1];
+  if (!finalLine) return false;
+  const prose = (finalLine.match(/[A-Za-z]{2,}\d*/g) ?? []).filter(
+    (word) => !isMathFunctionName(word) && !isFunctionRun(word) && !ANSWER_MARKER.test(word)
+  );
+  return prose.length <= MAX_PROSE_WORDS;
+}
+
+export function gradeMathsQuestion(gq: GradingQuestion): QuestionResult {
+  const base = { questionId: gq.questionId, maxMarks: gq.maxMarks, weakAreas: [] as string[], awardedRubricPoints: [] };
+  const model = readWorking(gq.modelAnswer);
+  const expected = gq.finalAnswer ? readWorking(gq.finalAnswer).final : model.final;
+
+  if (!gq.studentAnswer) {
+    return {
+      ...base,
+      marksAwarded: 0,
+      feedback: "No answer detected for this question.",
+      deductions: [{ reason: "Blank or unreadable answer", marks: gq.maxMarks }],
+      confidence: 1
+    };
+  }
+  if (!expected.length) {
+    return {
+      ...base,
+      marksAwarded: 0,
+      feedback: "The model answer has no final answer that can be checked; grade this question by hand.",
+      deductions: [{ reason: "Missing model answer", marks: gq.maxMarks }],
+      confidence: 0
+    };
+  }
+
+  const student = readWorking(gq.studentAnswer);
+  const steps = model.steps.filter((step) => !expected.some((e) => e.text === step.text));
+  const finalShare = steps.length ? clamp(Number(process.env.MATHS_FINAL_SHARE ?? 0.5), 0, 1) : 1;
+  const finalMarks = gq.maxMarks * finalShare;
+  const stepMarks = steps.length ? (gq.maxMarks - finalMarks) / steps.length : 0;
+  const tolerance: Tolerance = gq.tolerance === undefined ? {} : { absolute: gq.tolerance };
+
+  const finalScore = compareFinal(student.final, expected, tolerance, gq.answerType === "numeric");
+  // Working only: a bare final answer is equivalent to every linear step before it. Each student line counts for one
+  // model step at most, so copying the question out isn't two steps of working.
+  const unused = [...student.steps];
+  const missedSteps = steps.filter((step) => {
+    const index = unused.findIndex((s) => stepMatches(s, step));
+    if (index >= 0) unused.splice(index, 1);
+    return index < 0;
+  });
+
+  const earned = finalMarks * finalScore + stepMarks * (steps.length - missedSteps.length);
+  const marksAwarded = halfMarks(earned, gq.maxMarks);
+  const deductions: QuestionResult["deductions"] = [];
+  if (finalScore < 1) {
+    deductions.push({
+      reason: student.final.length
+        ? `Final answer ${describe(student.final)} is not ${describe(expected)}`
+        : "No final answer found",
+      marks: round(finalMarks * (1 - finalScore))
+    });
+  }
+  if (missedSteps.length) {
+    deductions.push({
+      reason: `Working not shown or incorrect: ${missedSteps.map((s) => s.text).join("; ")}`,
+      marks: round(stepMarks * missedSteps.length)
+    });
+  }
+
+  // Shows what an algebraic answer reduces to, e.g. 2(x+1) -> 2x + 2.
+  const simplified =
+    student.final.length === 1 && student.final[0].sides.length === 1 ? simplify(student.final[0].sides[0]) : null;
+  const shown = simplified && simplified !== student.final[0].text ? `; ${student.final[0].text} = ${simplified}` : "";
+  const finalFeedback =
+    finalScore === 1
+      ? `Final answer correct (${describe(expected)}${shown}).`
+      : finalScore > 0
+        ? `Final answer partly correct; expected ${describe(expected)}.`
+        : `Final answer should be ${describe(expected)}.`;
+  const methodFeedback = steps.length
+    ? ` Method: ${steps.length - missedSteps.length} of ${steps.length} steps of the model solution shown.`
+    : "";
+
+  return {
+    ...base,
+    marksAwarded,
+    feedback: finalFeedback + methodFeedback,
+    deductions,
+    weakAreas: finalScore < 1 && steps.length && missedSteps.length === steps.length ? ["method"] : [],
+    // An unreadable final answer may be OCR, not maths; let a teacher look.
+    confidence: student.final.length ? 0.9 : 0.4
+  };
+}
+
+// `final` holds one statement per root ("x = 2, -3").
+type Working = { steps: Statement[]; final: Statement[] };
+
+// "(a) " / "(ii) " before a line: sub-part answers joined into their question carry their label.
+const SUB_PART_LABEL = /^\s*\((?:[a-z]|[ivx]{1,4})\)\s+/i;
+const ANSWER_MARKER = /\b(?:ans(?:wer)?|therefore|hence|final|thus)\b|∴/i;
+
+// Statements line by line; the final answer is the last group of the last line marked "Ans"/"therefore"/"∴",
+// or of the last line with maths on it.
+function readWorking(text: string): Working {
+  const lines = text
+    .split(/\n|;/)
+    .map((line) => line.replace(SUB_PART_LABEL, ""))
+    .map((line) => ({ line, groups: statementGroups(line) }))
+    .filter((l) => l.groups.length);
+  if (!lines.length) return { steps: [], final: [] };
+
+  const finalLine = [...lines].reverse().find((l) => ANSWER_MARKER.test(l.line)) ?? lines[lines.length - 1];
+  const final = finalLine.groups[finalLine.groups.length - 1];
+  return { steps: lines.flatMap((l) => l.groups.filter((g) => g !== final).flat()), final };
+}
+
+// Words ("Area", "cm", "so") split a line into maths segments; single letters stay as variables.
+function statementGroups(line: string): Statement[][] {
+  const masked = normalizeMathText(line)
+    .replace(/\b(?:or|and)\b/gi, ",")
+    .replace(/[A-Za-z]{2,}\d*/g, (word) => (isMathFunctionName(word) || isFunctionRun(word) ? word : "|"))
+    .replace(/[^0-9A-Za-z.+\-*/^()[\]{}=%,\s]/g, "|");
+  return masked
+    .split("|")
+    .map((segment) =>
+      splitAlternatives(segment)
+        .map((part) => part.trim().replace(/^[=,.:]+|[=,.:]+$/g, "").trim())
+        .filter((part) => /[0-9a-z]/i.test(part) && !/^[a-z]$/i.test(part))
+        .flatMap((part) => {
+          const statement = parseStatement(part);
+          return statement ? [statement] : [];
+        })
+    )
+    .filter((group) => group.length);
+}
+
+// "sinx", "sqrtx", "pir": a function name or pi followed by one variable.
+function isFunctionRun(word: string): boolean {
+  return /^(?:sqrt|sin|cos|tan|log|ln|exp|abs|pi)[a-z]$/i.test(word);
+}
+
+// "x = 2, -3" and "x = 2 or x = -3" list several roots; each becomes its own statement.
+function splitAlternatives(segment: string): string[] {
+  const parts = segment.split(/,/).map((p) => p.trim());
+  const variable = /^\s*([a-z])\s*=/i.exec(parts[0] ?? "")?.[1];
+  return parts.map((part, i) => (i > 0 && variable && !part.includes("=") ? `${variable} = ${part}` : part));
+}
+
+// Share of the expected roots the student found; wrong extra roots count against it.
+function compareFinal(given: Statement[], expected: Statement[], tolerance: Tolerance, numeric: boolean): number {
+  if (!given.length) return 0;
+  const matched = expected.filter((e) => given.some((g) => answerValue(g, e, tolerance, numeric))).length;
+  return matched / Math.max(expected.length, given.length);
+}
+
+function describe(statements: Statement[]): string {
+  return statements.map((s) => s.text).join(", ");
+}
+
+function answerValue(given: Statement, expected: Statement, tolerance: Tolerance, numeric: boolean): boolean {
+  const g = asAnswer(given);
+  const e = asAnswer(expected);
+  // Single-letter units (9.81 m/s^2, 5 N) read as variables; numeric answers compare the leading value.
+  const unitsOnly = !variablesOf(e.value).size && variablesOf(g.value).size > 0;
+  if (numeric || unitsOnly) {
+    const gValue = leadingNumber(given.text);
+    const eValue = leadingNumber(expected.text);
+    return !!gValue && !!eValue && expressionsEquivalent(gValue, eValue, tolerance);
+  }
+  if (g.equation && e.equation && !e.variable) return equationsEquivalent(g.equation, e.equation);
+  if (e.variable && g.variable && g.variable !== e.variable) return false;
+  return expressionsEquivalent(g.value, e.value, tolerance);
+}
+
+// The number (or product/quotient of numbers) after the last "=": "v = 2.5 m/s" -> 2.5.
+function leadingNumber(text: string): Expr | null {
+  const normalized = normalizeMathText(text);
+  const rhs = normalized.slice(normalized.lastIndexOf("=") + 1);
+  const match = /[-+]?\s*(?:\d+(?:\.\d+)?|\.\d+)(?:\s*[*/^]\s*(?:\d+(?:\.\d+)?|\.\d+))*/.exec(rhs);
+  return match ? (parseStatement(match[0])?.sides[0] ?? null) : null;
+}
+
+// "x = 4" -> variable x, value 4; "2(x+1)" -> value; "y = 2x + 2" -> y and 2x + 2; "x² = 4x" stays an equation.
+function asAnswer(statement: Statement): { variable: string | null; value: Expr; equation: [Expr, Expr] | null } {
+  const first = statement.sides[0];
+  const last = statement.sides[statement.sides.length - 1];
+  if (statement.sides.length === 1) return { variable: null, value: first, equation: null };
+  if (first.kind === "var" && !variablesOf(last).has(first.name)) {
+    return { variable: first.name, value: last, equation: [first, last] };
+  }
+  return { variable: null, value: last, equation: [first, last] };
+}
+
+// A model step is shown when the student wrote an equivalent equation, or any side of it in an equivalent form.
+function stepMatches(given: Statement, step: Statement): boolean {
+  const pair = (s: Statement): [Expr, Expr] => [s.sides[0], s.sides[s.sides.length - 1]];
+  if (given.sides.length > 1 && step.sides.length > 1 && equationsEquivalent(pair(given), pair(step))) return true;
+  return step.sides.some(
+    (side) => !isTrivial(side) && given.sides.some((g) => !isTrivial(g) && expressionsEquivalent(g, side))
+  );
+}
+
+// Bare numbers and variables match too much to count as working.
+function isTrivial(expr: Expr): boolean {
+  return expr.kind === "num" || expr.kind === "var" || (expr.kind === "neg" && isTrivial(expr.arg));
+}
+
+function halfMarks(n: number, max: number): number {
+  return clamp(Math.round(n * 2) / 2, 0, max);
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, n));
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,113 @@
+import type { GradingQuestion } from "./answerKey.js";
+import type { Evaluation, QuestionResult } from "./gradingSchema.js";
+import { compareQuestionIds } from "./questionIds.js";
+
+const OPTION_LETTERS = ["A", "B", "C", "D", "E", "F", "G", "H", "I", "J", "K"];
+
+// Deterministic MCQ grading: full marks for the correct option, zero otherwise.
+export function gradeMcqQuestion(gq: GradingQuestion): QuestionResult {
+  const mcq = gq.mcq;
+  if (!mcq) throw new Error(`Question ${gq.questionId} is not an MCQ`);
+
+  const correctLetter = OPTION_LETTERS[mcq.correctOptionIndex];
+  const correctText = mcq.options[mcq.correctOptionIndex];
+  const expected = `${correctLetter} (${correctText})`;
+
+  if (!gq.studentAnswer) {
+    return {
+      questionId: gq.questionId,
+      marksAwarded: 0,
+      maxMarks: gq.maxMarks,
+      feedback: `No option detected. Correct answer: ${expected}.`,
+      deductions: [{ reason: "Blank or unreadable answer", marks: gq.maxMarks }],
+      weakAreas: [],
+      awardedRubricPoints: [],
+      confidence: 1
+    };
+  }
+
+  const chosen = detectChosenOptions(gq.studentAnswer, mcq.options);
+  if (chosen.length !== 1) {
+    return {
+      questionId: gq.questionId,
+      marksAwarded: 0,
+      maxMarks: gq.maxMarks,
+      feedback: chosen.length
+        ? `More than one option selected (${chosen.map((i) => OPTION_LETTERS[i]).join(", ")}). Correct answer: ${expected}.`
+        : `Could not identify the selected option. Correct answer: ${expected}.`,
+      deductions: [{ reason: chosen.length ? "Multiple options selected" : "No option identified", marks: gq.maxMarks }],
+      weakAreas: [],
+      awardedRubricPoints: [],
+      confidence: 1
+    };
+  }
+
+  const isCorrect = chosen[0] === mcq.correctOptionIndex;
+  return {
+    questionId: gq.questionId,
+    marksAwarded: isCorrect ? gq.maxMarks : 0,
+    maxMarks: gq.maxMarks,
+    feedback: isCorrect
+      ? "Correct option selected."
+      : `Selected ${OPTION_LETTERS[chosen[0]]}; correct answer is ${expected}.`,
+    deductions: isCorrect ? [] : [{ reason: "Incorrect option", marks: gq.maxMarks }],
+    weakAreas: isCorrect ? [] : [correctText],
+    awardedRubricPoints: [],
+    confidence: 1
+  };
+}
+
+// Adds deterministic (MCQ, maths) results to a provider evaluation and recomputes the totals.
+export function mergeMcqResults(evaluation: Evaluation | null, mcqResults: QuestionResult[]): Evaluation {
+  const questions = [...(evaluation?.questions ?? []), ...mcqResults].sort((a, b) =>
+    compareQuestionIds(a.questionId, b.questionId)
+  );
+  const weakAreas = [...new Set([...(evaluation?.weakAreas ?? []), ...mcqResults.flatMap((q) => q.weakAreas)])].slice(0, 10);
+
+  return {
+    totalMarks: questions.reduce((acc, q) => acc + q.marksAwarded, 0),
+    maxTotalMarks: questions.reduce((acc, q) => acc + q.maxMarks, 0),
+    overallFeedback: evaluation?.overallFeedback || "Graded against the answer key.",
+    weakAreas,
+    // Checked marks are exact, so only the provider-graded share carries uncertainty.
+    confidence: evaluation?.confidence ?? 1,
+    questions
+  };
+}
+
+function detectChosenOptions(answer: string, options: string[]): number[] {
+  const letters = OPTION_LETTERS.slice(0, options.length);
+  const text = answer.trim();
+  const chosen = new Set<number>();
+
+  // Letter answers: "B", "(b)", "b)", "Ans: B", "Option B".
+  const letterRe = new RegExp(`(?:^|[\\s(:\\-])(${letters.join("|")})(?=$|[\\s).:,])`, "gi");
+  for (const m of text.matchAll(letterRe)) {
+    const idx = letters.indexOf(m[1].toUpperCase());
+    if (idx === 0 && !isOptionA(text, m.index + m[0].length)) continue;
+    if (idx >= 0) chosen.add(idx);
+  }
+  if (chosen.size) return [...chosen];
+
+  // Option text answers: the student wrote the option itself.
+  const normalizedAnswer = normalize(text);
+  options.forEach((opt, idx) => {
+    const normalizedOption = normalize(opt);
+    if (normalizedOption && normalizedAnswer.includes(normalizedOption)) chosen.add(idx);
+  });
+  return [...chosen];
+}
+
+// "A"/"a" is also an article ("A mitochondrion produces ATP"). It is option A on its own, as a label ("(a)", "a)"),
+// after "option"/"ans", or as a capital not followed by a word ("A, C").
+function isOptionA(text: string, letterEnd: number): boolean {
+  const before = text.slice(0, letterEnd - 1);
+  const after = text.slice(letterEnd);
+  if (/^\(?a\)?[.:]?$/i.test(text) || /^\s*\)/.test(after)) return true;
+  if (/(?:option|ans(?:wer)?)\s*[:-]?\s*\(?$/i.test(before)) return true;
+  return text[letterEnd - 1] === "A" && !/^\s+[a-z]/i.test(after);
+}
+
+function normalize(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
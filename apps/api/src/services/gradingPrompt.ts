@@ -0,0 +1,105 @@
+import { buildGradingQuestions, type AnswerKey } from "./answerKey.js";
+import type { ChoiceGroup, QaPair } from "./extractQaPairs.js";
+import type { Evaluation, QuestionResult } from "./gradingSchema.js";
+import type { LlmMessage } from "./llm.js";
+
+export type GradeParams = {
+  modelQa: QaPair[];
+  studentQa: QaPair[];
+  maxMarksPerQuestion: number;
+  answerKey?: AnswerKey;
+  strictness: "lenient" | "balanced" | "strict";
+  subject?: string;
+  // Alternatives found while segmenting the model answers (OR / "attempt any one").
+  choiceGroups?: ChoiceGroup[];
+  // Gradings to combine per submission (self-consistency); defaults to GRADER_SAMPLES.
+  samples?: number;
+};
+
+export type GradingQuestion = ReturnType<typeof buildGradingQuestions>[number];
+
+// The same instructions go to every LLM provider, so their evaluations are comparable.
+export function buildGradingMessages(params: GradeParams): { messages: LlmMessage[]; questions: GradingQuestion[] } {
+  const questions = buildGradingQuestions(params);
+
+  const strictnessHint =
+    params.strictness === "strict"
+      ? "Be fair but strict. Do not reward vague answers."
+      : params.strictness === "balanced"
+        ? "Be fair and consistent. Reward partial credit when clearly earned."
+        : "Be lenient but still accurate. Reward partial credit generously when plausible.";
+
+  const subjectHint = params.subject ? `Subject: ${params.subject}\n` : "";
+
+  const messages: LlmMessage[] = [
+    {
+      role: "system",
+      content:
+        "You are an exam evaluator. Grade strictly to the rubric.\n" +
+        "Output must be valid JSON matching the provided schema.\n" +
+        "Never include markdown, code fences, or extra keys.\n"
+    },
+    {
+      role: "user",
+      content:
+        subjectHint +
+        strictnessHint +
+        "\n\n" +
+        "For each question, compare the student's answer with the model answer.\n" +
+        "Give marks out of maxMarks. Explain deductions clearly.\n" +
+        "When a question has a rubric, award marks per rubric point (never more than maxMarks) and list the ids of\n" +
+        "the awarded points in awardedRubricPoints. Without a rubric, return an empty awardedRubricPoints list.\n" +
+        "Give each question a confidence (0..1) that its marks are right; lower it for illegible or ambiguous answers.\n" +
+        "Return weak areas based on patterns of mistakes.\n\n" +
+        JSON.stringify({ questions }, null, 2)
+    }
+  ];
+  return { messages, questions };
+}
+
+// The questions sent are authoritative for ids, max marks and rubric ids, whatever the model echoes back: ids it
+// invented are dropped, and questions it left out count as 0 and are flagged for review.
+export function normalizeEvaluation(evaluation: Evaluation, questions: GradingQuestion[]): Evaluation {
+  const resultById = new Map(evaluation.questions.map((q) => [q.questionId, q]));
+  const gradedQuestions = questions.map((source): QuestionResult => {
+    const q = resultById.get(source.questionId);
+    if (!q) {
+      return {
+        questionId: source.questionId,
+        marksAwarded: 0,
+        maxMarks: source.maxMarks,
+        feedback: "Not graded: the grader returned no result for this question.",
+        deductions: [{ reason: "Not graded", marks: source.maxMarks }],
+        weakAreas: [],
+        awardedRubricPoints: [],
+        confidence: 0,
+        ungraded: true
+      };
+    }
+    // Spread rather than assign: Firestore rejects undefined fields.
+    const confidence = q.confidence === undefined ? {} : { confidence: clamp(q.confidence, 0, 1) };
+    const rubricIds = new Set(source.rubric.map((p) => p.id));
+    return {
+      ...q,
+      maxMarks: source.maxMarks,
+      marksAwarded: clamp(q.marksAwarded, 0, source.maxMarks),
+      ...confidence,
+      awardedRubricPoints: q.awardedRubricPoints.filter((id) => rubricIds.has(id))
+    };
+  });
+
+  // Totals come from the questions, not the model's arithmetic.
+  const maxTotal = gradedQuestions.reduce((acc, q) => acc + q.maxMarks, 0);
+  const total = gradedQuestions.reduce((acc, q) => acc + q.marksAwarded, 0);
+  return {
+    ...evaluation,
+    questions: gradedQuestions,
+    totalMarks: clamp(total, 0, maxTotal),
+    maxTotalMarks: maxTotal,
+    confidence: clamp(evaluation.confidence, 0, 1)
+  };
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, n));
+}
@@ -13,10 +13,55 @@ export const EvaluationSchema = z.object({
       maxMarks: z.number(),
       feedback: z.string(),
       deductions: z.array(z.object({ reason: z.string(), marks: z.number() })),
-      weakAreas: z.array(z.string())
+      weakAreas: z.array(z.string()),
+      // Ids of the answer-key rubric points that were awarded (empty when no rubric was given).
+      awardedRubricPoints: z.array(z.string()),
+      // How sure the grader is of this question's marks (0..1); falls back to the overall confidence.
+      confidence: z.number().optional()
     })
   )
 });
 
-export type Evaluation = z.infer<typeof EvaluationSchema>;
+// Set when a question was graded several times (GRADER_SAMPLES): each sample's marks and how far apart they were.
+// Not part of the model's output contract.
+export type QuestionConsistency = {
+  samples: Array<{ model: string; marksAwarded: number }>;
+  spread: number;
+  disagreement: boolean;
+  // Samples that failed (provider errors) and are not among `samples`.
+  failed: number;
+};
+
+// Set by the semantic grader: each model-answer sentence (or rubric point) and the closest student passage.
+export type SentenceCoverage = { text: string; covered: boolean; similarity: number; match: string | null };
+
+type GraderOutput = z.infer<typeof EvaluationSchema>;
+export type QuestionResult = GraderOutput["questions"][number] & {
+  consistency?: QuestionConsistency;
+  coverage?: SentenceCoverage[];
+  // The grader returned nothing for this question: it counts 0 marks and is flagged for review.
+  ungraded?: boolean;
+};
+export type Evaluation = Omit<GraderOutput, "questions"> & { questions: QuestionResult[] };
+
+// Small models often drop optional-looking fields or quote numbers; fill those in before asking the model again.
+export const LenientEvaluationSchema = z.object({
+  totalMarks: z.coerce.number().default(0),
+  maxTotalMarks: z.coerce.number().default(0),
+  overallFeedback: z.string().default(""),
+  weakAreas: z.array(z.string()).default([]),
+  confidence: z.coerce.number().default(0.5),
+  questions: z.array(
+    z.object({
+      questionId: z.coerce.string(),
+      marksAwarded: z.coerce.number(),
+      maxMarks: z.coerce.number().default(0),
+      feedback: z.string().default(""),
+      deductions: z.array(z.object({ reason: z.string(), marks: z.coerce.number() })).default([]),
+      weakAreas: z.array(z.string()).default([]),
+      awardedRubricPoints: z.array(z.coerce.string()).default([]),
+      confidence: z.coerce.number().optional()
+    })
+  )
+});
 
@@ -0,0 +1,338 @@
+import { buildGradingQuestions, type AnswerKey, type GradingQuestion } from "./answerKey.js";
+import type { QaPair } from "./extractQaPairs.js";
+import { STOP_WORDS } from "./gradingHeuristic.js";
+import type { Evaluation, QuestionResult, SentenceCoverage } from "./gradingSchema.js";
+import { embedTexts, resolveLlmTarget, type LlmTarget } from "./llm.js";
+
+// Offline grading by meaning rather than shared words: every model-answer sentence (or rubric point) is matched
+// against the student's sentences. With EMBED_PROVIDER set, similarity comes from a self-hosted embedding model;
+// otherwise from TF-IDF over stemmed, script-aware tokens. EMBED_PROVIDER=openai is refused, since it would send the
+// answers to OpenAI; a self-hosted server on another machine is allowed, and the feedback says where answers went.
+
+type Tier = { name: "embeddings" | "tfidf"; covered: number; floor: number; confidence: number };
+
+const TFIDF_TIER: Tier = { name: "tfidf", covered: 0.5, floor: 0.2, confidence: 0.45 };
+
+// Embedding similarities sit higher than TF-IDF ones; SEMANTIC_THRESHOLD tunes the cut-off for a given model.
+function embeddingTier(): Tier {
+  const covered = Number(process.env.SEMANTIC_THRESHOLD) || 0.8;
+  return { name: "embeddings", covered, floor: covered - 0.2, confidence: 0.6 };
+}
+
+type Similarity = (a: string, b: string) => number;
+
+export async function gradeSubmissionSemantic(params: {
+  modelQa: QaPair[];
+  studentQa: QaPair[];
+  maxMarksPerQuestion: number;
+  answerKey?: AnswerKey;
+}): Promise<Evaluation> {
+  const gradingQuestions = buildGradingQuestions(params);
+  const units = gradingQuestions.map((gq) => ({
+    gq,
+    targets: gq.rubric.length ? gq.rubric.map((p) => p.description) : splitSentences(gq.modelAnswer),
+    passages: studentPassages(gq.studentAnswer)
+  }));
+
+  const tfidf = new TfIdf([...units.flatMap((u) => [...u.targets, ...u.passages])]);
+  let tier = TFIDF_TIER;
+  let similarity: Similarity = (a, b) => tfidf.similarity(a, b);
+  let source = "offline, no LLM; TF-IDF sentence matching";
+  let note = "";
+  if (process.env.EMBED_PROVIDER?.trim().toLowerCase() === "openai") {
+    note = " EMBED_PROVIDER=openai is not used by the semantic grader, which keeps answers off OpenAI; used TF-IDF.";
+  } else if (process.env.EMBED_PROVIDER) {
+    try {
+      const target = resolveLlmTarget("embedding");
+      similarity = await embeddingSimilarity(units.flatMap((u) => [...u.targets, ...u.passages]), target);
+      tier = embeddingTier();
+      const host = remoteHost(target);
+      source = host
+        ? `no LLM; sentence matching with the embedding model at ${host}, which was sent the answers`
+        : "offline, no LLM; sentence matching with a local embedding model";
+    } catch (err) {
+      note = ` Embedding model unavailable (${err instanceof Error ? err.message : "unknown error"}); used TF-IDF.`;
+    }
+  }
+
+  const questions = units.map((u) => gradeQuestion(u.gq, u.targets, u.passages, similarity, tier, tfidf));
+  const weakAreas = [...new Set(questions.flatMap((q) => q.weakAreas))].slice(0, 10);
+  return {
+    totalMarks: questions.reduce((acc, q) => acc + q.marksAwarded, 0),
+    maxTotalMarks: questions.reduce((acc, q) => acc + q.maxMarks, 0),
+    overallFeedback:
+      `Semantic grading used (${source}). Check the covered sentences before relying on the marks.` + note,
+    weakAreas,
+    confidence: questions.length
+      ? round(questions.reduce((acc, q) => acc + (q.confidence ?? 0), 0) / questions.length)
+      : tier.confidence,
+    questions
+  };
+}
+
+function gradeQuestion(
+  gq: GradingQuestion,
+  targets: string[],
+  passages: string[],
+  similarity: Similarity,
+  tier: Tier,
+  tfidf: TfIdf
+): QuestionResult {
+  const base = { questionId: gq.questionId, maxMarks: gq.maxMarks, awardedRubricPoints: [] as string[] };
+  if (!passages.length) {
+    return {
+      ...base,
+      marksAwarded: 0,
+      feedback: "No answer detected for this question.",
+      deductions: [{ reason: "Blank or unreadable answer", marks: gq.maxMarks }],
+      weakAreas: tfidf.keyTerms(targets, 6),
+      confidence: tier.confidence
+    };
+  }
+  if (!targets.length) {
+    return {
+      ...base,
+      marksAwarded: 0,
+      feedback: "Model answer for this question was not detected; cannot grade reliably.",
+      deductions: [{ reason: "Missing model answer", marks: gq.maxMarks }],
+      weakAreas: [],
+      confidence: tier.confidence
+    };
+  }
+
+  const coverage: SentenceCoverage[] = targets.map((text) => {
+    let best = { similarity: 0, match: null as string | null };
+    for (const passage of passages) {
+      const sim = similarity(text, passage);
+      if (sim > best.similarity) best = { similarity: sim, match: passage };
+    }
+    return { text, covered: best.similarity >= tier.covered, similarity: round(best.similarity), match: best.match };
+  });
+  const missed = coverage.filter((c) => !c.covered);
+  // Similarities near the cut-off could go either way.
+  const borderline = coverage.filter((c) => Math.abs(c.similarity - tier.covered) < 0.1).length;
+  const confidence = round(tier.confidence * (1 - (0.5 * borderline) / coverage.length));
+
+  let marksAwarded: number;
+  let awardedRubricPoints: string[] = [];
+  let deductions: QuestionResult["deductions"];
+  if (gq.rubric.length) {
+    // Rubric points are all-or-nothing, as in the heuristic grader.
+    const points = gq.rubric.map((p, i) => ({ ...p, covered: coverage[i].covered }));
+    awardedRubricPoints = points.filter((p) => p.covered).map((p) => p.id);
+    marksAwarded = halfMarks(points.filter((p) => p.covered).reduce((acc, p) => acc + p.marks, 0), gq.maxMarks);
+    deductions = points
+      .filter((p) => !p.covered)
+      .map((p) => ({ reason: `Missing rubric point: ${p.description}`, marks: p.marks }));
+  } else {
+    // Longer sentences carry more of the answer; partially matched ones earn partial credit.
+    const weights = targets.map((t) => Math.max(1, new Set(tokenize(t)).size));
+    const credit = coverage.map((c) => clamp((c.similarity - tier.floor) / (tier.covered - tier.floor), 0, 1));
+    const earned = weights.reduce((acc, w, i) => acc + w * credit[i], 0);
+    const total = weights.reduce((acc, w) => acc + w, 0);
+    marksAwarded = halfMarks((earned / total) * gq.maxMarks, gq.maxMarks);
+    deductions =
+      marksAwarded === gq.maxMarks
+        ? []
+        : [
+            {
+              reason: missed.length
+                ? `Not covered: ${missed.map((c) => excerpt(c.text)).join("; ")}`
+                : "Key points only partly covered",
+              marks: gq.maxMarks - marksAwarded
+            }
+          ];
+  }
+
+  const kind = gq.rubric.length ? "rubric points" : "key sentences";
+  const feedback = !missed.length
+    ? `Covers all ${coverage.length} ${kind} of the model answer.`
+    : missed.length === coverage.length
+      ? `None of the ${coverage.length} ${kind} of the model answer were found.`
+      : `Covered ${coverage.length - missed.length} of ${coverage.length} ${kind}.`;
+
+  return {
+    ...base,
+    marksAwarded,
+    feedback,
+    deductions,
+    weakAreas: tfidf.keyTerms(missed.map((c) => c.text), 6),
+    awardedRubricPoints,
+    confidence,
+    coverage
+  };
+}
+
+async function embeddingSimilarity(texts: string[], target: LlmTarget): Promise<Similarity> {
+  const unique = [...new Set(texts)];
+  const vectors = new Map<string, number[]>();
+  for (let i = 0; i < unique.length; i += EMBED_BATCH) {
+    const batch = unique.slice(i, i + EMBED_BATCH);
+    const { vectors: embedded } = await embedTexts(batch, target);
+    batch.forEach((text, j) => vectors.set(text, embedded[j]));
+  }
+  return (a, b) => {
+    const va = vectors.get(a);
+    const vb = vectors.get(b);
+    return va && vb ? clamp(cosine(va, vb), 0, 1) : 0;
+  };
+}
+
+const EMBED_BATCH = 64;
+
+// The embedding server's host when it is not on this machine.
+function remoteHost(target: LlmTarget): string | null {
+  if (!target.baseUrl) return null;
+  try {
+    const { hostname } = new URL(target.baseUrl);
+    return hostname === "localhost" || hostname === "[::1]" || hostname.startsWith("127.") ? null : hostname;
+  } catch {
+    return target.baseUrl;
+  }
+}
+
+// --- Text processing ---
+
+// Sentence ends: Latin punctuation followed by a space, CJK and Devanagari stops, line breaks.
+const SENTENCE_BREAK = /(?<=[.!?;])\s+|(?<=[。！？।॥])|\n+/u;
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(SENTENCE_BREAK)
+    .map((s) => s.trim())
+    .filter((s) => tokenize(s).length > 0);
+}
+
+// Single sentences plus neighbouring pairs, for points a student spreads over two sentences.
+function studentPassages(text: string): string[] {
+  const sentences = splitSentences(text);
+  return [...sentences, ...sentences.slice(1).map((s, i) => `${sentences[i]} ${s}`)];
+}
+
+const WORD = /[\p{L}\p{M}\p{N}]+/gu;
+// Scripts written without spaces between words are compared by character pairs.
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.normalize("NFKC").toLowerCase().match(WORD) ?? []) {
+    if (UNSPACED_SCRIPT.test(word)) {
+      const chars = [...word];
+      if (chars.length === 1) tokens.push(word);
+      for (let i = 0; i + 1 < chars.length; i++) tokens.push(chars[i] + chars[i + 1]);
+    } else if (!STOP_WORDS.has(word) && ([...word].length >= 2 || /\p{N}/u.test(word))) {
+      tokens.push(stem(word));
+    }
+  }
+  return tokens;
+}
+
+// Light English stemmer: enough to join word families (evaporate, evaporates, evaporated, evaporation).
+// Other scripts are left as written.
+const SUFFIXES: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["ization", "ize"],
+  ["isation", "ize"],
+  ["ations", "ate"],
+  ["ation", "ate"],
+  ["ments", ""],
+  ["ment", ""],
+  ["ness", ""],
+  ["ies", "y"],
+  ["ing", ""],
+  ["ed", ""],
+  ["ly", ""],
+  ["es", "e"],
+  ["s", ""]
+];
+
+function stem(word: string): string {
+  if (!/^[a-z]+$/.test(word) || word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  let stemmed = word;
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3) {
+      stemmed = stemmed.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+  // running -> run, evaporate -> evaporat (so it meets evaporated -> evaporat)
+  if (/([b-df-hj-np-tv-z])\1$/.test(stemmed) && !/(ll|ss|zz)$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+  return stemmed.length > 3 ? stemmed.replace(/e$/, "") : stemmed;
+}
+
+class TfIdf {
+  private readonly idf = new Map<string, number>();
+  private readonly documents: number;
+
+  constructor(documents: string[]) {
+    this.documents = documents.length;
+    for (const doc of documents) {
+      for (const token of new Set(tokenize(doc))) this.idf.set(token, (this.idf.get(token) ?? 0) + 1);
+    }
+    for (const [token, df] of this.idf) this.idf.set(token, Math.log((1 + this.documents) / (1 + df)) + 1);
+  }
+
+  similarity(a: string, b: string): number {
+    const va = this.vector(a);
+    const vb = this.vector(b);
+    let dot = 0;
+    for (const [token, weight] of va) dot += weight * (vb.get(token) ?? 0);
+    const norm = Math.sqrt(sumSquares(va)) * Math.sqrt(sumSquares(vb));
+    return norm ? clamp(dot / norm, 0, 1) : 0;
+  }
+
+  // The rarest words of `texts`, as written, for weak areas.
+  keyTerms(texts: string[], limit: number): string[] {
+    const terms = new Map<string, number>();
+    for (const word of texts.join(" ").toLowerCase().match(WORD) ?? []) {
+      const latin = /^[a-z]+$/.test(word);
+      if (STOP_WORDS.has(word) || (latin ? word.length < 5 : [...word].length < 3)) continue;
+      const weight = this.idf.get(stem(word)) ?? 1;
+      terms.set(word, Math.max(weight, terms.get(word) ?? 0));
+    }
+    return [...terms.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([word]) => word);
+  }
+
+  private vector(text: string): Map<string, number> {
+    const vector = new Map<string, number>();
+    for (const token of tokenize(text)) vector.set(token, (vector.get(token) ?? 0) + (this.idf.get(token) ?? 1));
+    return vector;
+  }
+}
+
+function sumSquares(vector: Map<string, number>): number {
+  let sum = 0;
+  for (const v of vector.values()) sum += v * v;
+  return sum;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+function excerpt(text: string): string {
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function halfMarks(n: number, max: number): number {
+  return clamp(Math.round(n * 2) / 2, 0, max);
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, n));
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
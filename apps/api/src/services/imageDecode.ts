@@ -0,0 +1,36 @@
+import sharp from "sharp";
+
+// Formats OCR providers don't reliably accept; they are converted to PNG pages first.
+const HEIF_MIMES = new Set(["image/heic", "image/heif", "image/heic-sequence", "image/heif-sequence"]);
+const SHARP_MIMES = new Set(["image/webp", "image/tiff"]);
+
+export function needsDecoding(mime: string): boolean {
+  return HEIF_MIMES.has(mime) || SHARP_MIMES.has(mime);
+}
+
+// Decodes HEIC/HEIF, WebP and (multi-page) TIFF into PNG pages. WebP and TIFF pages are turned upright from their
+// EXIF orientation. HEIC gets only the rotation and mirroring stored in the HEIF container (irot/imir), which libheif
+// applies while decoding; EXIF orientation inside a HEIC is not read, and the PNG carries none for the `rotate` step.
+export async function decodeToPngPages(buffer: Buffer, mime: string): Promise<{ pages: Buffer[]; totalPages: number }> {
+  const maxPages = Number(process.env.PDF_OCR_MAX_PAGES || 30);
+
+  if (HEIF_MIMES.has(mime)) {
+    // sharp's bundled libheif only covers AVIF, so HEVC-coded iPhone photos go through libheif's wasm build.
+    const { default: decode } = await import("heic-decode");
+    const image = await decode({ buffer: new Uint8Array(buffer) });
+    const png = await sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength), {
+      raw: { width: image.width, height: image.height, channels: 4 }
+    })
+      .png()
+      .toBuffer();
+    return { pages: [png], totalPages: 1 };
+  }
+
+  const meta = await sharp(buffer).metadata();
+  const totalPages = meta.pages ?? 1;
+  const pages: Buffer[] = [];
+  for (let page = 0; page < Math.min(totalPages, maxPages); page++) {
+    pages.push(await sharp(buffer, { page }).rotate().png().toBuffer());
+  }
+  return { pages, totalPages };
+}
@@ -0,0 +1,194 @@
+import sharp, { type Sharp } from "sharp";
+import { z } from "zod";
+
+export const PREPROCESS_STEPS = ["rotate", "grayscale", "normalize", "deskew", "crop", "binarize"] as const;
+export type PreprocessStep = (typeof PREPROCESS_STEPS)[number];
+
+// `detail` carries step-specific info, e.g. the deskew angle.
+export type AppliedStep = { step: PreprocessStep; detail?: string };
+
+// Per-request switches: "none", a comma list ("rotate,deskew"), or toggles on top of the defaults ({"binarize":true}).
+export const PreprocessOptionsSchema = z.union([
+  z.string(),
+  z.array(z.enum(PREPROCESS_STEPS)),
+  z.record(z.enum(PREPROCESS_STEPS), z.boolean())
+]);
+export type PreprocessOptions = z.infer<typeof PreprocessOptionsSchema>;
+
+// Binarization is off by default: OCR engines threshold internally and handwriting loses strokes.
+const DEFAULT_STEPS: PreprocessStep[] = ["rotate", "grayscale", "normalize", "deskew", "crop"];
+
+const MAX_SKEW_DEGREES = 10;
+const MIN_SKEW_DEGREES = 0.3;
+const DESKEW_SAMPLE_WIDTH = 800;
+const CROP_MARGIN = 16;
+
+export function resolvePreprocessSteps(options?: PreprocessOptions): PreprocessStep[] {
+  const defaults = process.env.PREPROCESS_STEPS ? parseStepList(process.env.PREPROCESS_STEPS) : DEFAULT_STEPS;
+  if (options === undefined) return defaults;
+  if (typeof options === "string") return parseStepList(options);
+  if (Array.isArray(options)) return PREPROCESS_STEPS.filter((s) => options.includes(s));
+  return PREPROCESS_STEPS.filter((s) => options[s] ?? defaults.includes(s));
+}
+
+function parseStepList(value: string): PreprocessStep[] {
+  const names = value.split(",").map((s) => s.trim().toLowerCase());
+  return PREPROCESS_STEPS.filter((s) => names.includes(s));
+}
+
+// Cleans up a page photo before OCR. Steps run in a fixed order; inputs sharp cannot decode are returned unchanged.
+export async function preprocessImage(
+  image: Buffer,
+  steps: PreprocessStep[]
+): Promise<{ image: Buffer; applied: AppliedStep[] }> {
+  if (!steps.length) return { image, applied: [] };
+
+  const meta = await sharp(image)
+    .metadata()
+    .catch(() => null);
+  if (!meta?.width || !meta.height) return { image, applied: [] };
+
+  const applied: AppliedStep[] = [];
+  let current = image;
+  const run = async (op: (img: Sharp) => Sharp) => {
+    current = await op(sharp(current)).png().toBuffer();
+  };
+
+  if (steps.includes("rotate") && meta.orientation && meta.orientation > 1) {
+    await run((img) => img.rotate());
+    applied.push({ step: "rotate", detail: `EXIF orientation ${meta.orientation}` });
+  }
+  if (steps.includes("grayscale")) {
+    await run((img) => img.grayscale());
+    applied.push({ step: "grayscale" });
+  }
+  if (steps.includes("normalize")) {
+    // Stretch to the 1st..99th percentile so faint pencil and grey paper get full contrast.
+    await run((img) => img.normalise({ lower: 1, upper: 99 }));
+    applied.push({ step: "normalize" });
+  }
+  if (steps.includes("deskew")) {
+    const angle = await estimateSkew(current);
+    if (Math.abs(angle) >= MIN_SKEW_DEGREES) {
+      await run((img) => img.rotate(-angle, { background: "#ffffff" }));
+      applied.push({ step: "deskew", detail: `${(-angle).toFixed(1)} degrees` });
+    }
+  }
+  if (steps.includes("crop")) {
+    const before = await sharp(current).metadata();
+    const trimmed = await sharp(current)
+      .trim({ threshold: 40 })
+      .png()
+      .toBuffer({ resolveWithObject: true })
+      .catch(() => null);
+    const { width = 0, height = 0 } = before;
+    // Only keep crops that remove a border, not ones that cut into the page.
+    const cropped = trimmed && (trimmed.info.width < width || trimmed.info.height < height);
+    if (cropped && trimmed.info.width * trimmed.info.height >= width * height * 0.5) {
+      // OCR engines read poorly when text touches the image edge, so leave a white margin.
+      current = await sharp(trimmed.data)
+        .extend({ top: CROP_MARGIN, bottom: CROP_MARGIN, left: CROP_MARGIN, right: CROP_MARGIN, background: "#ffffff" })
+        .png()
+        .toBuffer();
+      applied.push({ step: "crop", detail: `${width}x${height} -> ${trimmed.info.width}x${trimmed.info.height}` });
+    }
+  }
+  if (steps.includes("binarize")) {
+    const threshold = await otsuThreshold(current);
+    // Otsu puts ink at <= threshold; sharp keeps >= its threshold as white.
+    await run((img) => img.grayscale().threshold(threshold + 1));
+    applied.push({ step: "binarize", detail: `threshold ${threshold}` });
+  }
+
+  return { image: current, applied };
+}
+
+// Projection-profile deskew: text lines give the sharpest row histogram when the page is level.
+// Returns the skew in degrees; rotating by the negated angle levels the text.
+async function estimateSkew(image: Buffer): Promise<number> {
+  const { data, info } = await sharp(image)
+    .grayscale()
+    .resize({ width: DESKEW_SAMPLE_WIDTH, withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const threshold = otsuFromPixels(data);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      if (data[y * info.width + x] <= threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  // Blank or almost-black pages have no usable line structure.
+  const inkRatio = xs.length / (info.width * info.height);
+  if (inkRatio < 0.001 || inkRatio > 0.5) return 0;
+
+  const score = (degrees: number) => {
+    const rad = (degrees * Math.PI) / 180;
+    const sin = Math.sin(rad);
+    const cos = Math.cos(rad);
+    const offset = info.width * Math.abs(sin);
+    const rows = new Float64Array(Math.ceil(info.height + 2 * offset) + 1);
+    for (let i = 0; i < xs.length; i++) {
+      rows[Math.round(ys[i] * cos - xs[i] * sin + offset)] += 1;
+    }
+    let sum = 0;
+    for (let r = 1; r < rows.length; r++) sum += (rows[r] - rows[r - 1]) ** 2;
+    return sum;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let a = from; a <= to + 1e-9; a += step) {
+      const s = score(a);
+      if (s > bestScore) {
+        bestScore = s;
+        best = a;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10;
+}
+
+async function otsuThreshold(image: Buffer): Promise<number> {
+  const { data } = await sharp(image).grayscale().raw().toBuffer({ resolveWithObject: true });
+  return otsuFromPixels(data);
+}
+
+// Otsu's method: the grey level that best separates ink from paper.
+function otsuFromPixels(pixels: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const p of pixels) histogram[p] += 1;
+
+  const total = pixels.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 128;
+  let bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (!weightBackground) continue;
+    const weightForeground = total - weightBackground;
+    if (!weightForeground) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,333 @@
+import { z } from "zod";
+
+import { jsonField } from "./evaluatePipeline.js";
+import { getManualScore, importedScoreId, upsertImportedScore } from "./persistManualScore.js";
+import { getPaper } from "./persistPaper.js";
+import { compareQuestionIds, normalizeQuestionId } from "./questionIds.js";
+import {
+  createClass,
+  createStudent,
+  findStudentByRollNumber,
+  getClass,
+  getExam,
+  getStudent,
+  IdSchema,
+  listClasses,
+  RosterError,
+  updateStudent,
+  type ExamDoc,
+  type RosterEntity,
+  type SchoolClassDoc
+} from "./roster.js";
+import { readSpreadsheet, SpreadsheetError, type SheetRow } from "./spreadsheet.js";
+
+// Header -> field, for sheets whose headers the aliases below don't cover, e.g. {"ADM_NO":"rollNumber"}.
+const ColumnMapSchema = z.record(z.string(), z.string().min(1));
+
+const DryRunSchema = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((v) => v === "true");
+
+export const StudentImportBodySchema = z.object({
+  // Where rows that name a class (and section) look it up; missing classes are created.
+  schoolId: IdSchema.optional(),
+  // Class for rows without a class column.
+  classId: IdSchema.optional(),
+  columns: z.preprocess(jsonField, ColumnMapSchema.optional()),
+  // Validates and reports without writing anything.
+  dryRun: DryRunSchema
+});
+export type StudentImportBody = z.infer<typeof StudentImportBodySchema>;
+
+export const MarksImportBodySchema = z.object({
+  examId: IdSchema,
+  // Maximum marks for rows without an outOf column; defaults to the exam's answer key or paper total.
+  outOf: z.coerce.number().positive().max(10000).optional(),
+  columns: z.preprocess(jsonField, ColumnMapSchema.optional()),
+  dryRun: DryRunSchema
+});
+export type MarksImportBody = z.infer<typeof MarksImportBodySchema>;
+
+const StudentRowSchema = z.object({
+  studentId: IdSchema.optional(),
+  rollNumber: z.string().max(50),
+  name: z.string().max(200),
+  classId: IdSchema.optional(),
+  className: z.string().max(50).optional(),
+  section: z.string().max(20).optional(),
+  academicYear: z.string().max(20).optional()
+});
+
+const MarksRowSchema = z
+  .object({
+    studentId: IdSchema.optional(),
+    rollNumber: z.string().max(50).optional(),
+    obtained: z.coerce.number().min(0).max(10000).optional(),
+    outOf: z.coerce.number().positive().max(10000).optional(),
+    questions: z.record(z.string(), z.coerce.number().min(0).max(1000))
+  })
+  .refine((r) => r.studentId || r.rollNumber, { message: "Needs a roll number or student id", path: ["rollNumber"] });
+
+// Normalized header (lowercase, letters and digits only) -> field.
+const HEADER_ALIASES: Record<string, string> = {
+  studentid: "studentId",
+  rollnumber: "rollNumber",
+  rollno: "rollNumber",
+  roll: "rollNumber",
+  name: "name",
+  student: "name",
+  studentname: "name",
+  classid: "classId",
+  class: "className",
+  classname: "className",
+  grade: "className",
+  standard: "className",
+  section: "section",
+  sec: "section",
+  division: "section",
+  academicyear: "academicYear",
+  session: "academicYear",
+  marks: "obtained",
+  marksobtained: "obtained",
+  obtained: "obtained",
+  score: "obtained",
+  total: "obtained",
+  outof: "outOf",
+  maxmarks: "outOf",
+  maximummarks: "outOf",
+  fullmarks: "outOf"
+};
+
+// "Q1", "Q 2(a)", "Question 3" are per-question marks.
+const QUESTION_HEADER = /^q(?:uestion)?\s*\.?\s*\d/i;
+
+export type ImportRowError = { row: number; errors: string[] };
+
+export type ImportReport = {
+  dryRun: boolean;
+  rows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  // Headers that matched no field.
+  ignoredColumns: string[];
+  errors: ImportRowError[];
+};
+
+type Outcome = "created" | "updated" | "unchanged";
+
+// Students and their class assignment. Rows are matched by student id, else by roll number within the class.
+export async function importStudents(buffer: Buffer, body: StudentImportBody): Promise<ImportReport> {
+  const sheet = await mappedSheet(buffer, body.columns);
+  requireColumns(sheet.fields, ["rollNumber", "name"]);
+
+  const defaultClass = body.classId ? await requireClass(body.classId) : null;
+  const schoolId = body.schoolId ?? defaultClass?.schoolId ?? null;
+  const classes = new ClassLookup(schoolId, body.dryRun);
+
+  return runImport(sheet, body.dryRun, async (row) => {
+    const parsed = StudentRowSchema.parse(row.fields);
+    if (!parsed.rollNumber) throw new RowError("rollNumber: Required");
+    if (!parsed.name) throw new RowError("name: Required");
+
+    const classId = parsed.classId
+      ? (await requireClass(parsed.classId)).id
+      : parsed.className
+        ? await classes.resolve(parsed.className, parsed.section ?? null, parsed.academicYear ?? null)
+        : defaultClass?.id;
+    if (!classId) throw new RowError("No class: add a class column or send classId");
+
+    const existing = parsed.studentId
+      ? await getStudent(parsed.studentId)
+      : await findStudentByRollNumber(classId, parsed.rollNumber);
+    if (parsed.studentId && !existing) throw new RowError(`Student not found: ${parsed.studentId}`);
+
+    if (!existing) {
+      if (!body.dryRun) await createStudent({ classId, rollNumber: parsed.rollNumber, name: parsed.name });
+      return "created";
+    }
+    if (existing.classId === classId && existing.rollNumber === parsed.rollNumber && existing.name === parsed.name) {
+      return "unchanged";
+    }
+    if (!body.dryRun) await updateStudent(existing.id, { classId, rollNumber: parsed.rollNumber, name: parsed.name });
+    return "updated";
+  });
+}
+
+// Historical marks for an exam, stored as imported manual scores next to scanned scores and AI evaluations.
+export async function importMarks(buffer: Buffer, body: MarksImportBody): Promise<ImportReport> {
+  const exam = await getExam(body.examId);
+  if (!exam) throw new RosterError(`Exam not found: ${body.examId}`, 404);
+
+  const sheet = await mappedSheet(buffer, body.columns);
+  if (!sheet.fields.has("rollNumber") && !sheet.fields.has("studentId")) {
+    const found = sheet.headers.join(", ");
+    throw new SpreadsheetError(`The sheet needs a roll number or student id column (found: ${found})`);
+  }
+  if (!sheet.fields.has("obtained") && !sheet.questionIds.size) {
+    throw new SpreadsheetError("The sheet needs a marks column or per-question columns such as Q1, Q2(a)");
+  }
+  const examOutOf = body.outOf ?? (await examMaxMarks(exam));
+
+  return runImport(sheet, body.dryRun, async (row) => {
+    const parsed = MarksRowSchema.parse({ ...row.fields, questions: row.questions });
+    const student = parsed.studentId
+      ? await getStudent(parsed.studentId)
+      : await findStudentByRollNumber(exam.classId, parsed.rollNumber ?? "");
+    if (!student) {
+      throw new RowError(
+        parsed.studentId
+          ? `Student not found: ${parsed.studentId}`
+          : `Roll number ${parsed.rollNumber} is not on the class roster.`
+      );
+    }
+    if (student.classId !== exam.classId) throw new RowError(`Student ${student.id} is not in the exam's class`);
+
+    const questions = Object.entries(parsed.questions)
+      .map(([questionId, marks]) => ({ questionId, marks }))
+      .sort((a, b) => compareQuestionIds(a.questionId, b.questionId));
+    const obtained = parsed.obtained ?? (questions.length ? questions.reduce((acc, q) => acc + q.marks, 0) : null);
+    if (obtained === null) throw new RowError("No marks in this row");
+    const outOf = parsed.outOf ?? examOutOf;
+    if (!outOf) throw new RowError("No maximum marks: add an outOf column or send outOf");
+    if (obtained > outOf) throw new RowError(`Marks ${obtained} exceed the maximum of ${outOf}`);
+
+    if (body.dryRun) {
+      return (await getManualScore(importedScoreId(exam.id, student.id))) ? "updated" : "created";
+    }
+    const { created } = await upsertImportedScore({
+      links: { schoolId: exam.schoolId, classId: exam.classId, studentId: student.id, examId: exam.id },
+      obtained,
+      outOf,
+      questions
+    });
+    return created ? "created" : "updated";
+  });
+}
+
+// A problem with one row; reported, and the import carries on.
+class RowError extends Error {}
+
+type MappedRow = { row: number; fields: Record<string, string>; questions: Record<string, string> };
+type MappedSheet = {
+  headers: string[];
+  fields: Set<string>;
+  questionIds: Set<string>;
+  ignoredColumns: string[];
+  rows: MappedRow[];
+};
+
+async function mappedSheet(buffer: Buffer, columns: Record<string, string> = {}): Promise<MappedSheet> {
+  const sheet = await readSpreadsheet(buffer);
+  const mapping = new Map<string, { field: string } | { questionId: string }>();
+  const ignoredColumns: string[] = [];
+  for (const header of sheet.headers) {
+    if (!header) continue;
+    const target = columns[header] ?? HEADER_ALIASES[header.toLowerCase().replace(/[^a-z0-9]/g, "")];
+    if (target?.startsWith("q:")) mapping.set(header, { questionId: normalizeQuestionId(target.slice(2)) });
+    else if (target) mapping.set(header, { field: target });
+    else if (QUESTION_HEADER.test(header)) mapping.set(header, { questionId: normalizeQuestionId(header) });
+    else ignoredColumns.push(header);
+  }
+
+  const fields = new Set<string>();
+  const questionIds = new Set<string>();
+  for (const target of mapping.values()) {
+    if ("field" in target) fields.add(target.field);
+    else questionIds.add(target.questionId);
+  }
+  return { headers: sheet.headers, fields, questionIds, ignoredColumns, rows: sheet.rows.map(mapRow) };
+
+  function mapRow({ row, values }: SheetRow): MappedRow {
+    const mapped: MappedRow = { row, fields: {}, questions: {} };
+    for (const [header, value] of Object.entries(values)) {
+      const target = mapping.get(header);
+      if (!target) continue;
+      if ("field" in target) mapped.fields[target.field] = value;
+      else mapped.questions[target.questionId] = value;
+    }
+    return mapped;
+  }
+}
+
+function requireColumns(fields: Set<string>, required: string[]) {
+  const missing = required.filter((f) => !fields.has(f));
+  if (missing.length) throw new SpreadsheetError(`Missing columns: ${missing.join(", ")}`);
+}
+
+// Rows are applied one at a time so roll-number checks see earlier rows.
+async function runImport(
+  sheet: MappedSheet,
+  dryRun: boolean,
+  apply: (row: MappedRow) => Promise<Outcome>
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    dryRun,
+    rows: sheet.rows.length,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    failed: 0,
+    ignoredColumns: sheet.ignoredColumns,
+    errors: []
+  };
+  for (const row of sheet.rows) {
+    try {
+      report[await apply(row)] += 1;
+    } catch (err) {
+      const errors =
+        err instanceof z.ZodError
+          ? err.issues.map((i) => `${i.path.join(".") || "row"}: ${i.message}`)
+          : err instanceof RowError || err instanceof RosterError
+            ? [err.message]
+            : null;
+      if (!errors) throw err;
+      report.failed += 1;
+      report.errors.push({ row: row.row, errors });
+    }
+  }
+  return report;
+}
+
+async function requireClass(classId: string): Promise<RosterEntity<SchoolClassDoc>> {
+  const found = await getClass(classId);
+  if (!found) throw new RosterError(`Class not found: ${classId}`, 404);
+  return found;
+}
+
+// Finds a school's class by name, section and year (ignoring case), creating it on first use.
+class ClassLookup {
+  private classes: Promise<Array<RosterEntity<SchoolClassDoc>>> | null = null;
+
+  constructor(
+    private readonly schoolId: string | null,
+    private readonly dryRun: boolean
+  ) {}
+
+  async resolve(name: string, section: string | null, academicYear: string | null): Promise<string> {
+    if (!this.schoolId) throw new RowError("A class column needs schoolId (or classId) in the request");
+    const schoolId = this.schoolId;
+    this.classes ??= listClasses({ schoolId });
+    const classes = await this.classes;
+
+    const same = (a: string | null, b: string | null) => (a ?? "").toLowerCase() === (b ?? "").toLowerCase();
+    const found = classes.find(
+      (c) => same(c.name, name) && same(c.section, section) && (!academicYear || same(c.academicYear, academicYear))
+    );
+    if (found) return found.id;
+
+    const created = this.dryRun
+      ? { id: `new-class-${classes.length}`, schoolId, name, section, academicYear, createdAtIso: "" }
+      : await createClass({ schoolId, name, section: section ?? undefined, academicYear: academicYear ?? undefined });
+    classes.push(created);
+    return created.id;
+  }
+}
+
+async function examMaxMarks(exam: ExamDoc): Promise<number | null> {
+  if (exam.answerKey?.length) return exam.answerKey.reduce((acc, q) => acc + q.maxMarks, 0);
+  const paper = exam.paperId ? await getPaper(exam.paperId) : null;
+  return paper?.spec.totalMarks ?? null;
+}
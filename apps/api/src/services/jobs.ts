@@ -0,0 +1,188 @@
+import { randomUUID } from "crypto";
+
+import type { PipelineHooks, PipelineStage } from "./evaluatePipeline.js";
+import { getFirestoreIfConfigured } from "./persistFirebase.js";
+
+export type JobKind = "evaluate" | "evaluate-batch" | "generate-paper";
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export type JobRecord = {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  stage: PipelineStage | null;
+  progress: { completed: number; total: number } | null;
+  createdAtIso: string;
+  updatedAtIso: string;
+  error: { status: number; body: Record<string, unknown> } | null;
+  result: unknown | null;
+};
+
+export type JobStore = {
+  save(job: JobRecord): Promise<void>;
+  get(id: string): Promise<JobRecord | null>;
+};
+
+// Process-local store. Finished jobs are evicted oldest-first once the cap is reached.
+export function createInMemoryJobStore(maxJobs = Number(process.env.JOB_MAX_KEPT || 500)): JobStore {
+  const jobs = new Map<string, JobRecord>();
+  return {
+    async save(job) {
+      jobs.delete(job.id);
+      jobs.set(job.id, job);
+      for (const [id, j] of jobs) {
+        if (jobs.size <= maxJobs) break;
+        if (j.status !== "queued" && j.status !== "running") jobs.delete(id);
+      }
+    },
+    async get(id) {
+      return jobs.get(id) ?? null;
+    }
+  };
+}
+
+// Keeps jobs (and their results) across restarts. Jobs still running when the process died stay "running".
+export function createFirestoreJobStore(): JobStore {
+  const db = getFirestoreIfConfigured();
+  if (!db) throw new Error("JOB_STORE=firestore requires FIREBASE_PROJECT_ID");
+  const collection = db.collection("jobs");
+  return {
+    async save(job) {
+      // JSON round-trip drops undefined fields, which Firestore rejects.
+      await collection.doc(job.id).set(JSON.parse(JSON.stringify(job)));
+    },
+    async get(id) {
+      const snap = await collection.doc(id).get();
+      return snap.exists ? (snap.data() as JobRecord) : null;
+    }
+  };
+}
+
+let store: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (store) return store;
+  const backend = (process.env.JOB_STORE || "memory").toLowerCase();
+  store = backend === "firestore" ? createFirestoreJobStore() : createInMemoryJobStore();
+  return store;
+}
+
+// Overrides the configured backend (e.g. a custom persistent store).
+export function setJobStore(next: JobStore) {
+  store = next;
+}
+
+export type JobRunner = (hooks: Required<PipelineHooks>) => Promise<unknown>;
+export type JobErrorMapper = (err: unknown) => JobRecord["error"];
+
+const running = new Map<string, AbortController>();
+// Store writes per job run one after another, so a cancel sees the job's latest state and nothing lands after it.
+const writeChains = new Map<string, Promise<unknown>>();
+const queue: Array<() => Promise<void>> = [];
+let active = 0;
+
+export async function submitJob(kind: JobKind, run: JobRunner, describeError: JobErrorMapper): Promise<JobRecord> {
+  const now = new Date().toISOString();
+  const job: JobRecord = {
+    id: randomUUID(),
+    kind,
+    status: "queued",
+    stage: null,
+    progress: null,
+    createdAtIso: now,
+    updatedAtIso: now,
+    error: null,
+    result: null
+  };
+  await getJobStore().save(job);
+
+  const controller = new AbortController();
+  running.set(job.id, controller);
+  queue.push(() => executeJob(job, run, describeError, controller));
+  drainQueue();
+  return job;
+}
+
+export async function getJob(id: string): Promise<JobRecord | null> {
+  return getJobStore().get(id);
+}
+
+// Returns the job as it ends up, or null when it does not exist. A job that finished first is returned unchanged.
+export async function cancelJob(id: string): Promise<JobRecord | null> {
+  return serializeWrite(id, async () => {
+    const job = await getJobStore().get(id);
+    if (!job) return null;
+    if (job.status !== "queued" && job.status !== "running") return job;
+
+    running.get(id)?.abort();
+    running.delete(id);
+    const cancelled: JobRecord = { ...job, status: "cancelled", updatedAtIso: new Date().toISOString() };
+    await getJobStore().save(cancelled);
+    return cancelled;
+  });
+}
+
+async function serializeWrite<T>(id: string, write: () => Promise<T>): Promise<T> {
+  const run = (writeChains.get(id) ?? Promise.resolve()).catch(() => undefined).then(write);
+  writeChains.set(id, run);
+  try {
+    return await run;
+  } finally {
+    if (writeChains.get(id) === run) writeChains.delete(id);
+  }
+}
+
+function drainQueue() {
+  const limit = Math.max(1, Number(process.env.JOB_CONCURRENCY || 2));
+  while (active < limit && queue.length) {
+    const next = queue.shift()!;
+    active += 1;
+    void next().finally(() => {
+      active -= 1;
+      drainQueue();
+    });
+  }
+}
+
+async function executeJob(job: JobRecord, run: JobRunner, describeError: JobErrorMapper, controller: AbortController) {
+  const jobStore = getJobStore();
+  if (controller.signal.aborted) return;
+
+  // Checked again once the write's turn comes: a cancel queued before it has the last word.
+  const save = (next: JobRecord) =>
+    serializeWrite(job.id, async () => {
+      if (!controller.signal.aborted) await jobStore.save(next);
+    });
+  let current: JobRecord = { ...job, status: "running", updatedAtIso: new Date().toISOString() };
+  void save(current).catch((err) => console.error(err));
+  const update = (patch: Partial<JobRecord>) => {
+    if (controller.signal.aborted) return;
+    current = { ...current, ...patch, updatedAtIso: new Date().toISOString() };
+    void save(current).catch((err) => console.error(err));
+  };
+
+  try {
+    const result = await run({
+      signal: controller.signal,
+      onStage: (stage, progress) => update({ stage, progress: progress ?? null })
+    });
+    await finish({ status: "succeeded", progress: null, result });
+  } catch (err) {
+    if (!controller.signal.aborted) await finish({ status: "failed", error: describeError(err) });
+  } finally {
+    running.delete(job.id);
+  }
+
+  async function finish(patch: Partial<JobRecord>) {
+    if (controller.signal.aborted) return;
+    current = { ...current, ...patch, updatedAtIso: new Date().toISOString() };
+    try {
+      await save(current);
+    } catch (err) {
+      // Typically a result too large for the backend; record the failure instead of leaving the job "running".
+      console.error(err);
+      const error = { status: 500, body: { error: "Job result could not be stored" } };
+      await save({ ...current, status: "failed", result: null, error }).catch((e) => console.error(e));
+    }
+  }
+}
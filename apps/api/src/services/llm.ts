@@ -0,0 +1,561 @@
+import OpenAI from "openai";
+import { z } from "zod";
+
+// One gateway for every LLM call (grading, paper generation, answer alignment, embeddings): provider selection, model
+// fallback, retries, timeouts, structured JSON output and token/cost accounting.
+
+export const LLM_PROVIDERS = ["openai", "ollama", "openai_compatible"] as const;
+export type LlmProvider = (typeof LLM_PROVIDERS)[number];
+
+export type LlmPurpose = "grading" | "paper" | "alignment" | "embedding";
+
+export type LlmMessage = { role: "system" | "user" | "assistant"; content: string };
+
+// `models` are tried in order: the next one is used when a model is unavailable.
+export type LlmTarget = { provider: LlmProvider; models: string[]; baseUrl: string | null; apiKey: string | null };
+
+// Token counts are summed over retries, fallbacks and repair attempts; costUsd is null for unpriced models.
+export type LlmUsage = {
+  purpose: LlmPurpose;
+  provider: LlmProvider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+  latencyMs: number;
+  attempts: number;
+  // Why the call failed; tokens spent before the failure are still counted.
+  error: string | null;
+  atIso: string;
+};
+
+// Carries the HTTP details that routes/errors.ts turns into responses (quota, rate limit, auth).
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details: { code?: string; type?: string; requestId?: string; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+
+  get code() {
+    return this.details.code ?? "";
+  }
+
+  get type() {
+    return this.details.type ?? "";
+  }
+
+  get request_id() {
+    return this.details.requestId ?? "";
+  }
+}
+
+// Env var prefix per purpose: <PREFIX>_PROVIDER, <PREFIX>_MODEL, <PREFIX>_BASE_URL, <PREFIX>_API_KEY.
+const ENV_PREFIX: Record<LlmPurpose, string> = {
+  grading: "GRADER",
+  paper: "PAPER",
+  alignment: "ALIGN",
+  embedding: "EMBED"
+};
+
+export function resolveLlmTarget(purpose: LlmPurpose): LlmTarget {
+  const prefix = ENV_PREFIX[purpose];
+  const env = (name: string) => process.env[`${prefix}_${name}`]?.trim() || undefined;
+  const provider = (env("PROVIDER") ?? "openai").toLowerCase() as LlmProvider;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown ${prefix}_PROVIDER "${provider}" (expected ${LLM_PROVIDERS.join(", ")})`);
+  }
+  const pinned = env("MODEL");
+
+  if (provider === "ollama") {
+    return {
+      provider,
+      models: [pinned ?? (purpose === "embedding" ? "nomic-embed-text" : (process.env.OLLAMA_MODEL ?? "llama3.1:8b"))],
+      baseUrl: env("BASE_URL") ?? process.env.OLLAMA_BASE_URL ?? "http://127.0.0.1:11434",
+      apiKey: env("API_KEY") ?? null
+    };
+  }
+  if (provider === "openai_compatible") {
+    const baseUrl = env("BASE_URL");
+    if (!baseUrl || !pinned) {
+      throw new Error(
+        `${prefix}_PROVIDER=openai_compatible requires ${prefix}_BASE_URL (e.g. http://127.0.0.1:8000/v1) ` +
+          `and ${prefix}_MODEL`
+      );
+    }
+    return { provider, models: [pinned], baseUrl, apiKey: env("API_KEY") ?? null };
+  }
+
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) throw new Error(`OPENAI_API_KEY is required for ${prefix}_PROVIDER=openai`);
+  const primary = process.env.OPENAI_MODEL_PRIMARY || "gpt-4.1";
+  const fallback = process.env.OPENAI_MODEL_FALLBACK || "gpt-4.1-mini";
+  const models =
+    purpose === "paper"
+      ? [env("MODEL_PRIMARY") ?? primary, env("MODEL_FALLBACK") ?? fallback]
+      : purpose === "alignment"
+        ? [fallback]
+        : purpose === "embedding"
+          ? ["text-embedding-3-small"]
+          : [primary, fallback];
+  return { provider, models: pinned ? [pinned] : [...new Set(models)], baseUrl: null, apiKey };
+}
+
+export type JsonRequest<T> = {
+  purpose: LlmPurpose;
+  target?: LlmTarget;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // Names the schema for structured output (OpenAI requires one).
+  schemaName: string;
+  messages: LlmMessage[];
+  temperature: number;
+  // Mechanical fixes (coercions, defaults) tried before asking the model again.
+  repairSchema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // Checks beyond the schema, e.g. marks adding up; a message sends the output back to the model.
+  check?: (data: T) => string | null;
+};
+
+// Requests structured JSON. Output that fails the schema (or `check`) goes back to the model with the problems,
+// up to LLM_MAX_ATTEMPTS times.
+export async function generateJson<T>(request: JsonRequest<T>): Promise<{ data: T; usage: LlmUsage }> {
+  const target = request.target ?? resolveLlmTarget(request.purpose);
+  const maxAttempts = Math.max(1, Number(process.env.LLM_MAX_ATTEMPTS) || 3);
+  const jsonSchema = zodToJsonSchema(request.schema);
+  const conversation = [...request.messages];
+  const started = Date.now();
+  const call = { purpose: request.purpose, provider: target.provider, started };
+  const tally = { inputTokens: 0, outputTokens: 0, model: target.models[0] };
+
+  let problem = "";
+  let attempt = 1;
+  try {
+    for (; attempt <= maxAttempts; attempt++) {
+      const reply = await completeWithFallback(target, {
+        messages: conversation,
+        schemaName: request.schemaName,
+        jsonSchema,
+        temperature: request.temperature
+      });
+      tally.inputTokens += reply.inputTokens;
+      tally.outputTokens += reply.outputTokens;
+      tally.model = reply.model;
+
+      const parsed = parseJson(reply.text, request.schema, request.repairSchema);
+      problem = "problem" in parsed ? parsed.problem : (request.check?.(parsed.data) ?? "");
+      if (!problem && "data" in parsed) {
+        const usage = recordUsage({ ...call, ...tally, attempts: attempt, error: null });
+        return { data: parsed.data, usage };
+      }
+
+      conversation.push(
+        { role: "assistant", content: reply.text },
+        {
+          role: "user",
+          content:
+            `That output is not valid: ${problem}\n` +
+            "Reply with the corrected JSON object only, with every required key and numbers as numbers."
+        }
+      );
+    }
+  } catch (err) {
+    // Tokens spent on the attempts before the failure were still billed.
+    recordUsage({ ...call, ...tally, attempts: attempt, error: errorMessage(err) });
+    throw err;
+  }
+  const message = `${request.purpose} model returned invalid JSON after ${maxAttempts} attempts: ${problem}`;
+  recordUsage({ ...call, ...tally, attempts: maxAttempts, error: message });
+  throw new Error(message);
+}
+
+// Embeds `texts` in one request (per model tried); vectors keep the input order.
+export async function embedTexts(
+  texts: string[],
+  target: LlmTarget = resolveLlmTarget("embedding")
+): Promise<{ vectors: number[][]; usage: LlmUsage }> {
+  const started = Date.now();
+  for (let i = 0; ; i++) {
+    const model = target.models[i];
+    try {
+      const { vectors, inputTokens } = await withRetries(() => embed(target, model, texts));
+      if (vectors.length !== texts.length) {
+        throw new Error(`${model} returned ${vectors.length} embeddings for ${texts.length} texts`);
+      }
+      const usage = recordUsage({
+        purpose: "embedding",
+        provider: target.provider,
+        model,
+        inputTokens,
+        outputTokens: 0,
+        attempts: 1,
+        started,
+        error: null
+      });
+      return { vectors, usage };
+    } catch (err) {
+      if (i + 1 >= target.models.length || !isModelUnavailable(err)) {
+        recordUsage({
+          purpose: "embedding",
+          provider: target.provider,
+          model,
+          inputTokens: 0,
+          outputTokens: 0,
+          attempts: 1,
+          started,
+          error: errorMessage(err)
+        });
+        throw err;
+      }
+    }
+  }
+}
+
+async function embed(target: LlmTarget, model: string, texts: string[]) {
+  if (target.provider === "openai") {
+    const client = new OpenAI({ apiKey: target.apiKey ?? undefined, maxRetries: 0, timeout: timeoutMs() });
+    try {
+      const response = await client.embeddings.create({ model, input: texts });
+      return { vectors: response.data.map((d) => d.embedding), inputTokens: response.usage.prompt_tokens };
+    } catch (err) {
+      if (!(err instanceof OpenAI.APIError)) throw err;
+      throw new LlmError(err.message, err.status ?? 0, { code: err.code ?? undefined, type: err.type ?? undefined });
+    }
+  }
+  if (target.provider === "ollama") {
+    const json = await postJson(`${trimSlash(target.baseUrl)}/api/embed`, target, { model, input: texts });
+    return { vectors: json.embeddings ?? [], inputTokens: json.prompt_eval_count ?? 0 };
+  }
+  const json = await postJson(`${trimSlash(target.baseUrl)}/embeddings`, target, { model, input: texts });
+  return { vectors: (json.data ?? []).map((d) => d.embedding), inputTokens: json.usage?.prompt_tokens ?? 0 };
+}
+
+// Minimal Zod -> JSON Schema for structured output: objects, arrays, strings, numbers, booleans, enums, nullables.
+// Every property is listed as required, as OpenAI's strict mode demands.
+export function zodToJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) properties[key] = zodToJsonSchema(value);
+    return { type: "object", additionalProperties: false, properties, required: Object.keys(properties) };
+  }
+  if (schema instanceof z.ZodString) return { type: "string" };
+  if (schema instanceof z.ZodNumber) return { type: "number" };
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodArray) return { type: "array", items: zodToJsonSchema(schema.element) };
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: schema.options };
+  if (schema instanceof z.ZodNullable) return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: "null" }] };
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return zodToJsonSchema(schema._def.innerType);
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map((option) => zodToJsonSchema(option)) };
+  }
+  throw new Error(`zodToJsonSchema: unsupported schema type ${schema._def.typeName}`);
+}
+
+type Completion = { text: string; model: string; inputTokens: number; outputTokens: number };
+type CompletionRequest = {
+  messages: LlmMessage[];
+  schemaName: string;
+  jsonSchema: Record<string, unknown>;
+  temperature: number;
+};
+
+async function completeWithFallback(target: LlmTarget, request: CompletionRequest): Promise<Completion> {
+  for (let i = 0; ; i++) {
+    const model = target.models[i];
+    try {
+      return await withRetries(() => complete(target, model, request));
+    } catch (err) {
+      if (i + 1 >= target.models.length || !isModelUnavailable(err)) throw err;
+    }
+  }
+}
+
+function complete(target: LlmTarget, model: string, request: CompletionRequest): Promise<Completion> {
+  if (target.provider === "openai") return completeWithOpenAI(target, model, request);
+  if (target.provider === "ollama") return completeWithOllama(target, model, request);
+  return completeWithChatCompletions(target, model, request);
+}
+
+async function completeWithOpenAI(target: LlmTarget, model: string, request: CompletionRequest): Promise<Completion> {
+  // Retries are handled here for every provider alike.
+  const client = new OpenAI({ apiKey: target.apiKey ?? undefined, maxRetries: 0, timeout: timeoutMs() });
+  try {
+    const response = await client.responses.create({
+      model,
+      input: request.messages,
+      text: {
+        // Structured output: keep it strict so parsing is reliable.
+        format: { type: "json_schema", name: request.schemaName, strict: true, schema: request.jsonSchema }
+      },
+      temperature: request.temperature
+    });
+    return {
+      text: response.output_text,
+      model,
+      inputTokens: response.usage?.input_tokens ?? 0,
+      outputTokens: response.usage?.output_tokens ?? 0
+    };
+  } catch (err) {
+    if (!(err instanceof OpenAI.APIError)) throw err;
+    const retryAfter = Number(err.headers?.["retry-after"]);
+    throw new LlmError(err.message, err.status ?? 0, {
+      code: err.code ?? undefined,
+      type: err.type ?? undefined,
+      requestId: err.request_id ?? undefined,
+      retryAfterMs: Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined
+    });
+  }
+}
+
+async function completeWithOllama(target: LlmTarget, model: string, request: CompletionRequest): Promise<Completion> {
+  // Recent Ollama versions constrain decoding to a JSON schema passed as `format`.
+  const json = await postJson(`${trimSlash(target.baseUrl)}/api/chat`, target, {
+    model,
+    messages: request.messages,
+    stream: false,
+    format: request.jsonSchema,
+    options: { temperature: request.temperature }
+  });
+  return {
+    text: String(json.message?.content ?? ""),
+    model,
+    inputTokens: json.prompt_eval_count ?? 0,
+    outputTokens: json.eval_count ?? 0
+  };
+}
+
+// Servers that rejected response_format once are not sent it again.
+const noResponseFormat = new Set<string>();
+
+async function completeWithChatCompletions(
+  target: LlmTarget,
+  model: string,
+  request: CompletionRequest
+): Promise<Completion> {
+  const url = `${trimSlash(target.baseUrl)}/chat/completions`;
+  const body = { model, messages: request.messages, temperature: request.temperature };
+  let json: ChatResponse;
+  if (noResponseFormat.has(url)) {
+    json = await postJson(url, target, body);
+  } else {
+    try {
+      json = await postJson(url, target, { ...body, response_format: { type: "json_object" } });
+    } catch (err) {
+      // Some servers reject response_format; the prompt already asks for JSON only.
+      if (!(err instanceof LlmError) || err.status !== 400) throw err;
+      noResponseFormat.add(url);
+      json = await postJson(url, target, body);
+    }
+  }
+  return {
+    text: String(json.choices?.[0]?.message?.content ?? ""),
+    model,
+    inputTokens: json.usage?.prompt_tokens ?? 0,
+    outputTokens: json.usage?.completion_tokens ?? 0
+  };
+}
+
+// The parts of the Ollama, chat-completions and embeddings responses this module reads.
+type ChatResponse = {
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  embeddings?: number[][];
+  data?: Array<{ embedding: number[] }>;
+};
+
+async function postJson(url: string, target: LlmTarget, body: unknown): Promise<ChatResponse> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(target.apiKey ? { Authorization: `Bearer ${target.apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs())
+    });
+  } catch (err) {
+    const timedOut = err instanceof Error && err.name === "TimeoutError";
+    const reason = timedOut ? `timed out after ${timeoutMs()}ms` : String(err);
+    // Status 0: no response; retried like a 5xx.
+    throw new LlmError(`Could not reach the ${target.provider} model at ${url}: ${reason}`, 0);
+  }
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    const retryAfter = Number(res.headers.get("retry-after"));
+    // OpenAI-style servers describe the error as {"error": {"code", "type"}}.
+    let error: { code?: unknown; type?: unknown } | undefined;
+    try {
+      error = JSON.parse(text)?.error;
+    } catch {
+      error = undefined;
+    }
+    throw new LlmError(`${target.provider} error: ${res.status} ${text.slice(0, 500)}`, res.status, {
+      code: typeof error?.code === "string" ? error.code : undefined,
+      type: typeof error?.type === "string" ? error.type : undefined,
+      retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+    });
+  }
+  return (await res.json()) as ChatResponse;
+}
+
+// Rate limits (except exhausted quota), server errors and timeouts are retried with exponential backoff and jitter.
+async function withRetries<T>(run: () => Promise<T>): Promise<T> {
+  const maxRetries = Math.max(0, Number(process.env.LLM_MAX_RETRIES ?? 2) || 0);
+  const baseMs = Number(process.env.LLM_RETRY_BASE_MS) || 1000;
+  for (let retry = 0; ; retry++) {
+    try {
+      return await run();
+    } catch (err) {
+      if (retry >= maxRetries || !isRetryable(err)) throw err;
+      const backoff = Math.min(30_000, baseMs * 2 ** retry) * (0.5 + Math.random() / 2);
+      const delay = err instanceof LlmError && err.details.retryAfterMs ? err.details.retryAfterMs : backoff;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(delay, 60_000)));
+    }
+  }
+}
+
+function isRetryable(err: unknown): boolean {
+  if (!(err instanceof LlmError)) return false;
+  if (err.status === 429) return err.code !== "insufficient_quota" && err.type !== "insufficient_quota";
+  return err.status === 0 || err.status >= 500;
+}
+
+// Only a missing or retired model moves on to the next one; other request errors (schema rejected, context too long)
+// would fail there too and are surfaced instead.
+function isModelUnavailable(err: unknown): boolean {
+  if (!(err instanceof LlmError)) return false;
+  return err.status === 404 || /^model_(?:not_found|not_available|unavailable)$/.test(err.code);
+}
+
+function parseJson<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  repairSchema?: z.ZodType<T, z.ZodTypeDef, unknown>
+): { data: T } | { problem: string } {
+  const raw = extractJson(text);
+  if (raw === undefined) return { problem: "no JSON object found" };
+  const strict = schema.safeParse(raw);
+  if (strict.success) return { data: strict.data };
+  const repaired = repairSchema?.safeParse(raw);
+  if (repaired?.success) {
+    const revalidated = schema.safeParse(repaired.data);
+    if (revalidated.success) return { data: revalidated.data };
+  }
+  const issues = (repaired && !repaired.success ? repaired.error : strict.error).issues;
+  return { problem: issues.slice(0, 5).map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ") };
+}
+
+// Models wrap JSON in code fences or prose despite the instructions.
+function extractJson(text: string): unknown {
+  const candidates = [text, text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, "")];
+  const first = text.indexOf("{");
+  const last = text.lastIndexOf("}");
+  if (first >= 0 && last > first) candidates.push(text.slice(first, last + 1));
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function timeoutMs() {
+  return Number(process.env.LLM_TIMEOUT_MS) || 180_000;
+}
+
+function trimSlash(url: string | null) {
+  return (url ?? "").replace(/\/$/, "");
+}
+
+// --- Usage accounting ---
+
+const RECENT_CALLS = 200;
+const recentCalls: LlmUsage[] = [];
+
+export type LlmUsageTotal = Pick<LlmUsage, "purpose" | "provider" | "model" | "inputTokens" | "outputTokens"> & {
+  calls: number;
+  failed: number;
+  costUsd: number | null;
+};
+const totals = new Map<string, LlmUsageTotal>();
+
+// Per-process totals since start, by purpose and model, plus the most recent calls.
+export function getLlmUsage(): { totals: LlmUsageTotal[]; recent: LlmUsage[] } {
+  return { totals: [...totals.values()], recent: [...recentCalls].reverse() };
+}
+
+// LLM_PRICES: USD per million tokens by model, e.g. {"gpt-4.1":{"input":2,"output":8}}. Ollama runs locally (free).
+function costOf(provider: LlmProvider, model: string, inputTokens: number, outputTokens: number): number | null {
+  if (provider === "ollama") return 0;
+  let prices: Record<string, { input: number; output: number }>;
+  try {
+    prices = JSON.parse(process.env.LLM_PRICES || "{}");
+  } catch {
+    return null;
+  }
+  const price = prices[model];
+  if (!price) return null;
+  return Math.round(((inputTokens * price.input + outputTokens * price.output) / 1_000_000) * 1e6) / 1e6;
+}
+
+function recordUsage(call: {
+  purpose: LlmPurpose;
+  provider: LlmProvider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  attempts: number;
+  started: number;
+  error: string | null;
+}): LlmUsage {
+  const usage: LlmUsage = {
+    purpose: call.purpose,
+    provider: call.provider,
+    model: call.model,
+    inputTokens: call.inputTokens,
+    outputTokens: call.outputTokens,
+    costUsd: costOf(call.provider, call.model, call.inputTokens, call.outputTokens),
+    latencyMs: Date.now() - call.started,
+    attempts: call.attempts,
+    error: call.error,
+    atIso: new Date().toISOString()
+  };
+
+  recentCalls.push(usage);
+  if (recentCalls.length > RECENT_CALLS) recentCalls.shift();
+  const key = `${usage.purpose}:${usage.provider}:${usage.model}`;
+  const total = totals.get(key) ?? { ...usage, inputTokens: 0, outputTokens: 0, calls: 0, failed: 0, costUsd: 0 };
+  totals.set(key, {
+    purpose: usage.purpose,
+    provider: usage.provider,
+    model: usage.model,
+    calls: total.calls + 1,
+    failed: total.failed + (usage.error ? 1 : 0),
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    costUsd: total.costUsd === null || usage.costUsd === null ? null : total.costUsd + usage.costUsd
+  });
+
+  if (process.env.LLM_LOG_USAGE === "true") {
+    const cost = usage.costUsd === null ? "" : ` $${usage.costUsd}`;
+    console.log(
+      `[llm] ${usage.purpose} ${usage.provider}/${usage.model} in=${usage.inputTokens} out=${usage.outputTokens}` +
+        `${cost} ${usage.latencyMs}ms attempts=${usage.attempts}${usage.error ? ` failed: ${usage.error}` : ""}`
+    );
+  }
+  return usage;
+}
@@ -0,0 +1,296 @@
+import { z } from "zod";
+
+import { mergeBoxes, type BoundingBox, type OcrLine } from "./ocr.js";
+import { compareQuestionIds, normalizeQuestionId } from "./questionIds.js";
+
+const FractionSchema = z.number().min(0).max(1);
+
+// Where a school's cover page keeps its marks. `region` is in fractions (0..1, top-left origin) of the area the
+// page's text covers, which after the `crop` preprocessing step is close to the sheet itself.
+export const MarksTemplateSchema = z.object({
+  // Page of the upload that holds the marks box (default 1).
+  page: z.number().int().min(1).max(50).optional(),
+  region: z
+    .object({ x0: FractionSchema, y0: FractionSchema, x1: FractionSchema, y1: FractionSchema })
+    .refine((r) => r.x0 < r.x1 && r.y0 < r.y1, { message: "Region must have x0 < x1 and y0 < y1" })
+    .optional(),
+  // Printed label of the total, e.g. "Marks Obtained"; tried before the common labels.
+  totalLabel: z.string().trim().min(1).max(60).optional(),
+  // Maximum marks, for boxes that show only the obtained marks.
+  outOf: z.number().positive().max(1000).optional()
+});
+export type MarksTemplate = z.infer<typeof MarksTemplateSchema>;
+
+export type LayoutReading = { obtained: number; outOf: number | null; raw: string; ocrConfidence: number };
+export type QuestionMarks = { questionId: string; marks: number; outOf: number | null };
+
+export type MarksLayout = {
+  // The value next to (right of or below) a total label.
+  total: LayoutReading | null;
+  // The value next to a "Max. Marks" label.
+  maxMarks: number | null;
+  // A Q1..Qn table, in either orientation: labels in a header row with marks below, or one question per row.
+  questions: QuestionMarks[];
+  // A number written much larger than the printed text, which is how circled totals usually come out of OCR.
+  prominent: LayoutReading | null;
+  // Text inside the template region, line by line; empty without a region.
+  regionText: string;
+};
+
+// Longer labels first, so "Total Marks" wins over "Marks".
+const DEFAULT_TOTAL_LABELS = ["grand total", "total marks", "marks obtained", "total score", "total", "marks", "score"];
+const MAX_MARKS_LABELS = ["maximum marks", "max marks", "full marks"];
+
+// Numbers on these lines are roll numbers, dates and other identifiers, not marks.
+const NON_MARKS_LINE = /\b(roll|date|dob|class|std|section|sec|div|adm(?:ission)?|reg(?:istration)?|seat|year)\b/i;
+const DATE_LIKE = /\b\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}\b/;
+
+export function isIdentifierLine(text: string): boolean {
+  return NON_MARKS_LINE.test(text) || DATE_LIKE.test(text);
+}
+
+const QUESTION_LABEL = /^q(?:ue(?:s(?:tion)?)?)?\s*\.?\s*(?:no\.?\s*)?\d{1,2}(?:\s*\(?[a-z]\)?)?$/i;
+const QUESTION_HEADER = /\b(?:q(?:ue(?:s(?:tion)?)?)?\.?\s*no\b|questions?\b|qns?\b)/i;
+const MAX_ROW_LABEL = /^(?:max(?:imum)?|full|out)\b/i;
+const VALUE = /^\(?(\d{1,3}(?:\.\d{1,2})?)\)?(?:\s*(?:\/|out of)\s*(\d{1,3}))?$/i;
+
+type Cell = { text: string; key: string; confidence: number; bbox: BoundingBox; line: number; index: number };
+
+export function readMarksLayout(
+  lines: OcrLine[],
+  template: MarksTemplate = {},
+  extraLabels: string[] = []
+): MarksLayout {
+  const page = template.page ?? 1;
+  let cells = toCells(lines.filter((l) => (l.page ?? 1) === page));
+  if (template.region && cells.length) {
+    const box = regionBox(mergeBoxes(cells.map((c) => c.bbox)), template.region);
+    cells = cells.filter((c) => contains(box, c.bbox)).map((c, index) => ({ ...c, index }));
+  }
+
+  const labels = [
+    ...new Set([template.totalLabel, ...extraLabels, ...DEFAULT_TOTAL_LABELS].filter((l): l is string => !!l))
+  ].map((l) => l.toLowerCase());
+  return {
+    total: findLabelled(cells, labels),
+    maxMarks: findLabelled(cells, MAX_MARKS_LABELS, true)?.obtained ?? null,
+    questions: findQuestionTable(cells),
+    prominent: findProminent(cells),
+    regionText: template.region ? joinLines(cells) : ""
+  };
+}
+
+// Words with positions; "Q" "1" written apart is rejoined into one label.
+function toCells(lines: OcrLine[]): Cell[] {
+  const cells: Cell[] = [];
+  lines.forEach((line, lineNo) => {
+    const words = line.words.length ? line.words : [{ text: line.text, confidence: line.confidence, bbox: line.bbox }];
+    for (let i = 0; i < words.length; i++) {
+      let { text, confidence, bbox } = words[i];
+      const next = words[i + 1];
+      if (next && /^q(?:ue(?:s(?:tion)?)?)?\.?$/i.test(text) && /^\d/.test(next.text)) {
+        text = `${text}${next.text}`;
+        confidence = Math.min(confidence, next.confidence);
+        bbox = mergeBoxes([bbox, next.bbox]);
+        i++;
+      }
+      const trimmed = text.trim().replace(/[:=–-]+$/, "");
+      if (!trimmed) continue;
+      cells.push({ text: trimmed, key: keyOf(trimmed), confidence, bbox, line: lineNo, index: cells.length });
+    }
+  });
+  return cells;
+}
+
+function findLabelled(cells: Cell[], labels: string[], maximum = false): LayoutReading | null {
+  for (const label of labels) {
+    const words = label.split(/\s+/).map(keyOf);
+    for (const cell of cells) {
+      const run = cells.slice(cell.index, cell.index + words.length);
+      if (run.length < words.length || run.some((c, i) => c.line !== cell.line || c.key !== words[i])) continue;
+      // "Max. Marks" labels the maximum, not the total.
+      const previous = cells[cell.index - 1];
+      if (!maximum && previous?.line === cell.line && MAX_ROW_LABEL.test(previous.text)) continue;
+
+      const labelCell = { ...cell, bbox: mergeBoxes(run.map((c) => c.bbox)) };
+      if (!maximum && labelsQuestionMarks(cells, labelCell)) continue;
+      const value = valueRight(cells, labelCell) ?? valueBelow(cells, labelCell)?.value ?? null;
+      if (value) return value;
+    }
+  }
+  return null;
+}
+
+// "Marks" heading the marks column of a "Q.No | Marks" table, or starting the marks row under "Q1 Q2 Q3", labels
+// each question's marks; the first of them is not the total.
+function labelsQuestionMarks(cells: Cell[], label: Cell): boolean {
+  const height = heightOf(label);
+  const row = cells.filter((c) => c.index !== label.index && sameRow(c, label));
+  if (QUESTION_HEADER.test(row.map((c) => c.text).join(" "))) return true;
+
+  const below = nearest(
+    cells.filter((c) => c.index !== label.index && sameColumn(c, label) && c.bbox.y0 >= label.bbox.y1 - height * 0.2),
+    (c) => c.bbox.y0 - label.bbox.y1
+  );
+  if (below && cells.some((c) => sameRow(c, below) && QUESTION_LABEL.test(c.text))) return true;
+
+  const right = nearest(
+    row.filter((c) => c.bbox.x0 >= label.bbox.x1 - height * 0.2),
+    (c) => c.bbox.x0 - label.bbox.x1
+  );
+  if (!right) return false;
+  return cells.some(
+    (c) =>
+      c.bbox.y1 <= label.bbox.y0 + height * 0.2 &&
+      QUESTION_LABEL.test(c.text) &&
+      (sameColumn(right, c) || sameColumn(c, right))
+  );
+}
+
+function findQuestionTable(cells: Cell[]): QuestionMarks[] {
+  const byId = new Map<string, QuestionMarks>();
+  for (const cell of cells) {
+    if (!QUESTION_LABEL.test(cell.text)) continue;
+    const questionId = normalizeQuestionId(cell.text);
+    if (byId.has(questionId)) continue;
+    const right = valueRight(cells, cell);
+    const reading = right ? { value: right, outOf: right.outOf } : valueBelow(cells, cell);
+    if (reading) byId.set(questionId, { questionId, marks: reading.value.obtained, outOf: reading.outOf });
+  }
+  // A lone "Q1" with a number next to it is more likely a question than a table.
+  if (byId.size < 2) return [];
+  return [...byId.values()].sort((a, b) => compareQuestionIds(a.questionId, b.questionId));
+}
+
+function findProminent(cells: Cell[]): LayoutReading | null {
+  if (cells.length < 4) return null;
+  const heights = cells.map(heightOf).sort((a, b) => a - b);
+  const median = heights[Math.floor(heights.length / 2)];
+  let best: { cell: Cell; reading: LayoutReading } | null = null;
+  for (const cell of cells) {
+    if (heightOf(cell) < median * 1.8 || excludedLine(cells, cell.line)) continue;
+    const reading = readValue(cells, cell);
+    if (reading && (!best || heightOf(cell) > heightOf(best.cell))) best = { cell, reading };
+  }
+  return best?.reading ?? null;
+}
+
+// The nearest cell to the right on the same row, when it holds a number.
+function valueRight(cells: Cell[], label: Cell): LayoutReading | null {
+  const height = heightOf(label);
+  const next = nearest(
+    cells.filter((c) => c !== label && sameRow(c, label) && c.bbox.x0 >= label.bbox.x1 - height * 0.2),
+    (c) => c.bbox.x0 - label.bbox.x1
+  );
+  if (!next || next.bbox.x0 - label.bbox.x1 > height * 10) return null;
+  return readValue(cells, next);
+}
+
+// The nearest number under the label's column; a "Max. Marks" row in between gives the maximum.
+function valueBelow(cells: Cell[], label: Cell): { value: LayoutReading; outOf: number | null } | null {
+  let outOf: number | null = null;
+  let above = label;
+  for (let row = 0; row < 2; row++) {
+    const height = heightOf(above);
+    const next = nearest(
+      cells.filter((c) => c !== above && sameColumn(c, label) && c.bbox.y0 >= above.bbox.y1 - height * 0.2),
+      (c) => c.bbox.y0 - above.bbox.y1
+    );
+    if (!next || next.bbox.y0 - above.bbox.y1 > height * 3) return null;
+    const value = readValue(cells, next);
+    if (!value) return null;
+    if (!isMaxRow(cells, next)) return { value, outOf: value.outOf ?? outOf };
+    outOf = value.obtained;
+    above = next;
+  }
+  return null;
+}
+
+// A number, possibly followed by "/ 30" or "out of 30" in the next cells of the line.
+function readValue(cells: Cell[], cell: Cell): LayoutReading | null {
+  const run = [cell];
+  for (const next of cells.slice(cell.index + 1, cell.index + 4)) {
+    if (next.line !== cell.line) break;
+    run.push(next);
+  }
+  for (let n = run.length; n >= 1; n--) {
+    const raw = run
+      .slice(0, n)
+      .map((c) => c.text)
+      .join(" ");
+    const m = VALUE.exec(raw.replace(/\s*\/\s*/, "/"));
+    if (!m) continue;
+    const obtained = Number(m[1]);
+    const outOf = m[2] ? Number(m[2]) : null;
+    if (outOf !== null && (outOf <= 0 || obtained > outOf)) return null;
+    const confidence = Math.min(...run.slice(0, n).map((c) => c.confidence));
+    return { obtained, outOf, raw, ocrConfidence: confidence };
+  }
+  return null;
+}
+
+function isMaxRow(cells: Cell[], cell: Cell): boolean {
+  const first = nearest(
+    cells.filter((c) => sameRow(c, cell) && c.bbox.x1 <= cell.bbox.x0),
+    (c) => c.bbox.x0
+  );
+  return !!first && MAX_ROW_LABEL.test(first.text);
+}
+
+function excludedLine(cells: Cell[], line: number): boolean {
+  const text = cells
+    .filter((c) => c.line === line)
+    .map((c) => c.text)
+    .join(" ");
+  return isIdentifierLine(text);
+}
+
+function joinLines(cells: Cell[]): string {
+  const lines = new Map<number, string[]>();
+  for (const cell of cells) lines.set(cell.line, [...(lines.get(cell.line) ?? []), cell.text]);
+  return [...lines.values()].map((words) => words.join(" ")).join("\n");
+}
+
+function regionBox(extent: BoundingBox, region: NonNullable<MarksTemplate["region"]>): BoundingBox {
+  const width = extent.x1 - extent.x0;
+  const height = extent.y1 - extent.y0;
+  return {
+    x0: extent.x0 + region.x0 * width,
+    y0: extent.y0 + region.y0 * height,
+    x1: extent.x0 + region.x1 * width,
+    y1: extent.y0 + region.y1 * height
+  };
+}
+
+function contains(box: BoundingBox, inner: BoundingBox): boolean {
+  const cx = (inner.x0 + inner.x1) / 2;
+  const cy = (inner.y0 + inner.y1) / 2;
+  return cx >= box.x0 && cx <= box.x1 && cy >= box.y0 && cy <= box.y1;
+}
+
+function sameRow(a: Cell, b: Cell): boolean {
+  const overlap = Math.min(a.bbox.y1, b.bbox.y1) - Math.max(a.bbox.y0, b.bbox.y0);
+  return overlap >= Math.min(heightOf(a), heightOf(b)) * 0.5;
+}
+
+// Cell centred under the column, which may be wider or narrower than the label.
+function sameColumn(cell: Cell, label: Cell): boolean {
+  const cx = (cell.bbox.x0 + cell.bbox.x1) / 2;
+  const slack = (label.bbox.x1 - label.bbox.x0) / 2;
+  return cx >= label.bbox.x0 - slack && cx <= label.bbox.x1 + slack;
+}
+
+function nearest(cells: Cell[], distance: (c: Cell) => number): Cell | null {
+  // Punctuation (dotted leaders, table rules) sits between labels and values.
+  const candidates = cells.filter((c) => c.key);
+  if (!candidates.length) return null;
+  return candidates.reduce((best, c) => (distance(c) < distance(best) ? c : best));
+}
+
+function heightOf(cell: Cell): number {
+  return Math.max(1, cell.bbox.y1 - cell.bbox.y0);
+}
+
+function keyOf(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
@@ -0,0 +1,392 @@
+// A small CAS for checking maths answers: parses written expressions and equations ("2(x+1)", "x² − 4 = 0",
+// "√2/2"), reduces polynomials to a normal form and falls back to evaluating both sides at sample points.
+
+export type Expr =
+  | { kind: "num"; value: number; decimals: number }
+  | { kind: "var"; name: string }
+  | { kind: "neg"; arg: Expr }
+  | { kind: "bin"; op: "+" | "-" | "*" | "/" | "^"; left: Expr; right: Expr }
+  | { kind: "call"; fn: MathFunction; arg: Expr };
+
+// One written statement: a lone expression, or a chain of sides joined by "=".
+export type Statement = { sides: Expr[]; text: string };
+
+const FUNCTIONS = {
+  sqrt: Math.sqrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  abs: Math.abs
+};
+type MathFunction = keyof typeof FUNCTIONS;
+const NAMES = [...Object.keys(FUNCTIONS), "pi"].sort((a, b) => b.length - a.length);
+
+// Handwriting and OCR symbols -> ASCII.
+export function normalizeMathText(text: string): string {
+  return text
+    .replace(/[−–—]/g, "-")
+    .replace(/[×·∙⋅]/g, "*")
+    .replace(/÷/g, "/")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/√/g, "sqrt")
+    .replace(/π/g, "pi")
+    .replace(/\*\*/g, "^")
+    // 1,000 is a number; "2, -3" is a list.
+    .replace(/(\d),(?=\d{3}(?!\d))/g, "$1");
+}
+
+export function isMathFunctionName(word: string): boolean {
+  return NAMES.includes(word.toLowerCase());
+}
+
+type Token =
+  | { type: "num"; value: number; decimals: number }
+  | { type: "id"; name: string }
+  | { type: "op"; op: string };
+
+function tokenize(text: string): Token[] | null {
+  const tokens: Token[] = [];
+  const source = normalizeMathText(text);
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const space = /^\s+/.exec(rest);
+    const number = /^(\d+(?:\.\d+)?|\.\d+)/.exec(rest);
+    const letters = /^[A-Za-z]+/.exec(rest);
+    if (space) {
+      i += space[0].length;
+    } else if (number) {
+      tokens.push({ type: "num", value: Number(number[0]), decimals: number[0].split(".")[1]?.length ?? 0 });
+      i += number[0].length;
+    } else if (letters) {
+      // "sinx" is sin(x) and "xy" is x*y: known names first, otherwise one letter per variable.
+      let word = letters[0].toLowerCase();
+      while (word) {
+        const name = NAMES.find((n) => word.startsWith(n)) ?? word[0];
+        tokens.push({ type: "id", name });
+        word = word.slice(name.length);
+      }
+      i += letters[0].length;
+    } else if ("+-*/^()[]{}=%".includes(source[i])) {
+      // Brackets and braces group like parentheses.
+      tokens.push({ type: "op", op: source[i].replace(/[[{]/, "(").replace(/[\]}]/, ")") });
+      i += 1;
+    } else {
+      return null;
+    }
+  }
+  return tokens;
+}
+
+class ParseError extends Error {}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  statement(): Expr[] {
+    const sides = [this.expression()];
+    while (this.isOp("=")) {
+      this.pos++;
+      sides.push(this.expression());
+    }
+    if (this.pos < this.tokens.length) throw new ParseError("unexpected token");
+    return sides;
+  }
+
+  private expression(): Expr {
+    let left = this.term();
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = (this.tokens[this.pos++] as { op: "+" | "-" }).op;
+      left = { kind: "bin", op, left, right: this.term() };
+    }
+    return left;
+  }
+
+  private term(): Expr {
+    let left = this.unary();
+    for (;;) {
+      if (this.isOp("*") || this.isOp("/")) {
+        const op = (this.tokens[this.pos++] as { op: "*" | "/" }).op;
+        left = { kind: "bin", op, left, right: this.unary() };
+      } else if (this.startsOperand()) {
+        // Implicit multiplication: 2x, 2(x+1), (x+1)(x-1)
+        left = { kind: "bin", op: "*", left, right: this.power() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private unary(): Expr {
+    if (this.isOp("-")) {
+      this.pos++;
+      return { kind: "neg", arg: this.unary() };
+    }
+    if (this.isOp("+")) {
+      this.pos++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): Expr {
+    let base = this.primary();
+    while (this.isOp("%")) {
+      this.pos++;
+      base = { kind: "bin", op: "/", left: base, right: { kind: "num", value: 100, decimals: 0 } };
+    }
+    if (!this.isOp("^")) return base;
+    this.pos++;
+    return { kind: "bin", op: "^", left: base, right: this.unary() };
+  }
+
+  private primary(): Expr {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new ParseError("unexpected end");
+    if (token.type === "num") return { kind: "num", value: token.value, decimals: token.decimals };
+    if (token.type === "id") {
+      if (token.name === "pi") return { kind: "num", value: Math.PI, decimals: 0 };
+      if (token.name in FUNCTIONS) return { kind: "call", fn: token.name as MathFunction, arg: this.power() };
+      return { kind: "var", name: token.name };
+    }
+    if (token.op === "(") {
+      const inner = this.expression();
+      if (!this.isOp(")")) throw new ParseError("missing )");
+      this.pos++;
+      return inner;
+    }
+    throw new ParseError(`unexpected ${token.op}`);
+  }
+
+  private isOp(op: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.type === "op" && token.op === op;
+  }
+
+  private startsOperand(): boolean {
+    const token = this.tokens[this.pos];
+    return !!token && (token.type !== "op" || token.op === "(");
+  }
+}
+
+export function parseStatement(text: string): Statement | null {
+  const tokens = tokenize(text);
+  if (!tokens?.length) return null;
+  try {
+    return { sides: new Parser(tokens).statement(), text: text.trim() };
+  } catch (err) {
+    if (err instanceof ParseError) return null;
+    throw err;
+  }
+}
+
+export function evaluate(expr: Expr, vars: Record<string, number>): number {
+  switch (expr.kind) {
+    case "num":
+      return expr.value;
+    case "var":
+      return vars[expr.name] ?? NaN;
+    case "neg":
+      return -evaluate(expr.arg, vars);
+    case "call":
+      return FUNCTIONS[expr.fn](evaluate(expr.arg, vars));
+    case "bin": {
+      const a = evaluate(expr.left, vars);
+      const b = evaluate(expr.right, vars);
+      if (expr.op === "+") return a + b;
+      if (expr.op === "-") return a - b;
+      if (expr.op === "*") return a * b;
+      if (expr.op === "/") return a / b;
+      return a ** b;
+    }
+  }
+}
+
+export function variablesOf(expr: Expr, into = new Set<string>()): Set<string> {
+  if (expr.kind === "var") into.add(expr.name);
+  if (expr.kind === "neg" || expr.kind === "call") variablesOf(expr.arg, into);
+  if (expr.kind === "bin") {
+    variablesOf(expr.left, into);
+    variablesOf(expr.right, into);
+  }
+  return into;
+}
+
+// --- Polynomial normal form ---
+
+// Monomial ("x^2*y") -> coefficient.
+type Poly = Map<string, number>;
+
+function toPoly(expr: Expr): Poly | null {
+  switch (expr.kind) {
+    case "num":
+      return new Map([["", expr.value]]);
+    case "var":
+      return new Map([[expr.name, 1]]);
+    case "neg": {
+      const arg = toPoly(expr.arg);
+      return arg && scale(arg, -1);
+    }
+    case "call": {
+      if (variablesOf(expr.arg).size) return null;
+      return new Map([["", evaluate(expr, {})]]);
+    }
+    case "bin": {
+      const left = toPoly(expr.left);
+      const right = toPoly(expr.right);
+      if (!left || !right) return null;
+      if (expr.op === "+") return add(left, right);
+      if (expr.op === "-") return add(left, scale(right, -1));
+      if (expr.op === "*") return multiply(left, right);
+      const constant = right.size <= 1 && [...right.keys()].every((k) => k === "") ? (right.get("") ?? 0) : null;
+      if (constant === null) return null;
+      if (expr.op === "/") return constant === 0 ? null : scale(left, 1 / constant);
+      // Only whole, small powers expand into polynomials.
+      if (!Number.isInteger(constant) || constant < 0 || constant > 12) return null;
+      let result: Poly = new Map([["", 1]]);
+      for (let i = 0; i < constant; i++) result = multiply(result, left);
+      return result;
+    }
+  }
+}
+
+function add(a: Poly, b: Poly): Poly {
+  const sum = new Map(a);
+  for (const [key, coeff] of b) sum.set(key, (sum.get(key) ?? 0) + coeff);
+  return prune(sum);
+}
+
+function scale(a: Poly, factor: number): Poly {
+  return prune(new Map([...a].map(([key, coeff]) => [key, coeff * factor])));
+}
+
+function multiply(a: Poly, b: Poly): Poly {
+  let product: Poly = new Map();
+  for (const [ka, ca] of a) {
+    for (const [kb, cb] of b) product = add(product, new Map([[multiplyMonomials(ka, kb), ca * cb]]));
+  }
+  return product;
+}
+
+function multiplyMonomials(a: string, b: string): string {
+  const powers = new Map<string, number>();
+  for (const part of [a, b].join("*").split("*").filter(Boolean)) {
+    const [name, power] = part.split("^");
+    powers.set(name, (powers.get(name) ?? 0) + Number(power ?? 1));
+  }
+  return [...powers.entries()]
+    .sort(([x], [y]) => x.localeCompare(y))
+    .map(([name, power]) => (power === 1 ? name : `${name}^${power}`))
+    .join("*");
+}
+
+function prune(poly: Poly): Poly {
+  for (const [key, coeff] of poly) if (Math.abs(coeff) < 1e-12) poly.delete(key);
+  return poly;
+}
+
+function degree(monomial: string): number {
+  return monomial
+    .split("*")
+    .filter(Boolean)
+    .reduce((acc, part) => acc + Number(part.split("^")[1] ?? 1), 0);
+}
+
+// Expanded, like terms collected, highest degree first: "2(x+1)" -> "2x + 2". Null when not a polynomial.
+export function simplify(expr: Expr): string | null {
+  const poly = toPoly(expr);
+  if (!poly) return null;
+  if (!poly.size) return "0";
+  const terms = [...poly.entries()].sort(([a], [b]) => degree(b) - degree(a) || a.localeCompare(b));
+  return terms
+    .map(([monomial, coeff], i) => {
+      const magnitude = formatNumber(Math.abs(coeff));
+      const body = monomial ? `${magnitude === "1" ? "" : magnitude}${monomial.replace(/\*/g, "")}` : magnitude;
+      return i === 0 ? `${coeff < 0 ? "-" : ""}${body}` : `${coeff < 0 ? " - " : " + "}${body}`;
+    })
+    .join("");
+}
+
+export function formatNumber(n: number): string {
+  return String(Number(n.toPrecision(10)));
+}
+
+// --- Equivalence ---
+
+export type Tolerance = { absolute?: number; decimals?: number };
+
+// Equal numbers: within an absolute tolerance when given, otherwise within rounding of the digits written
+// (3.14 for pi), otherwise to one part in a million.
+export function numbersClose(given: number, expected: number, tolerance: Tolerance = {}): boolean {
+  if (!Number.isFinite(given) || !Number.isFinite(expected)) return false;
+  const diff = Math.abs(given - expected);
+  if (tolerance.absolute !== undefined) return diff <= tolerance.absolute + 1e-12;
+  if ((tolerance.decimals ?? 0) >= 2 && diff <= 0.5 * 10 ** -(tolerance.decimals ?? 0) + 1e-12) return true;
+  return diff <= 1e-6 * Math.max(1, Math.abs(expected));
+}
+
+export function expressionsEquivalent(given: Expr, expected: Expr, tolerance: Tolerance = {}): boolean {
+  const vars = new Set([...variablesOf(given), ...variablesOf(expected)]);
+  if (!vars.size) {
+    return numbersClose(evaluate(given, {}), evaluate(expected, {}), {
+      ...tolerance,
+      decimals: tolerance.decimals ?? (given.kind === "num" ? given.decimals : 0)
+    });
+  }
+  const a = toPoly(given);
+  const b = toPoly(expected);
+  if (a && b) return add(a, scale(b, -1)).size === 0 || coefficientsClose(a, b);
+  return agreeAtSamples([given], [expected], vars, (x, y) => numbersClose(x, y));
+}
+
+function coefficientsClose(a: Poly, b: Poly): boolean {
+  const keys = new Set([...a.keys(), ...b.keys()]);
+  return [...keys].every((k) => numbersClose(a.get(k) ?? 0, b.get(k) ?? 0));
+}
+
+// Same equation up to rearranging and scaling: 2x + 2 = 10, x + 1 = 5 and x = 4 all agree.
+export function equationsEquivalent(given: [Expr, Expr], expected: [Expr, Expr]): boolean {
+  const gDiff: Expr = { kind: "bin", op: "-", left: given[0], right: given[1] };
+  const eDiff: Expr = { kind: "bin", op: "-", left: expected[0], right: expected[1] };
+  const vars = new Set([...variablesOf(gDiff), ...variablesOf(eDiff)]);
+  if (!vars.size) return false;
+  let ratio: number | null = null;
+  return agreeAtSamples([gDiff], [eDiff], vars, (g, e) => {
+    if (Math.abs(e) < 1e-9 || Math.abs(g) < 1e-9) return Math.abs(e) < 1e-9 && Math.abs(g) < 1e-9;
+    ratio ??= g / e;
+    return numbersClose(g / e, ratio);
+  });
+}
+
+const SAMPLE_POINTS = 8;
+
+// Deterministic pseudo-random points (positive, so sqrt and log stay defined); needs 3 points where both sides
+// evaluate to finite numbers.
+function agreeAtSamples(
+  given: Expr[],
+  expected: Expr[],
+  vars: Set<string>,
+  same: (given: number, expected: number) => boolean
+): boolean {
+  let seed = 12345;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+  let checked = 0;
+  for (let i = 0; i < SAMPLE_POINTS * 3 && checked < SAMPLE_POINTS; i++) {
+    const point = Object.fromEntries([...vars].map((v) => [v, 0.5 + random() * 3]));
+    const g = given.map((e) => evaluate(e, point));
+    const e = expected.map((x) => evaluate(x, point));
+    if (![...g, ...e].every(Number.isFinite)) continue;
+    if (!g.every((value, j) => same(value, e[j]))) return false;
+    checked++;
+  }
+  return checked >= 3;
+}
@@ -0,0 +1,38 @@
+// What the OCR output is for. Providers may tune character sets, layout analysis and languages per profile.
+export type OcrProfile = "score" | "prose" | "math";
+
+// Pixel coordinates in the recognized image (top-left origin).
+export type BoundingBox = { x0: number; y0: number; x1: number; y1: number };
+
+// Confidences are normalized to 0..1 across providers.
+export type OcrWord = { text: string; confidence: number; bbox: BoundingBox };
+
+// `page` is set once pages are stitched together (1-based, same numbering as the page markers).
+export type OcrLine = { text: string; confidence: number; bbox: BoundingBox; words: OcrWord[]; page?: number };
+
+export type OcrResult = { text: string; confidence: number | null; lines: OcrLine[] };
+
+export type OcrProvider = {
+  name: string;
+  // `source` is the image as uploaded (or the rendered page), before preprocessing.
+  recognize(image: Buffer, options: { profile: OcrProfile; source: Buffer }): Promise<OcrResult>;
+  // Shown when a page comes back empty.
+  emptyTextHint?: string;
+};
+
+export function mergeBoxes(boxes: BoundingBox[]): BoundingBox {
+  if (!boxes.length) return { x0: 0, y0: 0, x1: 0, y1: 0 };
+  return {
+    x0: Math.min(...boxes.map((b) => b.x0)),
+    y0: Math.min(...boxes.map((b) => b.y0)),
+    x1: Math.max(...boxes.map((b) => b.x1)),
+    y1: Math.max(...boxes.map((b) => b.y1))
+  };
+}
+
+// Word-weighted mean confidence; null when there is nothing to average.
+export function meanConfidence(lines: OcrLine[]): number | null {
+  const words = lines.flatMap((l) => (l.words.length ? l.words : [{ confidence: l.confidence }]));
+  if (!words.length) return null;
+  return words.reduce((sum, w) => sum + w.confidence, 0) / words.length;
+}
@@ -0,0 +1,63 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+import { meanConfidence, type OcrLine, type OcrProvider, type OcrResult } from "./ocr.js";
+
+// Synthetic layout for text fixtures: one line per row, fixed glyph size.
+const LINE_HEIGHT = 40;
+const CHAR_WIDTH = 12;
+
+// Deterministic provider for running the pipeline offline (OCR_PROVIDER=fixture).
+// Looks up <OCR_FIXTURE_DIR>/<sha256 of the uploaded file>.json (an OcrResult) or .txt, hashed before preprocessing so
+// the lookup doesn't depend on PREPROCESS_STEPS; otherwise reads the upload as UTF-8 text.
+export const fixtureOcrProvider: OcrProvider = {
+  name: "fixture",
+  recognize: (_image, { source }) => recognizeFixture(source),
+  emptyTextHint: "Fixture OCR returned empty text. Add <sha256>.json or .txt to OCR_FIXTURE_DIR for this image."
+};
+
+async function recognizeFixture(image: Buffer): Promise<OcrResult> {
+  const dir = process.env.OCR_FIXTURE_DIR;
+  if (dir) {
+    const hash = createHash("sha256").update(image).digest("hex");
+    const json = await readIfExists(path.join(dir, `${hash}.json`));
+    if (json !== null) return JSON.parse(json) as OcrResult;
+    const txt = await readIfExists(path.join(dir, `${hash}.txt`));
+    if (txt !== null) return fromText(txt);
+  }
+  return fromText(looksLikeText(image) ? image.toString("utf8") : "");
+}
+
+function fromText(text: string): OcrResult {
+  const lines: OcrLine[] = [];
+  text.split(/\r?\n/).forEach((row, i) => {
+    const y0 = i * LINE_HEIGHT;
+    const words: OcrLine["words"] = [];
+    for (const m of row.matchAll(/\S+/g)) {
+      const x0 = (m.index ?? 0) * CHAR_WIDTH;
+      words.push({ text: m[0], confidence: 1, bbox: { x0, y0, x1: x0 + m[0].length * CHAR_WIDTH, y1: y0 + LINE_HEIGHT } });
+    }
+    if (!words.length) return;
+    lines.push({
+      text: row.trim(),
+      confidence: 1,
+      bbox: { x0: words[0].bbox.x0, y0, x1: words[words.length - 1].bbox.x1, y1: y0 + LINE_HEIGHT },
+      words
+    });
+  });
+  return { text, confidence: meanConfidence(lines), lines };
+}
+
+// Binary images (PNG/JPEG) contain NUL bytes; plain-text fixtures do not.
+function looksLikeText(buffer: Buffer): boolean {
+  return !buffer.subarray(0, 4096).includes(0);
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch {
+    return null;
+  }
+}
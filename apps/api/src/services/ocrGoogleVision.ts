@@ -1,10 +1,62 @@
 import vision from "@google-cloud/vision";
 
-export async function extractTextWithGoogleVision(fileBytes: Buffer): Promise<string> {
+import { mergeBoxes, meanConfidence, type BoundingBox, type OcrLine, type OcrProvider, type OcrResult } from "./ocr.js";
+
+type Vertex = { x?: number | null; y?: number | null };
+
+export const googleVisionOcrProvider: OcrProvider = {
+  name: "google_vision",
+  // Document text detection handles prose, maths and marks alike; the profile is not needed here.
+  recognize: (image) => extractTextWithGoogleVision(image),
+  emptyTextHint: "OCR produced empty text. For handwriting, ensure the photo is sharp and well-lit."
+};
+
+async function extractTextWithGoogleVision(fileBytes: Buffer): Promise<OcrResult> {
   // Requires GOOGLE_APPLICATION_CREDENTIALS env var to point to a service account JSON.
   const client = new vision.ImageAnnotatorClient();
   const [result] = await client.documentTextDetection({ image: { content: fileBytes } });
-  const text = result.fullTextAnnotation?.text || "";
-  return text;
+  const annotation = result.fullTextAnnotation;
+
+  // Vision has no line level: words are grouped into lines at detected line breaks.
+  const lines: OcrLine[] = [];
+  for (const page of annotation?.pages ?? []) {
+    for (const block of page.blocks ?? []) {
+      for (const paragraph of block.paragraphs ?? []) {
+        let current: OcrLine["words"] = [];
+        for (const word of paragraph.words ?? []) {
+          const symbols = word.symbols ?? [];
+          current.push({
+            text: symbols.map((s) => s.text ?? "").join(""),
+            confidence: word.confidence ?? 0,
+            bbox: toBox(word.boundingBox?.vertices ?? [])
+          });
+          const breakType = String(symbols[symbols.length - 1]?.property?.detectedBreak?.type ?? "");
+          if (breakType === "LINE_BREAK" || breakType === "EOL_SURE_SPACE") {
+            lines.push(toLine(current));
+            current = [];
+          }
+        }
+        if (current.length) lines.push(toLine(current));
+      }
+    }
+  }
+
+  const text = annotation?.text || "";
+  return { text, confidence: text.trim() ? meanConfidence(lines) : null, lines };
+}
+
+function toLine(words: OcrLine["words"]): OcrLine {
+  return {
+    text: words.map((w) => w.text).join(" "),
+    confidence: words.reduce((sum, w) => sum + w.confidence, 0) / words.length,
+    bbox: mergeBoxes(words.map((w) => w.bbox)),
+    words
+  };
 }
 
+function toBox(vertices: Vertex[]): BoundingBox {
+  const xs = vertices.map((v) => v.x ?? 0);
+  const ys = vertices.map((v) => v.y ?? 0);
+  if (!xs.length) return { x0: 0, y0: 0, x1: 0, y1: 0 };
+  return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) };
+}
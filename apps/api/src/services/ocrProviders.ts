@@ -0,0 +1,28 @@
+import type { OcrProvider } from "./ocr.js";
+import { fixtureOcrProvider } from "./ocrFixture.js";
+import { googleVisionOcrProvider } from "./ocrGoogleVision.js";
+import { tesseractOcrProvider } from "./ocrTesseract.js";
+
+// Registry of OCR backends selectable via OCR_PROVIDER. Register custom providers at startup.
+const providers = new Map<string, OcrProvider>();
+
+export function registerOcrProvider(provider: OcrProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getOcrProvider(name: string): OcrProvider | null {
+  return providers.get(name) ?? null;
+}
+
+export function listOcrProviders(): string[] {
+  return [...providers.keys()];
+}
+
+// The provider selected by OCR_PROVIDER, or null for "pdf_text" (embedded PDF text only) and unknown names.
+export function getConfiguredOcrProvider(): OcrProvider | null {
+  return getOcrProvider(process.env.OCR_PROVIDER || "pdf_text");
+}
+
+registerOcrProvider(tesseractOcrProvider);
+registerOcrProvider(googleVisionOcrProvider);
+registerOcrProvider(fixtureOcrProvider);
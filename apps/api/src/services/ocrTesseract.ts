@@ -1,21 +1,97 @@
-export async function extractTextWithTesseract(fileBytes: Buffer): Promise<string> {
-  // Tesseract.js downloads traineddata on first run unless cached; prefer Google Vision for handwriting.
-  const lang = process.env.TESSERACT_LANG || "eng";
+import type { Worker, WorkerParams } from "tesseract.js";
 
-  const { createWorker } = await import("tesseract.js");
-  // tesseract.js v5 types expose `reinitialize` rather than `initialize`.
-  const worker = await createWorker(lang);
+import type { OcrLine, OcrProfile, OcrProvider, OcrResult } from "./ocr.js";
+
+type TesseractProfile = { lang: () => string; params: Partial<WorkerParams> };
+// tesseract.js is imported lazily, so use the PSM enum's string values.
+type PageSegMode = WorkerParams["tessedit_pageseg_mode"];
+
+const PROFILES: Record<OcrProfile, TesseractProfile> = {
+  // Marks boxes: digits, slash and the letters of labels such as "Q1" and "Total", scattered anywhere on the page.
+  score: {
+    lang: () => process.env.TESSERACT_SCORE_LANG || "eng",
+    params: {
+      tessedit_char_whitelist: "0123456789/.():abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ",
+      tessedit_pageseg_mode: "11" as PageSegMode // SPARSE_TEXT
+    }
+  },
+  // Written answers: full character set, automatic layout analysis.
+  prose: {
+    lang: () => process.env.TESSERACT_LANG || "eng",
+    params: { tessedit_char_whitelist: "", tessedit_pageseg_mode: "3" as PageSegMode } // AUTO
+  },
+  // Worked solutions: one block of text with numbers, variables and operators.
+  math: {
+    lang: () => process.env.TESSERACT_MATH_LANG || process.env.TESSERACT_LANG || "eng",
+    params: {
+      tessedit_char_whitelist:
+        "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ+-*/=()[]{}<>^.,:;%!?'\" √π×÷±≤≥≠°",
+      tessedit_pageseg_mode: "6" as PageSegMode // SINGLE_BLOCK
+    }
+  }
+};
+
+// Workers are expensive to start (traineddata load), so keep one per profile for the life of the process.
+const workers = new Map<OcrProfile, Promise<Worker>>();
+// Recognize calls running on each worker, and workers to terminate when their last call settles.
+const inFlight = new Map<Worker, number>();
+const retired = new Set<Worker>();
+
+export const tesseractOcrProvider: OcrProvider = {
+  name: "tesseract",
+  recognize: (image, { profile }) => recognizeWithTesseract(image, profile),
+  emptyTextHint:
+    "Tesseract returned empty text. This often happens with handwriting, low contrast, or rotated images. " +
+    "Try a clearer photo or use OCR_PROVIDER=google_vision for handwriting."
+};
+
+async function recognizeWithTesseract(fileBytes: Buffer, profile: OcrProfile): Promise<OcrResult> {
+  const pending = getWorker(profile);
+  const worker = await pending;
+  inFlight.set(worker, (inFlight.get(worker) ?? 0) + 1);
   try {
-    await worker.reinitialize(lang);
-    // Focus on marks-like strings: digits and slash.
-    // This improves extraction when the page has lots of text/noise.
-    await (worker as any).setParameters?.({
-      tessedit_char_whitelist: "0123456789/",
-      preserve_interword_spaces: "1"
-    });
-    const { data } = await worker.recognize(fileBytes);
-    return data?.text || "";
+    const { data } = await worker.recognize(fileBytes, {}, { text: true, blocks: true });
+    // Tesseract reports confidences as 0..100.
+    const lines: OcrLine[] = (data.lines ?? []).map((line) => ({
+      text: line.text.trim(),
+      confidence: line.confidence / 100,
+      bbox: line.bbox,
+      words: line.words.map((w) => ({ text: w.text, confidence: w.confidence / 100, bbox: w.bbox }))
+    }));
+    return { text: data?.text || "", confidence: data.text?.trim() ? data.confidence / 100 : null, lines };
+  } catch (err) {
+    // A failed recognize can leave the worker unusable: new calls get a fresh one, and this one is terminated once
+    // the calls already queued on it have settled.
+    if (workers.get(profile) === pending) workers.delete(profile);
+    retired.add(worker);
+    throw err;
   } finally {
-    await worker.terminate();
+    const remaining = (inFlight.get(worker) ?? 1) - 1;
+    if (remaining > 0) {
+      inFlight.set(worker, remaining);
+    } else {
+      inFlight.delete(worker);
+      if (retired.delete(worker)) await worker.terminate().catch(() => undefined);
+    }
   }
 }
+
+function getWorker(profile: OcrProfile): Promise<Worker> {
+  const cached = workers.get(profile);
+  if (cached) return cached;
+
+  const created = createProfileWorker(PROFILES[profile]);
+  workers.set(profile, created);
+  created.catch(() => {
+    if (workers.get(profile) === created) workers.delete(profile);
+  });
+  return created;
+}
+
+async function createProfileWorker(profile: TesseractProfile): Promise<Worker> {
+  // Tesseract.js downloads traineddata on first run unless cached; prefer Google Vision for handwriting.
+  const { createWorker } = await import("tesseract.js");
+  const worker = await createWorker(profile.lang());
+  await worker.setParameters({ ...profile.params, preserve_interword_spaces: "1" });
+  return worker;
+}
@@ -0,0 +1,34 @@
+import type { AnswerKey } from "./answerKey.js";
+import type { GeneratedPaper } from "./paperSchema.js";
+import { normalizeQuestionId } from "./questionIds.js";
+
+// Builds a structured answer key (max marks, model answers, rubric points, MCQ options) from a generated paper.
+export function answerKeyFromPaper(paper: GeneratedPaper): AnswerKey {
+  const answers = new Map(paper.answerKey.map((a) => [normalizeQuestionId(a.questionId), a]));
+  const schemes = new Map(paper.markingScheme.map((m) => [normalizeQuestionId(m.questionId), m]));
+
+  return paper.sections.flatMap((section) =>
+    section.questions.map((q) => {
+      const questionId = normalizeQuestionId(q.id);
+      const answer = answers.get(questionId);
+      const scheme = schemes.get(questionId);
+
+      const breakdown = scheme?.marksBreakdown?.filter((b) => b.point.trim() && b.marks > 0) ?? [];
+      const points = scheme?.points.filter((p) => p.trim()) ?? [];
+      const rubric = breakdown.length
+        ? breakdown.map((b, idx) => ({ id: `p${idx + 1}`, description: b.point, marks: b.marks }))
+        : points.map((p, idx) => ({ id: `p${idx + 1}`, description: p, marks: q.marks / points.length }));
+
+      const isMcq = !!q.options?.length && q.correctOptionIndex !== null && q.correctOptionIndex < q.options.length;
+
+      return {
+        questionId,
+        maxMarks: q.marks,
+        modelAnswer: answer?.answer ?? "",
+        rubric: isMcq ? [] : rubric,
+        options: isMcq ? (q.options ?? undefined) : undefined,
+        correctOptionIndex: isMcq ? (q.correctOptionIndex ?? undefined) : undefined
+      };
+    })
+  );
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+import { PipelineError, type PipelineHooks } from "./evaluatePipeline.js";
+import { generatePaper } from "./paperGenerator.js";
+import { buildQuestionPaperPdf, buildSolutionPdf } from "./paperPdf.js";
+import { GeneratedPaperSchema, PaperSpecSchema, type GeneratedPaper, type PaperSpec } from "./paperSchema.js";
+import { persistPaper } from "./persistPaper.js";
+import { resolveRosterLinks, RosterLinksInputSchema, updateExam } from "./roster.js";
+
+// The paper spec plus the class and/or exam it is for; an exam is linked to the generated paper.
+export const PaperRequestSchema = PaperSpecSchema.merge(RosterLinksInputSchema.omit({ studentId: true }));
+export type PaperRequest = z.infer<typeof PaperRequestSchema>;
+
+export type PaperGenerationResult = {
+  paperId: string;
+  createdAtIso: string;
+  classId: string | null;
+  examId: string | null;
+  spec: PaperSpec;
+  paper: GeneratedPaper;
+  paperPdfBase64: string;
+  solutionPdfBase64: string;
+};
+
+export async function runPaperGeneration(
+  request: PaperRequest,
+  hooks: PipelineHooks = {}
+): Promise<PaperGenerationResult> {
+  const { classId, examId, ...spec } = request;
+  // Checked before generating, so a wrong id doesn't cost an LLM call.
+  const { links } = await resolveRosterLinks({ classId, examId });
+
+  hooks.onStage?.("generating");
+  const paper = await generatePaper(spec);
+  hooks.signal?.throwIfAborted();
+
+  hooks.onStage?.("validating");
+  const validated = GeneratedPaperSchema.safeParse(paper);
+  if (!validated.success) {
+    throw new PipelineError("Generated paper validation failed", 500, { details: validated.error.flatten() });
+  }
+
+  const persisted = await persistPaper({ spec, paper: validated.data, links });
+  if (links.examId) await updateExam(links.examId, { paperId: persisted.paperId });
+
+  hooks.onStage?.("rendering_pdf");
+  const paperPdf = await buildQuestionPaperPdf({ paper: validated.data, paperId: persisted.paperId, createdAtIso: persisted.createdAtIso });
+  const solutionPdf = await buildSolutionPdf({ paper: validated.data, paperId: persisted.paperId, createdAtIso: persisted.createdAtIso });
+
+  return {
+    paperId: persisted.paperId,
+    createdAtIso: persisted.createdAtIso,
+    classId: links.classId,
+    examId: links.examId,
+    spec,
+    paper: validated.data,
+    paperPdfBase64: paperPdf.toString("base64"),
+    solutionPdfBase64: solutionPdf.toString("base64")
+  };
+}
@@ -0,0 +1,56 @@
+import { createRequire } from "module";
+import path from "path";
+
+const require = createRequire(import.meta.url);
+
+export type RasterizedPdf = { pages: Buffer[]; totalPages: number };
+
+// pdf.js renders with its own canvas backend (@napi-rs/canvas in Node); use its factory so Path2D etc. match.
+type NodeCanvasFactory = {
+  create(width: number, height: number): {
+    canvas: { width: number; height: number; toBuffer(mime: "image/png"): Buffer };
+    context: CanvasRenderingContext2D;
+  };
+  destroy(canvasAndContext: unknown): void;
+};
+
+// Renders PDF pages to PNG locally so scanned/handwritten PDFs can go through the image OCR providers.
+export async function rasterizePdfPages(pdfBytes: Buffer): Promise<RasterizedPdf> {
+  const dpi = Number(process.env.PDF_OCR_DPI || 200);
+  const maxPages = Number(process.env.PDF_OCR_MAX_PAGES || 30);
+
+  // Loaded lazily: pdf.js is only needed for PDFs without embedded text.
+  const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdfjsRoot = path.dirname(require.resolve("pdfjs-dist/package.json"));
+
+  const doc = await getDocument({
+    data: new Uint8Array(pdfBytes),
+    isEvalSupported: false,
+    standardFontDataUrl: path.join(pdfjsRoot, "standard_fonts") + path.sep
+  }).promise;
+
+  try {
+    const pages: Buffer[] = [];
+    const count = Math.min(doc.numPages, maxPages);
+    const canvasFactory = doc.canvasFactory as NodeCanvasFactory;
+    for (let i = 1; i <= count; i++) {
+      const page = await doc.getPage(i);
+      const viewport = page.getViewport({ scale: dpi / 72 });
+      const target = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      // OCR engines expect a white page; transparent regions otherwise turn black.
+      target.context.fillStyle = "#ffffff";
+      target.context.fillRect(0, 0, target.canvas.width, target.canvas.height);
+      await page.render({
+        canvas: target.canvas as unknown as HTMLCanvasElement,
+        canvasContext: target.context,
+        viewport
+      }).promise;
+      pages.push(target.canvas.toBuffer("image/png"));
+      canvasFactory.destroy(target);
+      page.cleanup();
+    }
+    return { pages, totalPages: doc.numPages };
+  } finally {
+    await doc.destroy();
+  }
+}
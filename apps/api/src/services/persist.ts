@@ -1,37 +1,130 @@
 import { randomUUID } from "crypto";
 
+import type { AnswerSource } from "./extractQaPairs.js";
 import type { Evaluation } from "./gradingSchema.js";
-import { getFirestoreIfConfigured } from "./persistFirebase.js";
+import { gradedRevision, initialReview, type ReviewState, type Revision } from "./review.js";
+import { NO_ROSTER_LINKS, rosterLinksOf, toWhere, type RosterFilter, type RosterLinks } from "./roster.js";
+import { getStorage } from "./storage.js";
 
-export async function maybePersistEvaluation(params: {
+export type EvaluationDoc = RosterLinks & {
+  createdAtIso: string;
   evaluation: Evaluation;
   modelText: string;
   studentText: string;
+  answerSources: AnswerSource[];
+  review: ReviewState;
+  revisions: Revision[];
+  // Set for evaluations produced by /api/evaluate-batch.
+  batch?: { batchId: string; label: string; rollNumber: string | null; studentName: string | null };
+};
+
+export type StoredEvaluation = RosterLinks & {
+  createdAtIso: string;
+  evaluation: Evaluation;
+  answerSources: AnswerSource[];
+  review: ReviewState;
+  revisions: Revision[];
+  batch: EvaluationDoc["batch"] | null;
+};
+
+export async function persistEvaluation(params: {
+  evaluation: Evaluation;
+  modelText: string;
+  studentText: string;
+  answerSources?: AnswerSource[];
+  review?: ReviewState;
+  links?: RosterLinks;
+  batch?: EvaluationDoc["batch"];
 }): Promise<{ evaluationId: string; createdAtIso: string }> {
   const evaluationId = randomUUID();
   const createdAtIso = new Date().toISOString();
 
-  const db = getFirestoreIfConfigured();
-  if (!db) return { evaluationId, createdAtIso };
-
-  await db.collection("evaluations").doc(evaluationId).set({
+  await getStorage().evaluations.save(evaluationId, {
+    ...(params.links ?? NO_ROSTER_LINKS),
     createdAtIso,
     evaluation: params.evaluation,
     modelText: params.modelText,
-    studentText: params.studentText
+    studentText: params.studentText,
+    answerSources: params.answerSources ?? [],
+    review: params.review ?? initialReview([]),
+    revisions: [gradedRevision(params.evaluation, createdAtIso)],
+    ...(params.batch ? { batch: params.batch } : {})
   });
 
   return { evaluationId, createdAtIso };
 }
 
-export async function getEvaluationIfConfigured(
-  evaluationId: string
-): Promise<{ createdAtIso: string; evaluation: Evaluation } | null> {
-  const db = getFirestoreIfConfigured();
-  if (!db) return null;
-  const snap = await db.collection("evaluations").doc(evaluationId).get();
-  if (!snap.exists) return null;
-  const data = snap.data() as any;
-  if (!data?.evaluation || !data?.createdAtIso) return null;
-  return { createdAtIso: String(data.createdAtIso), evaluation: data.evaluation as Evaluation };
+export async function getEvaluation(evaluationId: string): Promise<StoredEvaluation | null> {
+  const doc = await getStorage().evaluations.get(evaluationId);
+  return doc?.evaluation && doc.createdAtIso ? toStoredEvaluation(doc) : null;
+}
+
+export type EvaluationSummary = RosterLinks & {
+  evaluationId: string;
+  createdAtIso: string;
+  totalMarks: number;
+  maxTotalMarks: number;
+  reviewStatus: ReviewState["status"];
+  batch: EvaluationDoc["batch"] | null;
+};
+
+// Newest first; e.g. every evaluation of a student, or of a class in one exam.
+export async function listEvaluations(filter: RosterFilter = {}): Promise<EvaluationSummary[]> {
+  const found = await getStorage().evaluations.list(toWhere(filter));
+  return found
+    .filter(({ doc }) => doc.evaluation && doc.createdAtIso)
+    .map(({ id, doc }) => ({
+      evaluationId: id,
+      createdAtIso: doc.createdAtIso,
+      ...rosterLinksOf(doc),
+      totalMarks: doc.evaluation.totalMarks,
+      maxTotalMarks: doc.evaluation.maxTotalMarks,
+      reviewStatus: doc.review?.status ?? "pending",
+      batch: doc.batch ?? null
+    }))
+    .sort((a, b) => b.createdAtIso.localeCompare(a.createdAtIso));
+}
+
+// Full evaluations (no OCR text) matching the filter, oldest first; for analytics and exports.
+export async function listStoredEvaluations(
+  filter: RosterFilter & { batchId?: string } = {}
+): Promise<Array<StoredEvaluation & { evaluationId: string }>> {
+  const where = toWhere(filter);
+  if (filter.batchId) where["batch.batchId"] = filter.batchId;
+  const found = await getStorage().evaluations.list(where);
+  return found
+    .filter(({ doc }) => doc.evaluation && doc.createdAtIso)
+    .map(({ id, doc }) => ({ evaluationId: id, ...toStoredEvaluation(doc) }))
+    .sort((a, b) => a.createdAtIso.localeCompare(b.createdAtIso));
+}
+
+// Applies `update` atomically, so concurrent reviewers don't overwrite each other's revisions.
+export async function updateEvaluation(
+  evaluationId: string,
+  update: (current: StoredEvaluation) => {
+    evaluation: Evaluation;
+    review: ReviewState;
+    revision: Omit<Revision, "revision">;
+  }
+): Promise<StoredEvaluation | null> {
+  const doc = await getStorage().evaluations.update(evaluationId, (current) => {
+    const stored = toStoredEvaluation(current);
+    const next = update(stored);
+    const revisions = [...stored.revisions, { ...next.revision, revision: stored.revisions.length }];
+    return { ...current, evaluation: next.evaluation, review: next.review, revisions };
+  });
+  return doc ? toStoredEvaluation(doc) : null;
+}
+
+// Evaluations stored before reviews existed start unflagged, with the stored result as revision 0.
+function toStoredEvaluation(doc: EvaluationDoc): StoredEvaluation {
+  return {
+    ...rosterLinksOf(doc),
+    createdAtIso: String(doc.createdAtIso),
+    evaluation: doc.evaluation,
+    answerSources: Array.isArray(doc.answerSources) ? doc.answerSources : [],
+    review: doc.review ?? initialReview([]),
+    revisions: Array.isArray(doc.revisions) ? doc.revisions : [gradedRevision(doc.evaluation, String(doc.createdAtIso))],
+    batch: doc.batch ?? null
+  };
 }
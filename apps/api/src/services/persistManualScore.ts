@@ -1,27 +1,110 @@
 import { randomUUID } from "crypto";
 
-import { getFirestoreIfConfigured } from "./persistFirebase.js";
+import { NO_ROSTER_LINKS, rosterLinksOf, toWhere, type RosterFilter, type RosterLinks } from "./roster.js";
+import { getStorage } from "./storage.js";
 
-export async function maybePersistManualScore(params: {
+// "scan": read from a first page by /api/extract-score; "import": a historical mark from a spreadsheet.
+export type ManualScoreSource = "scan" | "import";
+
+export type ManualScoreDoc = RosterLinks & {
+  createdAtIso: string;
+  source: ManualScoreSource;
+  obtained: number | null;
+  outOf: number | null;
+  confidence: number;
+  ocrText: string;
+  // Per-question marks, when the sheet or the page's marks table has them.
+  questions: Array<{ questionId: string; marks: number }>;
+  updatedAtIso: string | null;
+};
+
+export async function persistManualScore(params: {
   obtained: number | null;
   outOf: number | null;
   confidence: number;
   ocrText: string;
+  questions?: ManualScoreDoc["questions"];
+  links?: RosterLinks;
 }): Promise<{ id: string; createdAtIso: string }> {
   const id = randomUUID();
   const createdAtIso = new Date().toISOString();
 
-  const db = getFirestoreIfConfigured();
-  if (!db) return { id, createdAtIso };
-
-  await db.collection("manual_scores").doc(id).set({
+  await getStorage().manualScores.save(id, {
+    ...(params.links ?? NO_ROSTER_LINKS),
     createdAtIso,
+    source: "scan",
     obtained: params.obtained,
     outOf: params.outOf,
     confidence: params.confidence,
-    ocrText: params.ocrText
+    ocrText: params.ocrText,
+    questions: params.questions ?? [],
+    updatedAtIso: null
   });
 
   return { id, createdAtIso };
 }
 
+// One imported mark per student and exam: importing the sheet again replaces it.
+export async function upsertImportedScore(params: {
+  links: RosterLinks & { studentId: string; examId: string };
+  obtained: number;
+  outOf: number;
+  questions: ManualScoreDoc["questions"];
+}): Promise<{ id: string; created: boolean }> {
+  const id = importedScoreId(params.links.examId, params.links.studentId);
+  const now = new Date().toISOString();
+  const fields = {
+    ...params.links,
+    source: "import" as const,
+    obtained: params.obtained,
+    outOf: params.outOf,
+    confidence: 1,
+    ocrText: "",
+    questions: params.questions
+  };
+
+  const updated = await getStorage().manualScores.update(id, (current) => ({
+    ...current,
+    ...fields,
+    updatedAtIso: now
+  }));
+  if (updated) return { id, created: false };
+  await getStorage().manualScores.save(id, { ...fields, createdAtIso: now, updatedAtIso: null });
+  return { id, created: true };
+}
+
+export function importedScoreId(examId: string, studentId: string) {
+  return `import_${examId}_${studentId}`;
+}
+
+export async function getManualScore(id: string): Promise<ManualScoreDoc | null> {
+  const doc = await getStorage().manualScores.get(id);
+  return doc ? toManualScore(doc) : null;
+}
+
+// Newest first, without the OCR text.
+export async function listManualScores(filter: RosterFilter = {}) {
+  const found = await getStorage().manualScores.list(toWhere(filter));
+  return found
+    .map(({ id, doc }) => ({
+      id,
+      createdAtIso: doc.createdAtIso,
+      ...rosterLinksOf(doc),
+      source: doc.source ?? "scan",
+      obtained: doc.obtained,
+      outOf: doc.outOf,
+      confidence: doc.confidence
+    }))
+    .sort((a, b) => b.createdAtIso.localeCompare(a.createdAtIso));
+}
+
+// Scores stored before imports existed were all scanned.
+function toManualScore(doc: ManualScoreDoc): ManualScoreDoc {
+  return {
+    ...doc,
+    ...rosterLinksOf(doc),
+    source: doc.source ?? "scan",
+    questions: Array.isArray(doc.questions) ? doc.questions : [],
+    updatedAtIso: doc.updatedAtIso ?? null
+  };
+}
@@ -1,19 +1,26 @@
 import { randomUUID } from "crypto";
 
 import type { GeneratedPaper, PaperSpec } from "./paperSchema.js";
-import { getFirestoreIfConfigured } from "./persistFirebase.js";
+import { NO_ROSTER_LINKS, rosterLinksOf, toWhere, type RosterFilter, type RosterLinks } from "./roster.js";
+import { getStorage } from "./storage.js";
 
-export async function maybePersistPaper(params: {
+// Papers belong to a class and/or exam, never to one student.
+export type PaperLinks = Pick<RosterLinks, "schoolId" | "classId" | "examId">;
+export type PaperDoc = PaperLinks & { createdAtIso: string; spec: PaperSpec; paper: GeneratedPaper };
+
+export async function persistPaper(params: {
   spec: PaperSpec;
   paper: GeneratedPaper;
+  links?: PaperLinks;
 }): Promise<{ paperId: string; createdAtIso: string }> {
   const paperId = randomUUID();
   const createdAtIso = new Date().toISOString();
+  const { schoolId, classId, examId } = params.links ?? NO_ROSTER_LINKS;
 
-  const db = getFirestoreIfConfigured();
-  if (!db) return { paperId, createdAtIso };
-
-  await db.collection("papers").doc(paperId).set({
+  await getStorage().papers.save(paperId, {
+    schoolId,
+    classId,
+    examId,
     createdAtIso,
     spec: params.spec,
     paper: params.paper
@@ -22,13 +29,29 @@ export async function maybePersistPaper(params: {
   return { paperId, createdAtIso };
 }
 
-export async function getPaperIfConfigured(paperId: string): Promise<{ createdAtIso: string; spec: PaperSpec; paper: GeneratedPaper } | null> {
-  const db = getFirestoreIfConfigured();
-  if (!db) return null;
-  const snap = await db.collection("papers").doc(paperId).get();
-  if (!snap.exists) return null;
-  const data = snap.data() as any;
-  if (!data?.paper || !data?.spec || !data?.createdAtIso) return null;
-  return { createdAtIso: String(data.createdAtIso), spec: data.spec as PaperSpec, paper: data.paper as GeneratedPaper };
+export async function getPaper(paperId: string): Promise<PaperDoc | null> {
+  const doc = await getStorage().papers.get(paperId);
+  if (!doc?.paper || !doc?.spec || !doc?.createdAtIso) return null;
+  return { ...paperLinksOf(doc), createdAtIso: String(doc.createdAtIso), spec: doc.spec, paper: doc.paper };
 }
 
+// Newest first, without the paper contents (fetch /api/paper/:id for those).
+export async function listPapers(filter: RosterFilter = {}) {
+  const found = await getStorage().papers.list(toWhere(filter, ["schoolId", "classId", "examId"]));
+  return found
+    .filter(({ doc }) => doc.paper && doc.createdAtIso)
+    .map(({ id, doc }) => ({
+      paperId: id,
+      createdAtIso: doc.createdAtIso,
+      ...paperLinksOf(doc),
+      subject: doc.spec.subject,
+      classLevel: doc.spec.classLevel,
+      totalMarks: doc.spec.totalMarks
+    }))
+    .sort((a, b) => b.createdAtIso.localeCompare(a.createdAtIso));
+}
+
+function paperLinksOf(doc: Partial<PaperLinks>): PaperLinks {
+  const { schoolId, classId, examId } = rosterLinksOf(doc);
+  return { schoolId, classId, examId };
+}
@@ -0,0 +1,73 @@
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10 };
+
+// Canonical question ids: "2", "2(b)", "2(b)(ii)". Accepts "Q2", "Question 2", "2b", "2.b", "2 (b) ii", "Q.2(B)".
+export function normalizeQuestionId(id: string): string {
+  const trimmed = id
+    .trim()
+    .replace(/^q(?:ues(?:tion)?)?\s*\.?\s*(?:no\.?\s*)?[.:-]?\s*/i, "")
+    .toLowerCase();
+  const m = /^(\d{1,3})(.*)$/.exec(trimmed);
+  if (!m) return id.trim();
+
+  const parts = [...m[2].matchAll(/[a-z]+/g)].map((p) => p[0]);
+  // Anything beyond sub-part letters/numerals (e.g. "2 apples") is not an id suffix.
+  const isSuffix =
+    !m[2].replace(/[a-z]+/g, "").replace(/[\s().:-]/g, "") && parts.every((p) => /^(?:[a-z]|[ivx]{1,4})$/.test(p));
+  if (!isSuffix) return m[1];
+  return m[1] + parts.map((p) => `(${p})`).join("");
+}
+
+// Splits a canonical id into its levels: "2(b)(ii)" -> ["2", "b", "ii"].
+export function questionIdParts(id: string): string[] {
+  const m = /^([^()]+)((?:\([^()]+\))*)$/.exec(id);
+  if (!m) return [id];
+  return [m[1], ...[...m[2].matchAll(/\(([^()]+)\)/g)].map((p) => p[1])];
+}
+
+export function parentQuestionId(id: string): string | null {
+  const parts = questionIdParts(id);
+  if (parts.length < 2) return null;
+  return parts[0] + parts.slice(1, -1).map((p) => `(${p})`).join("");
+}
+
+// True when `id` is strictly below `ancestor`, e.g. "2(b)(ii)" under "2" or "2(b)".
+export function isDescendantId(id: string, ancestor: string): boolean {
+  return id !== ancestor && id.startsWith(`${ancestor}(`);
+}
+
+// Natural order: 2 < 2(a) < 2(b) < 2(b)(ii) < 10; roman numerals by value.
+export function compareQuestionIds(a: string, b: string): number {
+  const pa = questionIdParts(a);
+  const pb = questionIdParts(b);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    if (pa[i] === undefined) return -1;
+    if (pb[i] === undefined) return 1;
+    const diff = comparePart(pa[i], pb[i]);
+    if (diff) return diff;
+  }
+  return 0;
+}
+
+function comparePart(a: string, b: string): number {
+  const na = partValue(a);
+  const nb = partValue(b);
+  if (na !== null && nb !== null && na !== nb) return na - nb;
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function partValue(part: string): number | null {
+  if (/^\d+$/.test(part)) return Number(part);
+  if (/^[ivx]{2,}$/.test(part)) return romanToNumber(part);
+  return null;
+}
+
+export function romanToNumber(roman: string): number | null {
+  let total = 0;
+  for (let i = 0; i < roman.length; i++) {
+    const value = ROMAN_VALUES[roman[i]];
+    if (!value) return null;
+    const next = ROMAN_VALUES[roman[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
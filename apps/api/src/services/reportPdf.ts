@@ -1,10 +1,17 @@
 import PDFDocument from "pdfkit";
 
+import type { BatchStudentResult, BatchSummary } from "./batchSummary.js";
+import type { AnswerSource } from "./extractQaPairs.js";
 import type { Evaluation } from "./gradingSchema.js";
+import { unresolvedFlags, type ReviewState } from "./review.js";
 
 export async function buildPdfReport(params: {
   evaluation: Evaluation;
+  answerSources?: AnswerSource[];
   meta: { evaluationId: string; createdAtIso: string };
+  review?: ReviewState;
+  // Latest revision number; 0 is the grader's result.
+  revision?: number;
 }): Promise<Buffer> {
   const doc = new PDFDocument({ margin: 48 });
   const chunks: Buffer[] = [];
@@ -15,20 +22,118 @@ export async function buildPdfReport(params: {
   doc.moveDown(0.5);
   doc.fontSize(10).fillColor("#555").text(`Evaluation ID: ${params.meta.evaluationId}`);
   doc.text(`Created: ${params.meta.createdAtIso}`);
+  if (params.review) doc.text(reviewLine(params.review, params.revision ?? 0));
   doc.moveDown();
 
-  doc.fillColor("#000").fontSize(12).text(`Total: ${params.evaluation.totalMarks} / ${params.evaluation.maxTotalMarks}`);
+  writeEvaluation(doc, params.evaluation, params.answerSources, params.review);
+
+  doc.end();
+
+  await new Promise<void>((resolve) => doc.on("end", () => resolve()));
+  return Buffer.concat(chunks);
+}
+
+// One PDF for a whole class: summary page first, then one report per student.
+export async function buildBatchPdfReport(params: {
+  summary: BatchSummary;
+  students: BatchStudentResult[];
+  meta: { batchId: string; createdAtIso: string };
+}): Promise<Buffer> {
+  const doc = new PDFDocument({ margin: 48 });
+  const chunks: Buffer[] = [];
+
+  doc.on("data", (c) => chunks.push(c as Buffer));
+
+  const { summary } = params;
+  doc.fontSize(18).text("AI Copy Checking - Class Report", { align: "left" });
+  doc.moveDown(0.5);
+  doc.fontSize(10).fillColor("#555").text(`Batch ID: ${params.meta.batchId}`);
+  doc.text(`Created: ${params.meta.createdAtIso}`);
+  doc.moveDown();
+
+  doc.fillColor("#000").fontSize(12).text(`Students: ${summary.students} (graded ${summary.graded}, failed ${summary.failed})`);
+  if (summary.averageTotal !== null) {
+    doc.text(
+      `Average: ${summary.averageTotal} / ${summary.maxTotalMarks}    Highest: ${summary.highestTotal}    Lowest: ${summary.lowestTotal}`
+    );
+  }
+  doc.moveDown();
+
+  doc.fontSize(12).text("Per Student:");
+  doc.fontSize(10).fillColor("#333");
+  for (const t of summary.totals) doc.text(`${t.label}: ${t.totalMarks} / ${t.maxTotalMarks} (${t.percentage}%)`);
+  doc.moveDown();
+
+  doc.fillColor("#000").fontSize(12).text("Per Question Average:");
+  doc.fontSize(10).fillColor("#333");
+  for (const q of summary.questions) doc.text(`Q${q.questionId}: ${q.averageMarks} / ${q.maxMarks} (${q.averagePercentage}%)`);
+  doc.moveDown();
+
+  doc.fillColor("#000").fontSize(12).text("Common Weak Areas:");
+  doc.fontSize(10).fillColor("#333").text(
+    summary.commonWeakAreas.length
+      ? summary.commonWeakAreas.map((w) => `${w.area} (${w.students})`).join(", ")
+      : "None detected"
+  );
+
+  for (const student of params.students) {
+    doc.addPage();
+    doc.fillColor("#000").fontSize(16).text(student.label);
+    doc.fontSize(10).fillColor("#555");
+    if (student.rollNumber) doc.text(`Roll number: ${student.rollNumber}`);
+    if (student.name) doc.text(`Name: ${student.name}`);
+    if (student.evaluationId) doc.text(`Evaluation ID: ${student.evaluationId}`);
+    doc.moveDown();
+
+    if (student.evaluation) {
+      writeEvaluation(doc, student.evaluation);
+    } else {
+      doc.fillColor("#a00").fontSize(11).text(`Not graded: ${student.error || "unknown error"}`);
+    }
+  }
+
+  doc.end();
+
+  await new Promise<void>((resolve) => doc.on("end", () => resolve()));
+  return Buffer.concat(chunks);
+}
+
+function reviewLine(review: ReviewState, revision: number): string {
+  const edited = revision ? `, revision ${revision}` : "";
+  if (review.status === "reviewed") return `Reviewed by ${review.reviewedBy} on ${review.reviewedAtIso}${edited}`;
+  const open = unresolvedFlags(review).length;
+  return `Not yet reviewed${open ? ` (${open} question${open === 1 ? "" : "s"} flagged)` : ""}${edited}`;
+}
+
+function writeEvaluation(
+  doc: PDFKit.PDFDocument,
+  evaluation: Evaluation,
+  answerSources: AnswerSource[] = [],
+  review?: ReviewState
+) {
+  const sources = new Map(answerSources.map((s) => [s.questionId, s]));
+  const flags = new Map((review ? unresolvedFlags(review) : []).map((f) => [f.questionId, f]));
+  doc.fillColor("#000").fontSize(12).text(`Total: ${evaluation.totalMarks} / ${evaluation.maxTotalMarks}`);
   doc.moveDown();
 
   doc.fontSize(12).text("Weak Areas:");
-  doc.fontSize(10).fillColor("#333").text(params.evaluation.weakAreas.length ? params.evaluation.weakAreas.join(", ") : "None detected");
+  doc.fontSize(10).fillColor("#333").text(evaluation.weakAreas.length ? evaluation.weakAreas.join(", ") : "None detected");
   doc.moveDown();
 
   doc.fillColor("#000").fontSize(12).text("Per Question:");
   doc.moveDown(0.5);
-  for (const q of params.evaluation.questions) {
+  for (const q of evaluation.questions) {
     doc.fontSize(11).fillColor("#000").text(`Q${q.questionId}: ${q.marksAwarded} / ${q.maxMarks}`);
+    const source = sources.get(q.questionId);
+    if (source) {
+      doc.fontSize(9).fillColor("#666").text(`Answer on page ${source.pages.join(", ")} (${source.files.join(", ")})`);
+    }
+    const flag = flags.get(q.questionId);
+    if (flag) doc.fontSize(9).fillColor("#a60").text(`Needs review: ${flag.reasons.join("; ")}`);
     doc.fontSize(10).fillColor("#333").text(q.feedback);
+    if (q.awardedRubricPoints.length) {
+      doc.fontSize(9).fillColor("#666").text("Rubric points awarded: " + q.awardedRubricPoints.join(", "));
+    }
     if (q.deductions.length) {
       doc.fontSize(9).fillColor("#666").text(
         "Deductions: " + q.deductions.map((d) => `${d.marks}: ${d.reason}`).join(" | ")
@@ -36,10 +141,4 @@ export async function buildPdfReport(params: {
     }
     doc.moveDown(0.75);
   }
-
-  doc.end();
-
-  await new Promise<void>((resolve) => doc.on("end", () => resolve()));
-  return Buffer.concat(chunks);
 }
-
@@ -0,0 +1,222 @@
+import { z } from "zod";
+
+import type { AlignmentEntry } from "./alignment.js";
+import type { AnswerSource } from "./extractQaPairs.js";
+import type { Evaluation, QuestionResult } from "./gradingSchema.js";
+import { normalizeQuestionId } from "./questionIds.js";
+
+export type ReviewFlag = { questionId: string; reasons: string[]; resolved: boolean };
+
+// Flagged questions must be confirmed or edited before the evaluation can be marked reviewed.
+export type ReviewState = {
+  status: "pending" | "reviewed";
+  flags: ReviewFlag[];
+  reviewedBy: string | null;
+  reviewedAtIso: string | null;
+};
+
+// One entry per save; `evaluation` is the result after the change. Revision 0 is the grader's output.
+export type Revision = {
+  revision: number;
+  editedBy: string;
+  editedAtIso: string;
+  note: string | null;
+  changes: string[];
+  evaluation: Evaluation;
+};
+
+const DeductionSchema = z.object({ reason: z.string().trim().min(1).max(500), marks: z.number().min(0).max(100) });
+
+const QuestionEditSchema = z.object({
+  questionId: z.string().min(1).transform(normalizeQuestionId),
+  marksAwarded: z.number().min(0).max(100).optional(),
+  feedback: z.string().max(5000).optional(),
+  // Replaces the deductions; addDeductions / removeDeductions (indexes into the current list) edit them instead.
+  deductions: z.array(DeductionSchema).optional(),
+  addDeductions: z.array(DeductionSchema).optional(),
+  removeDeductions: z.array(z.number().int().min(0)).optional(),
+  // Accepts the grader's result for a flagged question as is.
+  confirm: z.boolean().optional()
+});
+
+export const EvaluationEditSchema = z.object({
+  editedBy: z.string().trim().min(1).max(100),
+  note: z.string().trim().max(1000).optional(),
+  questions: z.array(QuestionEditSchema).default([]),
+  overallFeedback: z.string().max(5000).optional(),
+  // true marks the evaluation reviewed (after the edits above); false reopens it.
+  reviewed: z.boolean().optional()
+});
+export type EvaluationEdit = z.infer<typeof EvaluationEditSchema>;
+
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+// Questions a teacher has to look at: low grader confidence, hard-to-read answers and renumbered answers.
+export function flagForReview(params: {
+  evaluation: Evaluation;
+  answerSources?: AnswerSource[];
+  alignment?: AlignmentEntry[];
+}): ReviewFlag[] {
+  const minConfidence = Number(process.env.REVIEW_CONFIDENCE || 0.7);
+  const minOcrConfidence = Number(process.env.OCR_LOW_CONFIDENCE || 0.6);
+  const sources = new Map((params.answerSources ?? []).map((s) => [s.questionId, s]));
+
+  const flags: ReviewFlag[] = [];
+  for (const q of params.evaluation.questions) {
+    const reasons: string[] = [];
+    const confidence = q.confidence ?? params.evaluation.confidence;
+    if (q.ungraded) reasons.push("Not graded: the grader returned no result for this question");
+    else if (confidence < minConfidence) reasons.push(`Grader confidence ${percent(confidence)}`);
+    if (q.consistency?.disagreement) {
+      const marks = q.consistency.samples.map((sample) => sample.marksAwarded).join(", ");
+      reasons.push(`Grading samples disagree: ${marks} out of ${q.maxMarks}`);
+    }
+
+    const ocrConfidence = sources.get(q.questionId)?.ocrConfidence;
+    if (ocrConfidence != null && ocrConfidence < minOcrConfidence) {
+      reasons.push(`Answer read with ${percent(ocrConfidence)} OCR confidence`);
+    }
+
+    for (const e of params.alignment ?? []) {
+      if (e.questionId !== q.questionId || (e.method !== "content" && e.method !== "llm")) continue;
+      const method = e.method === "llm" ? "LLM" : "content";
+      reasons.push(`Student answer ${e.studentQuestionId} was matched to this question by ${method}`);
+    }
+
+    if (reasons.length) flags.push({ questionId: q.questionId, reasons, resolved: false });
+  }
+  return flags;
+}
+
+export function initialReview(flags: ReviewFlag[]): ReviewState {
+  return { status: "pending", flags, reviewedBy: null, reviewedAtIso: null };
+}
+
+export function gradedRevision(evaluation: Evaluation, gradedAtIso: string): Revision {
+  return { revision: 0, editedBy: "grader", editedAtIso: gradedAtIso, note: null, changes: ["Graded"], evaluation };
+}
+
+export function unresolvedFlags(review: ReviewState): ReviewFlag[] {
+  return review.flags.filter((f) => !f.resolved);
+}
+
+// Applies a teacher's edit; totals are recomputed and touched questions' flags are resolved.
+export function applyEvaluationEdit(
+  current: { evaluation: Evaluation; review: ReviewState },
+  edit: EvaluationEdit,
+  editedAtIso = new Date().toISOString()
+): { evaluation: Evaluation; review: ReviewState; revision: Omit<Revision, "revision"> } {
+  const changes: string[] = [];
+  const touched = new Set<string>();
+  const questions = current.evaluation.questions.map((q) => ({ ...q, deductions: [...q.deductions] }));
+
+  for (const qe of edit.questions) {
+    const q = questions.find((x) => x.questionId === qe.questionId);
+    if (!q) throw new ReviewError(`Unknown question: ${qe.questionId}`, 400);
+    const questionChanges = editQuestion(q, qe);
+    changes.push(...questionChanges);
+    if (questionChanges.length) touched.add(q.questionId);
+  }
+
+  let overallFeedback = current.evaluation.overallFeedback;
+  if (edit.overallFeedback !== undefined && edit.overallFeedback !== overallFeedback) {
+    overallFeedback = edit.overallFeedback;
+    changes.push("Overall feedback edited");
+  }
+
+  const flags = current.review.flags.map((f) => (touched.has(f.questionId) ? { ...f, resolved: true } : f));
+  let review: ReviewState = { ...current.review, flags };
+  // A reviewed evaluation that changes needs reviewing again.
+  if (review.status === "reviewed" && changes.length) {
+    review = { ...review, status: "pending", reviewedBy: null, reviewedAtIso: null };
+  }
+
+  if (edit.reviewed === true && review.status !== "reviewed") {
+    const open = unresolvedFlags(review);
+    if (open.length) {
+      throw new ReviewError(
+        `Confirm or edit the flagged questions before marking the evaluation reviewed: ` +
+          open.map((f) => `Q${f.questionId}`).join(", "),
+        409,
+        { flags: open }
+      );
+    }
+    review = { ...review, status: "reviewed", reviewedBy: edit.editedBy, reviewedAtIso: editedAtIso };
+    changes.push("Marked reviewed");
+  } else if (edit.reviewed === false && review.status === "reviewed") {
+    review = { ...review, status: "pending", reviewedBy: null, reviewedAtIso: null };
+    changes.push("Review reopened");
+  }
+
+  if (!changes.length) throw new ReviewError("Nothing to change", 400);
+
+  // Edits never change a question's max marks, so the denominator (a paper's total, say) stays as graded.
+  const evaluation: Evaluation = {
+    ...current.evaluation,
+    overallFeedback,
+    totalMarks: Math.min(
+      questions.reduce((acc, q) => acc + q.marksAwarded, 0),
+      current.evaluation.maxTotalMarks
+    ),
+    questions
+  };
+  return {
+    evaluation,
+    review,
+    revision: { editedBy: edit.editedBy, editedAtIso, note: edit.note || null, changes, evaluation }
+  };
+}
+
+function editQuestion(q: QuestionResult, qe: EvaluationEdit["questions"][number]): string[] {
+  const changes: string[] = [];
+  const label = `Q${q.questionId}`;
+
+  if (qe.marksAwarded !== undefined && qe.marksAwarded !== q.marksAwarded) {
+    if (qe.marksAwarded > q.maxMarks) {
+      throw new ReviewError(`${label}: marks ${qe.marksAwarded} exceed the maximum of ${q.maxMarks}`, 400);
+    }
+    changes.push(`${label} marks ${q.marksAwarded} -> ${qe.marksAwarded}`);
+    q.marksAwarded = qe.marksAwarded;
+  }
+
+  if (qe.feedback !== undefined && qe.feedback !== q.feedback) {
+    q.feedback = qe.feedback;
+    changes.push(`${label} feedback edited`);
+  }
+
+  if (qe.deductions && JSON.stringify(qe.deductions) !== JSON.stringify(q.deductions)) {
+    q.deductions = qe.deductions;
+    changes.push(`${label} deductions replaced`);
+  }
+  if (qe.removeDeductions?.length) {
+    const remove = new Set(qe.removeDeductions);
+    for (const index of remove) {
+      const d = q.deductions[index];
+      if (!d) throw new ReviewError(`${label}: no deduction at index ${index}`, 400);
+      changes.push(`${label} deduction removed: ${d.reason} (-${d.marks})`);
+    }
+    q.deductions = q.deductions.filter((_, i) => !remove.has(i));
+  }
+  for (const d of qe.addDeductions ?? []) {
+    q.deductions.push(d);
+    changes.push(`${label} deduction added: ${d.reason} (-${d.marks})`);
+  }
+
+  if (qe.confirm && !changes.length) changes.push(`${label} confirmed`);
+  // The teacher has now graded it.
+  if (changes.length) delete q.ungraded;
+  return changes;
+}
+
+function percent(n: number): string {
+  return `${Math.round(n * 100)}%`;
+}
@@ -0,0 +1,307 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+
+import { AnswerKeySchema, type AnswerKey } from "./answerKey.js";
+import { MarksTemplateSchema, type MarksTemplate } from "./marksLayout.js";
+import { getStorage, type Repository, type Where } from "./storage.js";
+
+// `marksTemplate` tells /api/extract-score where the school's cover pages keep their marks.
+export type SchoolDoc = { createdAtIso: string; name: string; marksTemplate?: MarksTemplate | null };
+// One class-section, e.g. class "8", section "B".
+export type SchoolClassDoc = {
+  createdAtIso: string;
+  schoolId: string;
+  name: string;
+  section: string | null;
+  academicYear: string | null;
+};
+export type StudentDoc = { createdAtIso: string; schoolId: string; classId: string; rollNumber: string; name: string };
+// The answer key (or generated paper) and subject are used when an evaluation names the exam.
+export type ExamDoc = {
+  createdAtIso: string;
+  schoolId: string;
+  classId: string;
+  name: string;
+  subject: string;
+  dateIso: string | null;
+  answerKey: AnswerKey | null;
+  paperId: string | null;
+};
+
+export type RosterEntity<T> = T & { id: string };
+
+export const IdSchema = z.string().trim().min(1).max(128);
+
+export const SchoolInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  marksTemplate: MarksTemplateSchema.nullable().optional()
+});
+export const SchoolPatchSchema = SchoolInputSchema.partial();
+
+export const ClassInputSchema = z.object({
+  schoolId: IdSchema,
+  name: z.string().trim().min(1).max(50),
+  section: z.string().trim().min(1).max(20).optional(),
+  academicYear: z.string().trim().min(1).max(20).optional()
+});
+
+export const StudentInputSchema = z.object({
+  classId: IdSchema,
+  rollNumber: z.coerce.string().trim().min(1).max(50),
+  name: z.string().trim().min(1).max(200)
+});
+export const StudentPatchSchema = StudentInputSchema.partial();
+
+export const ExamInputSchema = z.object({
+  classId: IdSchema,
+  name: z.string().trim().min(1).max(200),
+  subject: z.string().trim().min(1).max(100),
+  dateIso: z.string().date().optional(),
+  answerKey: AnswerKeySchema.optional(),
+  paperId: IdSchema.optional()
+});
+export const ExamPatchSchema = ExamInputSchema.omit({ classId: true }).partial();
+
+// Filters for list endpoints (query string), e.g. ?classId=...&examId=...
+export const RosterFilterSchema = z.object({
+  schoolId: IdSchema.optional(),
+  classId: IdSchema.optional(),
+  studentId: IdSchema.optional(),
+  examId: IdSchema.optional()
+});
+export type RosterFilter = z.infer<typeof RosterFilterSchema>;
+
+// Ids a request may attach to an evaluation, scanned score or paper.
+export const RosterLinksInputSchema = z.object({
+  studentId: IdSchema.optional(),
+  classId: IdSchema.optional(),
+  examId: IdSchema.optional()
+});
+export type RosterLinksInput = z.infer<typeof RosterLinksInputSchema>;
+
+// Stored on evaluations, scores and papers so they can be listed by student, class and exam.
+export type RosterLinks = {
+  schoolId: string | null;
+  classId: string | null;
+  studentId: string | null;
+  examId: string | null;
+};
+
+export const NO_ROSTER_LINKS: RosterLinks = { schoolId: null, classId: null, studentId: null, examId: null };
+
+// Documents stored before the roster existed have no links.
+export function rosterLinksOf(doc: Partial<RosterLinks>): RosterLinks {
+  return {
+    schoolId: doc.schoolId ?? null,
+    classId: doc.classId ?? null,
+    studentId: doc.studentId ?? null,
+    examId: doc.examId ?? null
+  };
+}
+
+export class RosterError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "RosterError";
+  }
+}
+
+export async function createSchool(input: z.infer<typeof SchoolInputSchema>): Promise<RosterEntity<SchoolDoc>> {
+  return insert(getStorage().schools, {
+    createdAtIso: new Date().toISOString(),
+    name: input.name,
+    marksTemplate: input.marksTemplate ?? null
+  });
+}
+
+export async function updateSchool(
+  id: string,
+  patch: z.infer<typeof SchoolPatchSchema>
+): Promise<RosterEntity<SchoolDoc>> {
+  const updated = await getStorage().schools.update(id, (doc) => ({ ...doc, ...patch }));
+  if (!updated) throw new RosterError(`School not found: ${id}`, 404);
+  return { id, ...updated };
+}
+
+export async function createClass(input: z.infer<typeof ClassInputSchema>): Promise<RosterEntity<SchoolClassDoc>> {
+  await requireDoc(getStorage().schools, input.schoolId, "School");
+  return insert(getStorage().classes, {
+    createdAtIso: new Date().toISOString(),
+    schoolId: input.schoolId,
+    name: input.name,
+    section: input.section ?? null,
+    academicYear: input.academicYear ?? null
+  });
+}
+
+export async function createStudent(input: z.infer<typeof StudentInputSchema>): Promise<RosterEntity<StudentDoc>> {
+  const schoolClass = await requireDoc(getStorage().classes, input.classId, "Class");
+  await assertRollNumberFree(input.classId, input.rollNumber);
+  return insert(getStorage().students, {
+    createdAtIso: new Date().toISOString(),
+    schoolId: schoolClass.schoolId,
+    classId: input.classId,
+    rollNumber: input.rollNumber,
+    name: input.name
+  });
+}
+
+export async function updateStudent(
+  id: string,
+  patch: z.infer<typeof StudentPatchSchema>
+): Promise<RosterEntity<StudentDoc>> {
+  const current = await requireDoc(getStorage().students, id, "Student");
+  const classId = patch.classId ?? current.classId;
+  const rollNumber = patch.rollNumber ?? current.rollNumber;
+  const schoolClass = await requireDoc(getStorage().classes, classId, "Class");
+  if (classId !== current.classId || rollNumber !== current.rollNumber) await assertRollNumberFree(classId, rollNumber);
+
+  const updated = await getStorage().students.update(id, (doc) => ({
+    ...doc,
+    ...patch,
+    classId,
+    rollNumber,
+    schoolId: schoolClass.schoolId
+  }));
+  if (!updated) throw new RosterError(`Student not found: ${id}`, 404);
+  return { id, ...updated };
+}
+
+export async function createExam(input: z.infer<typeof ExamInputSchema>): Promise<RosterEntity<ExamDoc>> {
+  const schoolClass = await requireDoc(getStorage().classes, input.classId, "Class");
+  if (input.paperId) await requireDoc(getStorage().papers, input.paperId, "Paper");
+  return insert(getStorage().exams, {
+    createdAtIso: new Date().toISOString(),
+    schoolId: schoolClass.schoolId,
+    classId: input.classId,
+    name: input.name,
+    subject: input.subject,
+    dateIso: input.dateIso ?? null,
+    answerKey: input.answerKey ?? null,
+    paperId: input.paperId ?? null
+  });
+}
+
+export async function updateExam(id: string, patch: z.infer<typeof ExamPatchSchema>): Promise<RosterEntity<ExamDoc>> {
+  if (patch.paperId) await requireDoc(getStorage().papers, patch.paperId, "Paper");
+  const updated = await getStorage().exams.update(id, (doc) => ({ ...doc, ...patch }));
+  if (!updated) throw new RosterError(`Exam not found: ${id}`, 404);
+  return { id, ...updated };
+}
+
+export async function getSchool(id: string) {
+  return findDoc(getStorage().schools, id);
+}
+
+export async function getClass(id: string) {
+  return findDoc(getStorage().classes, id);
+}
+
+export async function getStudent(id: string) {
+  return findDoc(getStorage().students, id);
+}
+
+export async function getExam(id: string) {
+  return findDoc(getStorage().exams, id);
+}
+
+export async function listSchools(): Promise<RosterEntity<SchoolDoc>[]> {
+  const found = await getStorage().schools.list();
+  return found.map(({ id, doc }) => ({ id, ...doc })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function listClasses(filter: RosterFilter = {}): Promise<RosterEntity<SchoolClassDoc>[]> {
+  const found = await getStorage().classes.list(toWhere(filter, ["schoolId"]));
+  return found
+    .map(({ id, doc }) => ({ id, ...doc }))
+    .sort(
+      (a, b) =>
+        a.name.localeCompare(b.name, undefined, { numeric: true }) || (a.section ?? "").localeCompare(b.section ?? "")
+    );
+}
+
+export async function listStudents(filter: RosterFilter = {}): Promise<RosterEntity<StudentDoc>[]> {
+  const found = await getStorage().students.list(toWhere(filter, ["schoolId", "classId"]));
+  return found
+    .map(({ id, doc }) => ({ id, ...doc }))
+    .sort((a, b) => a.rollNumber.localeCompare(b.rollNumber, undefined, { numeric: true }));
+}
+
+export async function listExams(filter: RosterFilter = {}): Promise<RosterEntity<ExamDoc>[]> {
+  const found = await getStorage().exams.list(toWhere(filter, ["schoolId", "classId"]));
+  return found
+    .map(({ id, doc }) => ({ id, ...doc }))
+    .sort((a, b) => (b.dateIso ?? b.createdAtIso).localeCompare(a.dateIso ?? a.createdAtIso));
+}
+
+export async function findStudentByRollNumber(classId: string, rollNumber: string) {
+  const found = await getStorage().students.list({ classId, rollNumber: rollNumber.trim() });
+  return found.length ? { id: found[0].id, ...found[0].doc } : null;
+}
+
+// Checks the ids a request names and fills in the ones they imply (a student's class, a class's school).
+export async function resolveRosterLinks(input: RosterLinksInput): Promise<{
+  links: RosterLinks;
+  student: RosterEntity<StudentDoc> | null;
+  exam: RosterEntity<ExamDoc> | null;
+}> {
+  const student = input.studentId ? await requireDoc(getStorage().students, input.studentId, "Student") : null;
+  const exam = input.examId ? await requireDoc(getStorage().exams, input.examId, "Exam") : null;
+  const classId = input.classId ?? student?.classId ?? exam?.classId ?? null;
+
+  if (student && student.classId !== classId) {
+    throw new RosterError(`Student ${student.id} is not in class ${classId}`, 400);
+  }
+  if (exam && exam.classId !== classId) throw new RosterError(`Exam ${exam.id} is not for class ${classId}`, 400);
+  const schoolClass = classId ? await requireDoc(getStorage().classes, classId, "Class") : null;
+
+  return {
+    links: {
+      schoolId: schoolClass?.schoolId ?? null,
+      classId,
+      studentId: student?.id ?? null,
+      examId: exam?.id ?? null
+    },
+    student,
+    exam
+  };
+}
+
+// Equality filters for list queries, limited to the fields an entity has.
+export function toWhere(
+  filter: RosterFilter,
+  fields: Array<keyof RosterFilter> = ["schoolId", "classId", "studentId", "examId"]
+): Where {
+  const where: Where = {};
+  for (const field of fields) {
+    const value = filter[field];
+    if (value) where[field] = value;
+  }
+  return where;
+}
+
+async function insert<T>(repository: Repository<T>, doc: T): Promise<RosterEntity<T>> {
+  const id = randomUUID();
+  await repository.save(id, doc);
+  return { id, ...doc };
+}
+
+async function findDoc<T>(repository: Repository<T>, id: string): Promise<RosterEntity<T> | null> {
+  const doc = await repository.get(id);
+  return doc ? { id, ...doc } : null;
+}
+
+async function requireDoc<T>(repository: Repository<T>, id: string, label: string): Promise<RosterEntity<T>> {
+  const found = await findDoc(repository, id);
+  if (!found) throw new RosterError(`${label} not found: ${id}`, 404);
+  return found;
+}
+
+async function assertRollNumberFree(classId: string, rollNumber: string) {
+  if (await findStudentByRollNumber(classId, rollNumber)) {
+    throw new RosterError(`Roll number ${rollNumber} is already taken in class ${classId}`, 409);
+  }
+}
@@ -0,0 +1,104 @@
+import ExcelJS from "exceljs";
+
+// Data rows keyed by header; `row` is the line (CSV) or row (XLSX) number in the file, for error reports.
+export type SheetRow = { row: number; values: Record<string, string> };
+export type Sheet = { headers: string[]; rows: SheetRow[] };
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetError";
+  }
+}
+
+// XLSX (first worksheet) or CSV; the first non-empty row holds the headers. Cells stay strings ("007" keeps its zeros).
+export async function readSpreadsheet(buffer: Buffer): Promise<Sheet> {
+  if (buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) return toSheet(await readXlsx(buffer));
+  if (buffer.subarray(0, 4).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]))) {
+    throw new SpreadsheetError("Old .xls workbooks are not supported; save the sheet as XLSX or CSV.");
+  }
+  return toSheet(parseCsv(buffer.toString("utf8").replace(/^\uFEFF/, "")));
+}
+
+async function readXlsx(buffer: Buffer): Promise<Array<{ row: number; cells: string[] }>> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+  } catch {
+    throw new SpreadsheetError("Could not read the XLSX workbook.");
+  }
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: Array<{ row: number; cells: string[] }> = [];
+  sheet.eachRow((row, rowNumber) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) cells.push(row.getCell(col).text ?? "");
+    rows.push({ row: rowNumber, cells });
+  });
+  return rows;
+}
+
+// RFC 4180 with the delimiter guessed from the first line (Excel writes ";" in some locales).
+export function parseCsv(text: string): Array<{ row: number; cells: string[] }> {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: Array<{ row: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell) {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      cells.push(cell);
+      rows.push({ row: rowStart, cells });
+      cells = [];
+      cell = "";
+      line++;
+      rowStart = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new SpreadsheetError(`Unclosed quote in CSV row ${rowStart}.`);
+  if (cell || cells.length) {
+    cells.push(cell);
+    rows.push({ row: rowStart, cells });
+  }
+  return rows;
+}
+
+function toSheet(raw: Array<{ row: number; cells: string[] }>): Sheet {
+  const nonEmpty = raw.filter((r) => r.cells.some((c) => c.trim()));
+  if (!nonEmpty.length) throw new SpreadsheetError("The sheet is empty.");
+  const headers = nonEmpty[0].cells.map((h) => h.trim());
+  const rows = nonEmpty.slice(1).map(({ row, cells }) => {
+    const values: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      const value = (cells[i] ?? "").trim();
+      if (header && value) values[header] = value;
+    });
+    return { row, values };
+  });
+  return { headers, rows };
+}
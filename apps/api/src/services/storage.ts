@@ -0,0 +1,226 @@
+import { randomUUID } from "crypto";
+import type admin from "firebase-admin";
+import fs from "fs/promises";
+import path from "path";
+
+import type { EvaluationDoc } from "./persist.js";
+import { getFirestoreIfConfigured } from "./persistFirebase.js";
+import type { ManualScoreDoc } from "./persistManualScore.js";
+import type { PaperDoc } from "./persistPaper.js";
+import type { ExamDoc, SchoolClassDoc, SchoolDoc, StudentDoc } from "./roster.js";
+
+export type Repository<T> = {
+  get(id: string): Promise<T | null>;
+  save(id: string, doc: T): Promise<void>;
+  // Atomic read-modify-write; resolves to null when the document does not exist.
+  update(id: string, change: (current: T) => T): Promise<T | null>;
+  // Documents whose fields equal every value in `where`; dotted keys ("batch.batchId") reach nested fields.
+  list(where?: Where): Promise<Array<{ id: string; doc: T }>>;
+};
+
+export type Where = Record<string, string | number | boolean | null>;
+
+export type Storage = {
+  backend: StorageBackend;
+  evaluations: Repository<EvaluationDoc>;
+  papers: Repository<PaperDoc>;
+  manualScores: Repository<ManualScoreDoc>;
+  schools: Repository<SchoolDoc>;
+  classes: Repository<SchoolClassDoc>;
+  students: Repository<StudentDoc>;
+  exams: Repository<ExamDoc>;
+};
+
+export const STORAGE_BACKENDS = ["firestore", "local", "memory"] as const;
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number];
+
+type OpenRepository = <T>(collection: string) => Repository<T>;
+
+function createStorage(backend: StorageBackend, open: OpenRepository): Storage {
+  return {
+    backend,
+    evaluations: open<EvaluationDoc>("evaluations"),
+    papers: open<PaperDoc>("papers"),
+    manualScores: open<ManualScoreDoc>("manual_scores"),
+    schools: open<SchoolDoc>("schools"),
+    classes: open<SchoolClassDoc>("classes"),
+    students: open<StudentDoc>("students"),
+    exams: open<ExamDoc>("exams")
+  };
+}
+
+// Document ids come from URLs; anything else would escape the data directory.
+const VALID_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+function matches(doc: unknown, where: Where): boolean {
+  return Object.entries(where).every(([key, value]) => fieldAt(doc, key) === value);
+}
+
+function fieldAt(doc: unknown, key: string): unknown {
+  let value = doc;
+  for (const part of key.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+export function createFirestoreStorage(): Storage {
+  const db = getFirestoreIfConfigured();
+  if (!db) throw new Error("STORAGE_BACKEND=firestore requires FIREBASE_PROJECT_ID");
+
+  return createStorage("firestore", <T>(name: string): Repository<T> => {
+    const collection = db.collection(name);
+    return {
+      async get(id) {
+        if (!VALID_ID.test(id)) return null;
+        const snap = await collection.doc(id).get();
+        return snap.exists ? (snap.data() as T) : null;
+      },
+      async save(id, doc) {
+        // JSON round-trip drops undefined fields, which Firestore rejects.
+        await collection.doc(id).set(JSON.parse(JSON.stringify(doc)));
+      },
+      async update(id, change) {
+        if (!VALID_ID.test(id)) return null;
+        const ref = collection.doc(id);
+        return db.runTransaction(async (tx) => {
+          const snap = await tx.get(ref);
+          if (!snap.exists) return null;
+          const next = change(snap.data() as T);
+          tx.set(ref, JSON.parse(JSON.stringify(next)));
+          return next;
+        });
+      },
+      async list(where = {}) {
+        let query: admin.firestore.Query = collection;
+        for (const [key, value] of Object.entries(where)) query = query.where(key, "==", value);
+        const snap = await query.get();
+        return snap.docs.map((d) => ({ id: d.id, doc: d.data() as T }));
+      }
+    };
+  });
+}
+
+// One JSON file per document: <dir>/<collection>/<id>.json. Meant for a single API process.
+export function createLocalStorage(dir = process.env.DATA_DIR || "data"): Storage {
+  const root = path.resolve(dir);
+  // Serializes updates per document so concurrent edits in this process don't overwrite each other.
+  const locks = new Map<string, Promise<unknown>>();
+
+  return createStorage("local", <T>(name: string): Repository<T> => {
+    const fileFor = (id: string) => path.join(root, name, `${id}.json`);
+
+    async function read(id: string): Promise<T | null> {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(id), "utf8")) as T;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    }
+
+    async function write(id: string, doc: T) {
+      if (!VALID_ID.test(id)) throw new Error(`Invalid document id: ${id}`);
+      const file = fileFor(id);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Write then rename, so a crash never leaves a half-written document.
+      const tmp = `${file}.${randomUUID()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(doc, null, 2));
+      await fs.rename(tmp, file);
+    }
+
+    return {
+      async get(id) {
+        return VALID_ID.test(id) ? read(id) : null;
+      },
+      save: write,
+      async update(id, change) {
+        if (!VALID_ID.test(id)) return null;
+        const key = `${name}/${id}`;
+        const run = (locks.get(key) ?? Promise.resolve())
+          .catch(() => undefined)
+          .then(async () => {
+            const current = await read(id);
+            if (!current) return null;
+            const next = change(current);
+            await write(id, next);
+            return next;
+          });
+        locks.set(key, run);
+        try {
+          return await run;
+        } finally {
+          if (locks.get(key) === run) locks.delete(key);
+        }
+      },
+      async list(where = {}) {
+        let files: string[];
+        try {
+          files = await fs.readdir(path.join(root, name));
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+          throw err;
+        }
+        const found: Array<{ id: string; doc: T }> = [];
+        for (const file of files) {
+          if (!file.endsWith(".json")) continue;
+          const id = file.slice(0, -".json".length);
+          const doc = await read(id);
+          if (doc && matches(doc, where)) found.push({ id, doc });
+        }
+        return found;
+      }
+    };
+  });
+}
+
+// Process-local, lost on restart; for tests and throwaway runs.
+export function createMemoryStorage(): Storage {
+  return createStorage("memory", <T>(): Repository<T> => {
+    const docs = new Map<string, T>();
+    return {
+      async get(id) {
+        const doc = docs.get(id);
+        return doc === undefined ? null : structuredClone(doc);
+      },
+      // Refuses the ids the local backend would, so tests using memory storage catch them.
+      async save(id, doc) {
+        if (!VALID_ID.test(id)) throw new Error(`Invalid document id: ${id}`);
+        docs.set(id, structuredClone(doc));
+      },
+      async update(id, change) {
+        const current = docs.get(id);
+        if (current === undefined) return null;
+        const next = change(structuredClone(current));
+        docs.set(id, structuredClone(next));
+        return structuredClone(next);
+      },
+      async list(where = {}) {
+        return [...docs]
+          .filter(([, doc]) => matches(doc, where))
+          .map(([id, doc]) => ({ id, doc: structuredClone(doc) }));
+      }
+    };
+  });
+}
+
+let storage: Storage | null = null;
+
+// STORAGE_BACKEND picks the backend; by default Firestore when Firebase is configured, otherwise local files.
+export function getStorage(): Storage {
+  if (storage) return storage;
+  const configured = (process.env.STORAGE_BACKEND || "").toLowerCase();
+  const backend = configured || (process.env.FIREBASE_PROJECT_ID ? "firestore" : "local");
+  if (!STORAGE_BACKENDS.includes(backend as StorageBackend)) {
+    throw new Error(`Unknown STORAGE_BACKEND: ${backend} (expected ${STORAGE_BACKENDS.join(", ")})`);
+  }
+  storage =
+    backend === "firestore" ? createFirestoreStorage() : backend === "memory" ? createMemoryStorage() : createLocalStorage();
+  return storage;
+}
+
+// Overrides the configured backend (e.g. a memory store in tests).
+export function setStorage(next: Storage) {
+  storage = next;
+}
@@ -0,0 +1,13 @@
+// heic-decode ships without type definitions.
+declare module "heic-decode" {
+  type DecodedImage = { width: number; height: number; data: Uint8ClampedArray };
+
+  function decode(input: { buffer: ArrayBufferLike | Uint8Array }): Promise<DecodedImage>;
+  namespace decode {
+    function all(input: {
+      buffer: ArrayBufferLike | Uint8Array;
+    }): Promise<Array<{ width: number; height: number; decode(): Promise<DecodedImage> }>>;
+  }
+
+  export default decode;
+}
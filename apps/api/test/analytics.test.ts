@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  analyzeQuestions,
+  scoreDistribution,
+  scoreTrend,
+  topicMastery,
+  type AnalyticsEvaluation
+} from "../src/services/analytics.js";
+import type { ExamDoc } from "../src/services/roster.js";
+
+type Marks = { id: string; awarded: number; max: number; weakAreas?: string[] };
+
+let nextId = 0;
+
+function stored(questions: Marks[], extra: Partial<AnalyticsEvaluation> = {}): AnalyticsEvaluation {
+  nextId += 1;
+  const totalMarks = questions.reduce((acc, q) => acc + q.awarded, 0);
+  return {
+    evaluationId: `e${nextId}`,
+    createdAtIso: `2026-01-${String(nextId).padStart(2, "0")}T00:00:00.000Z`,
+    schoolId: null,
+    classId: null,
+    studentId: null,
+    examId: null,
+    evaluation: {
+      totalMarks,
+      maxTotalMarks: questions.reduce((acc, q) => acc + q.max, 0),
+      overallFeedback: "",
+      weakAreas: [],
+      confidence: 1,
+      questions: questions.map((q) => ({
+        questionId: q.id,
+        marksAwarded: q.awarded,
+        maxMarks: q.max,
+        feedback: "",
+        deductions: [],
+        weakAreas: q.weakAreas ?? [],
+        awardedRubricPoints: []
+      }))
+    },
+    answerSources: [],
+    review: { status: "pending", flags: [], reviewedBy: null, reviewedAtIso: null },
+    revisions: [],
+    batch: null,
+    ...extra
+  };
+}
+
+// One question out of 100, so marks read as the percentage.
+function scored(percentage: number, extra: Partial<AnalyticsEvaluation> = {}) {
+  return stored([{ id: "1", awarded: percentage, max: 100 }], extra);
+}
+
+function exam(name: string, dateIso: string): ExamDoc {
+  const createdAtIso = "2026-01-01T00:00:00.000Z";
+  return { createdAtIso, schoolId: "s", classId: "c", name, subject: "Maths", dateIso, answerKey: null, paperId: null };
+}
+
+describe("scoreDistribution", () => {
+  it("summarizes percentages with interpolated percentiles and ten-point bands", () => {
+    const distribution = scoreDistribution([40, 90, 70, 100, 55]);
+
+    assert.deepEqual(
+      { ...distribution, histogram: undefined },
+      {
+        students: 5,
+        mean: 71,
+        median: 70,
+        stdDev: 22,
+        min: 40,
+        max: 100,
+        percentiles: { p10: 46, p25: 55, p75: 90, p90: 96 },
+        histogram: undefined
+      }
+    );
+    assert.deepEqual(
+      distribution.histogram.map((band) => band.students),
+      [0, 0, 0, 0, 1, 1, 0, 1, 0, 2]
+    );
+    assert.deepEqual(distribution.histogram[9], { fromPercent: 90, toPercent: 100, students: 2 });
+  });
+
+  it("puts scores outside 0-100 in the end bands", () => {
+    const { histogram } = scoreDistribution([-5, 120]);
+
+    assert.equal(histogram[0].students, 1);
+    assert.equal(histogram[9].students, 1);
+  });
+
+  it("has no statistics without scores", () => {
+    const distribution = scoreDistribution([]);
+
+    assert.equal(distribution.students, 0);
+    assert.equal(distribution.mean, null);
+    assert.equal(distribution.percentiles, null);
+    assert.equal(distribution.histogram.length, 10);
+    assert.ok(distribution.histogram.every((band) => band.students === 0));
+  });
+});
+
+describe("scoreTrend", () => {
+  const exams = new Map([
+    ["a", exam("Unit test 2", "2026-03-01")],
+    ["b", exam("Unit test 1", "2026-02-01")],
+    ["c", exam("Half-yearly", "2026-04-01")]
+  ]);
+
+  it("keeps the latest evaluation per exam, in exam date order, with the change and slope", () => {
+    const trend = scoreTrend(
+      [
+        scored(50, { examId: "a" }),
+        scored(70, { examId: "b" }),
+        scored(60, { examId: "a" }),
+        scored(90, { examId: "c" })
+      ],
+      exams
+    );
+
+    assert.deepEqual(
+      trend.points.map((p) => [p.examName, p.percentage]),
+      [
+        ["Unit test 1", 70],
+        ["Unit test 2", 60],
+        ["Half-yearly", 90]
+      ]
+    );
+    // Least squares through (0, 70), (1, 60), (2, 90).
+    assert.equal(trend.change, 20);
+    assert.equal(trend.slopePerExam, 10);
+  });
+
+  it("counts evaluations without an exam separately", () => {
+    const trend = scoreTrend([scored(40), scored(80)]);
+
+    assert.deepEqual(
+      trend.points.map((p) => p.percentage),
+      [40, 80]
+    );
+    assert.equal(trend.change, 40);
+  });
+
+  it("has no change with a single exam", () => {
+    const trend = scoreTrend([scored(40, { examId: "a" }), scored(80, { examId: "a" })], exams);
+
+    assert.equal(trend.points.length, 1);
+    assert.equal(trend.points[0].percentage, 80);
+    assert.equal(trend.change, null);
+    assert.equal(trend.slopePerExam, null);
+  });
+});
+
+describe("topicMastery", () => {
+  it("weights recent evaluations more and merges spellings of a topic", () => {
+    const topics = topicMastery([
+      stored([
+        { id: "1", awarded: 1, max: 4, weakAreas: ["Units "] },
+        { id: "2", awarded: 4, max: 4 }
+      ]),
+      stored([{ id: "1", awarded: 4, max: 4 }]),
+      stored([
+        { id: "1", awarded: 4, max: 4 },
+        { id: "2", awarded: 0, max: 4, weakAreas: ["units", "Graphs"] }
+      ])
+    ]);
+
+    assert.deepEqual(
+      topics.map((t) => [t.topic, t.mastery, t.flaggedIn, t.evaluations]),
+      [
+        // Flagged in the latest evaluation only, with no marks on the question.
+        ["Graphs", 0, 1, 1],
+        // 0.25 (oldest), 1, then 0 (latest), weighted 0.63 : 0.79 : 1.
+        ["Units", 0.39, 2, 3]
+      ]
+    );
+  });
+});
+
+describe("analyzeQuestions", () => {
+  it("computes difficulty and discrimination from the top and bottom of the class", () => {
+    const marks = (q1: number, q2: number) =>
+      stored([
+        { id: "1", awarded: q1, max: 2 },
+        { id: "2", awarded: q2, max: 2 }
+      ]);
+
+    const questions = analyzeQuestions([marks(2, 2), marks(2, 1), marks(1, 1), marks(0, 1)]);
+
+    assert.deepEqual(questions, [
+      { questionId: "1", maxMarks: 2, attempts: 4, averageMarks: 1.25, difficultyIndex: 0.63, discriminationIndex: 1 },
+      { questionId: "2", maxMarks: 2, attempts: 4, averageMarks: 1.25, difficultyIndex: 0.63, discriminationIndex: 0.5 }
+    ]);
+  });
+
+  it("leaves discrimination out with fewer than four students", () => {
+    const questions = analyzeQuestions([scored(90), scored(10), scored(50)]);
+
+    assert.equal(questions[0].discriminationIndex, null);
+    assert.equal(questions[0].averageMarks, 50);
+  });
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { buildGradingQuestions, matchStudentAnswers, type AnswerKey } from "../src/services/answerKey.js";
+
+const answerKey: AnswerKey = [
+  { questionId: "1", maxMarks: 1, modelAnswer: "Osmosis is the diffusion of water.", rubric: [] },
+  { questionId: "2", maxMarks: 3, modelAnswer: "Mitochondria release energy as ATP.", rubric: [] }
+];
+
+function input(studentQa: Array<{ questionId: string; text: string }>) {
+  return { modelQa: [], studentQa, maxMarksPerQuestion: 5, answerKey };
+}
+
+describe("buildGradingQuestions with an answer key", () => {
+  it("grades only the key's questions and reports the other answers", () => {
+    const params = input([
+      { questionId: "1", text: "Water diffusing." },
+      { questionId: "2", text: "ATP." },
+      { questionId: "3", text: "An answer to a question the key does not have." }
+    ]);
+
+    const questions = buildGradingQuestions(params);
+
+    assert.deepEqual(
+      questions.map((q) => [q.questionId, q.maxMarks]),
+      [
+        ["1", 1],
+        ["2", 3]
+      ]
+    );
+    assert.deepEqual(matchStudentAnswers(params).unmatched, ["3"]);
+  });
+
+  it("joins sub-part answers into their key question", () => {
+    const params = input([
+      { questionId: "2(a)", text: "Mitochondria." },
+      { questionId: "2(b)", text: "ATP." }
+    ]);
+
+    const [, second] = buildGradingQuestions(params);
+
+    assert.equal(second.studentAnswer, "(a) Mitochondria.\n(b) ATP.");
+    const { targets, unmatched } = matchStudentAnswers(params);
+    assert.deepEqual(targets.get("2(a)"), ["2"]);
+    assert.deepEqual(unmatched, []);
+  });
+
+  it("still grades every answer without a key", () => {
+    const params = { ...input([{ questionId: "3", text: "Anything." }]), answerKey: undefined };
+
+    assert.deepEqual(
+      buildGradingQuestions(params).map((q) => [q.questionId, q.maxMarks]),
+      [["3", 5]]
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { EvaluateBodySchema, runEvaluation } from "../src/services/evaluatePipeline.js";
+import type { GeneratedPaper } from "../src/services/paperSchema.js";
+
+const paper: GeneratedPaper = {
+  title: "Biology test",
+  header: { classLevel: 9, subject: "Biology", board: null, totalMarks: 5, durationMinutes: null, difficulty: "easy" },
+  instructions: [],
+  sections: [
+    {
+      title: "Short answers",
+      type: "short",
+      marksEach: 2,
+      questions: [
+        { id: "1", question: "Define osmosis.", marks: 2, options: null, correctOptionIndex: null },
+        { id: "2", question: "What do mitochondria make?", marks: 3, options: null, correctOptionIndex: null }
+      ]
+    }
+  ],
+  answerKey: [
+    { questionId: "1", answer: "Osmosis is the diffusion of water across a membrane.", explanation: null },
+    { questionId: "2", answer: "Mitochondria make ATP by respiration.", explanation: null }
+  ],
+  markingScheme: [
+    { questionId: "1", points: ["Diffusion of water across a membrane"], marksBreakdown: null },
+    { questionId: "2", points: ["ATP", "Respiration"], marksBreakdown: null }
+  ]
+};
+
+const ENV = { GRADER_PROVIDER: "heuristic", STORAGE_BACKEND: "memory" };
+const saved = Object.fromEntries(Object.keys(ENV).map((name) => [name, process.env[name]]));
+
+before(() => {
+  Object.assign(process.env, ENV);
+});
+
+after(() => {
+  for (const [name, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+});
+
+function evaluate(studentText: string, extra: Record<string, unknown> = {}) {
+  return runEvaluation(EvaluateBodySchema.parse({ paper, studentText, ...extra }), {});
+}
+
+describe("grading against a generated paper", () => {
+  it("grades out of the paper's total and reports answers to questions it doesn't have", async () => {
+    const result = await evaluate(
+      "Q1. Osmosis is the diffusion of water across a membrane.\n" +
+        "Q2. Mitochondria make ATP by respiration.\n" +
+        "Q7. Photosynthesis happens in chloroplasts."
+    );
+
+    assert.deepEqual(
+      result.evaluation.questions.map((q) => q.questionId),
+      ["1", "2"]
+    );
+    assert.equal(result.evaluation.maxTotalMarks, 5);
+    assert.ok(result.evaluation.totalMarks <= 5);
+    assert.ok(result.warnings.includes("Student answers: Q7 is not in the answer key and was not graded."));
+  });
+
+  it("does not grade a misnumbered answer as a question of its own", async () => {
+    const result = await evaluate(
+      "Q1. Osmosis is the diffusion of water across a membrane.\nQ3. Mitochondria make ATP by respiration."
+    );
+
+    assert.equal(result.evaluation.maxTotalMarks, 5);
+    const second = result.evaluation.questions.find((q) => q.questionId === "2");
+    assert.equal(second?.marksAwarded, 0);
+    assert.ok(result.warnings.some((w) => w.includes("Q3 is not in the answer key")));
+  });
+
+  it("keeps the paper's total when its questions add up to something else", async () => {
+    const result = await evaluate("Q1. Osmosis is the diffusion of water.\nQ2. ATP.", {
+      paper: { ...paper, header: { ...paper.header, totalMarks: 4 } }
+    });
+
+    assert.equal(result.evaluation.maxTotalMarks, 4);
+    assert.ok(result.warnings.some((w) => w.includes("add up to 5 marks, not its total of 4")));
+  });
+});
+
+describe("answer alignment", () => {
+  const swapped =
+    "Q1. Mitochondria make ATP by respiration.\n" + "Q2. Osmosis is the diffusion of water across a membrane.";
+  const gradedAs = (alignment: Array<{ studentQuestionId: string; questionId: string | null }>) =>
+    alignment.map((a) => [a.studentQuestionId, a.questionId]);
+
+  it("joins answers by their number unless asked to re-match them", async () => {
+    const result = await evaluate(swapped);
+
+    assert.deepEqual(gradedAs(result.alignment), [
+      ["1", "1"],
+      ["2", "2"]
+    ]);
+  });
+
+  it("moves renumbered answers to the question they answer with alignBy=content", async () => {
+    const result = await evaluate(swapped, { alignBy: "content" });
+
+    assert.deepEqual(gradedAs(result.alignment), [
+      ["1", "2"],
+      ["2", "1"]
+    ]);
+  });
+});
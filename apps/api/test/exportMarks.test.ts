@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { buildMarksExport, defaultExportColumns, toCsv } from "../src/services/exportMarks.js";
+import { persistEvaluation } from "../src/services/persist.js";
+import { createMemoryStorage, setStorage } from "../src/services/storage.js";
+
+describe("toCsv", () => {
+  it("quotes commas, quotes and line breaks and ends every row with CRLF", () => {
+    const csv = toCsv({
+      title: "Students",
+      headers: ["Name", "Weak areas", "Total"],
+      rows: [
+        ["Asha, K", 'said "units"', 7],
+        ["Ravi", "line one\nline two", null]
+      ]
+    });
+
+    assert.equal(csv, 'Name,Weak areas,Total\r\n"Asha, K","said ""units""",7\r\nRavi,"line one\nline two",\r\n');
+  });
+
+  it("stops text cells from running as formulas but leaves negative numbers alone", () => {
+    const csv = toCsv({ title: "Students", headers: ["a", "b", "c", "d"], rows: [["=SUM(A1)", "+1", "@x", -2]] });
+
+    assert.equal(csv, "a,b,c,d\r\n'=SUM(A1),'+1,'@x,-2\r\n");
+  });
+});
+
+describe("buildMarksExport", () => {
+  beforeEach(async () => {
+    setStorage(createMemoryStorage());
+    await save("10", "Ravi", [["1", 2], ["2", 1]]);
+    await save("2", "Asha", [["1", 1]]);
+  });
+
+  afterEach(() => {
+    delete process.env.EXPORT_COLUMNS;
+  });
+
+  async function save(rollNumber: string, studentName: string, marks: Array<[string, number]>) {
+    const totalMarks = marks.reduce((acc, [, m]) => acc + m, 0);
+    await persistEvaluation({
+      evaluation: {
+        totalMarks,
+        maxTotalMarks: 4,
+        overallFeedback: "",
+        weakAreas: [],
+        confidence: 1,
+        questions: marks.map(([questionId, marksAwarded]) => ({
+          questionId,
+          marksAwarded,
+          maxMarks: 2,
+          feedback: "",
+          deductions: [],
+          weakAreas: marksAwarded < 2 ? ["units"] : [],
+          awardedRubricPoints: []
+        }))
+      },
+      modelText: "",
+      studentText: "",
+      batch: { batchId: "b1", label: `${rollNumber}.jpg`, rollNumber, studentName }
+    });
+  }
+
+  it("lists students by roll number with the default columns, blank for questions they didn't answer", async () => {
+    const data = await buildMarksExport({ batchId: "b1" });
+
+    assert.equal(data?.name, "batch-b1");
+    assert.deepEqual(data?.students.headers, [
+      "Roll number",
+      "Student",
+      "Q1",
+      "Q2",
+      "Total",
+      "Out of",
+      "Percentage",
+      "Weak areas"
+    ]);
+    assert.deepEqual(data?.students.rows, [
+      ["2", "Asha", 1, null, 1, 4, 25, "units"],
+      ["10", "Ravi", 2, 1, 3, 4, 75, "units"]
+    ]);
+  });
+
+  it("maps columns to the headers an ERP expects", async () => {
+    const data = await buildMarksExport({ batchId: "b1" }, [
+      { field: "rollNumber", header: "ROLL_NO" },
+      { field: "q:2" },
+      { field: "questions", header: "MARKS_{id}" },
+      { field: "total", header: "MARKS" }
+    ]);
+
+    assert.deepEqual(data?.students.headers, ["ROLL_NO", "Q2", "MARKS_1", "MARKS_2", "MARKS"]);
+    assert.deepEqual(data?.students.rows, [
+      ["2", null, 1, null, 1],
+      ["10", 1, 2, 1, 3]
+    ]);
+  });
+
+  it("takes the default columns from EXPORT_COLUMNS and rejects invalid ones", () => {
+    process.env.EXPORT_COLUMNS = '[{"field":"rollNumber","header":"ROLL"},{"field":"total"}]';
+    assert.deepEqual(defaultExportColumns(), [{ field: "rollNumber", header: "ROLL" }, { field: "total" }]);
+
+    process.env.EXPORT_COLUMNS = '[{"field":"grade"}]';
+    assert.throws(() => defaultExportColumns(), /Invalid EXPORT_COLUMNS/);
+  });
+
+  it("breaks marks down per question and resolves to null for an unknown batch", async () => {
+    const data = await buildMarksExport({ batchId: "b1" });
+
+    assert.deepEqual(data?.questions.rows, [
+      ["1", 2, 2, 1.5, 0.75, null, "units (1)"],
+      ["2", 2, 1, 1, 0.5, null, "units (1)"]
+    ]);
+    assert.equal(await buildMarksExport({ batchId: "missing" }), null);
+  });
+});
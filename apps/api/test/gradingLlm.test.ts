@@ -0,0 +1,280 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+
+import { gradeSubmission } from "../src/services/grading.js";
+import type { GradeParams } from "../src/services/gradingPrompt.js";
+import { chatCompletionReply, errorReply, ollamaReply, startLlmStub, type LlmStub } from "./llmStub.js";
+
+const params: GradeParams = {
+  modelQa: [{ questionId: "1", text: "Photosynthesis converts light energy into chemical energy stored in glucose." }],
+  studentQa: [{ questionId: "1", text: "Plants turn light energy into chemical energy in glucose." }],
+  maxMarksPerQuestion: 5,
+  strictness: "balanced"
+};
+
+const evaluation = {
+  totalMarks: 4,
+  maxTotalMarks: 5,
+  overallFeedback: "Mostly correct.",
+  weakAreas: ["detail"],
+  confidence: 0.8,
+  questions: [
+    {
+      questionId: "1",
+      marksAwarded: 4,
+      maxMarks: 5,
+      feedback: "Names both energy forms.",
+      deductions: [{ reason: "No mention of chlorophyll", marks: 1 }],
+      weakAreas: ["detail"],
+      awardedRubricPoints: [],
+      confidence: 0.8
+    }
+  ]
+};
+
+const ENV = ["GRADER_PROVIDER", "GRADER_BASE_URL", "GRADER_MODEL", "LLM_MAX_ATTEMPTS", "LLM_MAX_RETRIES"];
+const saved = Object.fromEntries(ENV.map((name) => [name, process.env[name]]));
+
+let stub: LlmStub;
+
+before(async () => {
+  stub = await startLlmStub();
+  // Backoff in milliseconds, so retry tests stay fast.
+  process.env.LLM_RETRY_BASE_MS = "1";
+});
+
+after(async () => {
+  await stub.close();
+});
+
+beforeEach(() => {
+  stub.requests.length = 0;
+  process.env.GRADER_MODEL = "stub-model";
+  process.env.LLM_MAX_ATTEMPTS = "3";
+  process.env.LLM_MAX_RETRIES = "2";
+});
+
+afterEach(() => {
+  for (const name of ENV) {
+    if (saved[name] === undefined) delete process.env[name];
+    else process.env[name] = saved[name];
+  }
+});
+
+describe("GRADER_PROVIDER=ollama", () => {
+  beforeEach(() => {
+    process.env.GRADER_PROVIDER = "ollama";
+    process.env.GRADER_BASE_URL = stub.url;
+  });
+
+  it("grades with valid JSON from /api/chat", async () => {
+    stub.reply(ollamaReply(JSON.stringify(evaluation)));
+
+    const result = await gradeSubmission(params);
+
+    assert.equal(result.totalMarks, 4);
+    assert.equal(result.questions[0].feedback, "Names both energy forms.");
+    assert.equal(stub.requests.length, 1);
+    const [request] = stub.requests;
+    assert.equal(request.path, "/api/chat");
+    assert.equal(request.body.model, "stub-model");
+    assert.equal(request.body.stream, false);
+    // The evaluation JSON schema constrains decoding.
+    assert.deepEqual((request.body.format as { required: string[] }).required, Object.keys(evaluation));
+  });
+
+  it("repairs fenced JSON with quoted numbers and missing lists without asking again", async () => {
+    const sloppy = {
+      totalMarks: "3",
+      maxTotalMarks: "5",
+      overallFeedback: "Partly correct.",
+      confidence: "0.7",
+      questions: [{ questionId: 1, marksAwarded: "3", maxMarks: "5", feedback: "Misses glucose." }]
+    };
+    stub.reply(ollamaReply("Here is the evaluation:\n```json\n" + JSON.stringify(sloppy) + "\n```"));
+
+    const result = await gradeSubmission(params);
+
+    assert.equal(stub.requests.length, 1);
+    assert.equal(result.totalMarks, 3);
+    assert.equal(result.questions[0].questionId, "1");
+    assert.deepEqual(result.questions[0].deductions, []);
+    assert.deepEqual(result.weakAreas, []);
+  });
+
+  it("sends invalid output back with the validation errors and uses the corrected reply", async () => {
+    const missingMarks = { ...evaluation, questions: [{ questionId: "1", feedback: "Good." }] };
+    stub.reply(ollamaReply(JSON.stringify(missingMarks)), ollamaReply(JSON.stringify(evaluation)));
+
+    const result = await gradeSubmission(params);
+
+    assert.equal(result.totalMarks, 4);
+    assert.equal(stub.requests.length, 2);
+    const retry = stub.requests[1].body.messages as Array<{ role: string; content: string }>;
+    assert.equal(retry.at(-2)?.role, "assistant");
+    assert.equal(retry.at(-2)?.content, JSON.stringify(missingMarks));
+    assert.equal(retry.at(-1)?.role, "user");
+    assert.match(retry.at(-1)?.content ?? "", /not valid: questions\.0\.marksAwarded/);
+  });
+
+  it("drops questions the model invented and scores the ones it left out as not graded", async () => {
+    const twoQuestions = {
+      ...params,
+      modelQa: [...params.modelQa, { questionId: "2", text: "Chlorophyll absorbs light." }],
+      studentQa: [...params.studentQa, { questionId: "2", text: "Chlorophyll." }]
+    };
+    const invented = { ...evaluation.questions[0], questionId: "9", marksAwarded: 7, maxMarks: 7 };
+    const questions = [evaluation.questions[0], invented];
+    stub.reply(ollamaReply(JSON.stringify({ ...evaluation, totalMarks: 11, questions })));
+
+    const result = await gradeSubmission(twoQuestions);
+
+    assert.deepEqual(
+      result.questions.map((q) => [q.questionId, q.marksAwarded, q.maxMarks, q.ungraded ?? false]),
+      [
+        ["1", 4, 5, false],
+        ["2", 0, 5, true]
+      ]
+    );
+    assert.equal(result.totalMarks, 4);
+    assert.equal(result.maxTotalMarks, 10);
+  });
+
+  it("gives up after LLM_MAX_ATTEMPTS invalid replies", async () => {
+    process.env.LLM_MAX_ATTEMPTS = "2";
+    stub.reply(ollamaReply("I cannot grade this."), ollamaReply("Still no JSON."));
+
+    await assert.rejects(gradeSubmission(params), /invalid JSON after 2 attempts: no JSON object found/);
+    assert.equal(stub.requests.length, 2);
+  });
+});
+
+describe("GRADER_PROVIDER=openai_compatible", () => {
+  beforeEach(() => {
+    process.env.GRADER_PROVIDER = "openai_compatible";
+  });
+
+  it("grades with valid JSON from /chat/completions in JSON mode", async () => {
+    process.env.GRADER_BASE_URL = `${stub.url}/v1`;
+    stub.reply(chatCompletionReply(JSON.stringify(evaluation)));
+
+    const result = await gradeSubmission(params);
+
+    assert.equal(result.totalMarks, 4);
+    const [request] = stub.requests;
+    assert.equal(request.path, "/v1/chat/completions");
+    assert.deepEqual(request.body.response_format, { type: "json_object" });
+  });
+
+  it("retries without response_format when the server rejects it, and stops sending it", async () => {
+    process.env.GRADER_BASE_URL = `${stub.url}/no-json-mode/v1`;
+    stub.reply(
+      errorReply(400, { message: "response_format is not supported", type: "invalid_request_error" }),
+      chatCompletionReply(JSON.stringify(evaluation)),
+      chatCompletionReply(JSON.stringify(evaluation))
+    );
+
+    assert.equal((await gradeSubmission(params)).totalMarks, 4);
+    assert.equal((await gradeSubmission(params)).totalMarks, 4);
+
+    assert.deepEqual(
+      stub.requests.map((r) => "response_format" in r.body),
+      [true, false, false]
+    );
+  });
+
+  it("backs off and retries on 429 and 5xx", async () => {
+    process.env.GRADER_BASE_URL = `${stub.url}/v1`;
+    stub.reply(
+      {
+        ...errorReply(429, { message: "Rate limit reached", type: "rate_limit_exceeded" }),
+        headers: { "Retry-After": "0" }
+      },
+      errorReply(503, { message: "Overloaded" }),
+      chatCompletionReply(JSON.stringify(evaluation))
+    );
+
+    const result = await gradeSubmission(params);
+
+    assert.equal(result.totalMarks, 4);
+    assert.equal(stub.requests.length, 3);
+  });
+
+  it("fails after LLM_MAX_RETRIES when the server keeps erroring", async () => {
+    process.env.GRADER_BASE_URL = `${stub.url}/v1`;
+    process.env.LLM_MAX_RETRIES = "1";
+    stub.reply(errorReply(500, { message: "boom" }), errorReply(502, { message: "bad gateway" }));
+
+    await assert.rejects(gradeSubmission(params), /openai_compatible error: 502/);
+    assert.equal(stub.requests.length, 2);
+  });
+
+  it("does not retry an exhausted quota and falls back to the heuristic grader", async () => {
+    process.env.GRADER_BASE_URL = `${stub.url}/v1`;
+    stub.reply(errorReply(429, { message: "Quota exceeded", code: "insufficient_quota", type: "insufficient_quota" }));
+
+    const result = await gradeSubmission(params);
+
+    assert.equal(stub.requests.length, 1);
+    assert.equal(result.questions[0].questionId, "1");
+  });
+});
+
+describe("self-consistency samples", () => {
+  beforeEach(() => {
+    process.env.GRADER_PROVIDER = "openai_compatible";
+    process.env.GRADER_BASE_URL = `${stub.url}/v1`;
+    process.env.LLM_MAX_RETRIES = "0";
+  });
+
+  function graded(marksAwarded: number, deductions: Array<{ reason: string; marks: number }>, points: string[]) {
+    const question = { ...evaluation.questions[0], marksAwarded, deductions, awardedRubricPoints: points };
+    return chatCompletionReply(JSON.stringify({ ...evaluation, totalMarks: marksAwarded, questions: [question] }));
+  }
+
+  it("rescales deductions to the median when it falls between samples", async () => {
+    stub.reply(
+      graded(4, [{ reason: "No mention of chlorophyll", marks: 1 }], ["p1", "p2"]),
+      graded(2, [{ reason: "No mention of chlorophyll", marks: 1 }, { reason: "Vague", marks: 2 }], ["p1"])
+    );
+
+    const rubric = [
+      { id: "p1", description: "Light to chemical energy", marks: 3 },
+      { id: "p2", description: "Stored in glucose", marks: 2 }
+    ];
+    const answerKey = [{ questionId: "1", maxMarks: 5, modelAnswer: params.modelQa[0].text, rubric }];
+    const [question] = (await gradeSubmission({ ...params, answerKey, samples: 2 })).questions;
+
+    assert.equal(question.marksAwarded, 3);
+    assert.equal(
+      question.deductions.reduce((acc, d) => acc + d.marks, 0),
+      2
+    );
+    assert.match(question.feedback, /median of 2 gradings: (4, 2|2, 4)/);
+    assert.deepEqual(question.awardedRubricPoints, ["p1", "p2"]);
+  });
+
+  it("leaves failed samples out as long as a majority succeeds", async () => {
+    stub.reply(
+      graded(4, [{ reason: "No mention of chlorophyll", marks: 1 }], []),
+      errorReply(500, { message: "boom" }),
+      graded(4, [{ reason: "No mention of chlorophyll", marks: 1 }], [])
+    );
+
+    const [question] = (await gradeSubmission({ ...params, samples: 3 })).questions;
+
+    assert.equal(question.marksAwarded, 4);
+    assert.equal(question.consistency?.samples.length, 2);
+    assert.equal(question.consistency?.failed, 1);
+  });
+
+  it("fails with the samples' error when too few succeed", async () => {
+    stub.reply(
+      errorReply(500, { message: "boom" }),
+      errorReply(500, { message: "boom" }),
+      graded(4, [{ reason: "No mention of chlorophyll", marks: 1 }], [])
+    );
+
+    await assert.rejects(gradeSubmission({ ...params, samples: 3 }), /openai_compatible error: 500/);
+  });
+});
@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { GradingQuestion } from "../src/services/answerKey.js";
+import { gradeSubmission } from "../src/services/grading.js";
+import { gradeMathsQuestion, isMathsQuestion } from "../src/services/gradingMaths.js";
+
+function question(modelAnswer: string, extra: Partial<GradingQuestion> = {}): GradingQuestion {
+  return { questionId: "1", maxMarks: 2, modelAnswer, studentAnswer: "", rubric: [], ...extra };
+}
+
+describe("isMathsQuestion", () => {
+  it("takes model answers that end in a statement", () => {
+    assert.ok(isMathsQuestion(question("2x + 3 = 11\n2x = 8\nx = 4"), true));
+    assert.ok(isMathsQuestion(question("Let the number be x.\n3x = 12\nTherefore x = 4"), true));
+    assert.ok(isMathsQuestion(question("Area = 12 cm^2"), true));
+  });
+
+  it("leaves prose answers that mention numbers or formulas to the configured grader", () => {
+    assert.ok(!isMathsQuestion(question("A prime number has only two factors, one and the number itself"), true));
+    assert.ok(!isMathsQuestion(question("The sum of angles of a triangle is 180 degrees"), true));
+    const pythagoras =
+      "In a right-angled triangle, the square on the hypotenuse is the sum of the squares: a^2 + b^2 = c^2";
+    assert.ok(!isMathsQuestion(question(pythagoras), true));
+  });
+
+  it("follows answerType, rubrics and the subject", () => {
+    assert.ok(isMathsQuestion(question("The answer is about 12 apples", { answerType: "numeric" }), false));
+    assert.ok(!isMathsQuestion(question("x = 4", { answerType: "text" }), true));
+    assert.ok(!isMathsQuestion(question("x = 4", { rubric: [{ id: "p1", description: "x = 4", marks: 2 }] }), true));
+    assert.ok(!isMathsQuestion(question("x = 4"), false));
+  });
+});
+
+function grade(modelAnswer: string, studentAnswer: string, extra: Partial<GradingQuestion> = {}) {
+  return gradeMathsQuestion(question(modelAnswer, { maxMarks: 4, studentAnswer, ...extra }));
+}
+
+describe("gradeMathsQuestion", () => {
+  describe("final answers", () => {
+    it("accepts numbers within the key's absolute tolerance", () => {
+      assert.equal(grade("x = 3.14", "x = 3.141", { tolerance: 0.01 }).marksAwarded, 4);
+      assert.equal(grade("x = 3.14", "x = 3.2", { tolerance: 0.01 }).marksAwarded, 0);
+    });
+
+    it("accepts a value rounded to the decimals the student wrote", () => {
+      assert.equal(grade("x = π", "x = 3.14").marksAwarded, 4);
+      assert.equal(grade("A = 4π cm^2", "A = 12.57 cm^2").marksAwarded, 4);
+      // One decimal place is too coarse to stand for pi.
+      assert.equal(grade("x = π", "x = 3.1").marksAwarded, 0);
+    });
+
+    it("compares numeric answers by their value, ignoring units", () => {
+      assert.equal(grade("v = 2.5 m/s", "v = 5/2 m/s", { answerType: "numeric" }).marksAwarded, 4);
+    });
+
+    it("accepts algebraically equivalent expressions", () => {
+      const result = grade("2(x+1)", "2x + 2");
+
+      assert.equal(result.marksAwarded, 4);
+      assert.deepEqual(result.deductions, []);
+      assert.equal(grade("2(x+1)", "2x + 1").marksAwarded, 0);
+    });
+
+    it("splits roots and gives credit for each one found", () => {
+      assert.equal(grade("x = 2, -3", "x = -3 or x = 2").marksAwarded, 4);
+
+      const partial = grade("x = 2, -3", "x = 2");
+      assert.equal(partial.marksAwarded, 2);
+      assert.match(partial.feedback, /partly correct; expected x = 2, x = -3/);
+    });
+
+    it("uses the key's finalAnswer over the model answer's last line", () => {
+      assert.equal(grade("Working on the board", "x = 4", { finalAnswer: "x = 4" }).marksAwarded, 4);
+    });
+  });
+
+  describe("method marks", () => {
+    const model = "2x + 3 = 11\n2x = 8\nx = 4";
+
+    it("gives full marks for the final answer with every step shown", () => {
+      const result = grade(model, "2x + 3 = 11\n2x = 8\nx = 4");
+
+      assert.equal(result.marksAwarded, 4);
+      assert.match(result.feedback, /2 of 2 steps/);
+    });
+
+    it("splits the marks between the final answer and the steps", () => {
+      const result = grade(model, "x = 4");
+
+      assert.equal(result.marksAwarded, 2);
+      assert.deepEqual(result.deductions, [
+        { reason: "Working not shown or incorrect: 2x + 3 = 11; 2x = 8", marks: 2 }
+      ]);
+    });
+
+    it("gives method marks for working that leads to a wrong answer", () => {
+      const result = grade(model, "2x + 3 = 11\n2x = 8\nx = 5");
+
+      assert.equal(result.marksAwarded, 2);
+      assert.equal(result.deductions[0].reason, "Final answer x = 5 is not x = 4");
+    });
+
+    it("weights the final answer by MATHS_FINAL_SHARE", () => {
+      const share = process.env.MATHS_FINAL_SHARE;
+      process.env.MATHS_FINAL_SHARE = "0.25";
+      try {
+        assert.equal(grade(model, "x = 4").marksAwarded, 1);
+        assert.equal(grade(model, "2x + 3 = 11\n2x = 8\nx = 5").marksAwarded, 3);
+      } finally {
+        if (share === undefined) delete process.env.MATHS_FINAL_SHARE;
+        else process.env.MATHS_FINAL_SHARE = share;
+      }
+    });
+  });
+
+  it("scores a blank answer 0", () => {
+    const result = grade("x = 4", "");
+
+    assert.equal(result.marksAwarded, 0);
+    assert.deepEqual(result.deductions, [{ reason: "Blank or unreadable answer", marks: 4 }]);
+    assert.equal(result.confidence, 1);
+  });
+
+  it("leaves a question whose model answer has nothing to check to the teacher", () => {
+    const result = grade("Show your working clearly.", "x = 4");
+
+    assert.equal(result.marksAwarded, 0);
+    assert.deepEqual(result.deductions, [{ reason: "Missing model answer", marks: 4 }]);
+    // Zero confidence flags it for review.
+    assert.equal(result.confidence, 0);
+  });
+});
+
+describe("maths questions in a submission", () => {
+  it("does not send sub-part answers of a checked question to the provider again", async () => {
+    const provider = process.env.GRADER_PROVIDER;
+    process.env.GRADER_PROVIDER = "heuristic";
+    try {
+      const evaluation = await gradeSubmission({
+        modelQa: [
+          { questionId: "1", text: "Photosynthesis makes glucose from light." },
+          { questionId: "3", text: "2x = 8\nx = 4" }
+        ],
+        studentQa: [
+          { questionId: "1", text: "Plants make glucose from light." },
+          { questionId: "3(a)", text: "2x = 8" },
+          { questionId: "3(b)", text: "x = 4" }
+        ],
+        maxMarksPerQuestion: 2,
+        strictness: "balanced",
+        subject: "Mathematics"
+      });
+
+      assert.deepEqual(
+        evaluation.questions.map((q) => q.questionId),
+        ["1", "3"]
+      );
+      assert.equal(evaluation.maxTotalMarks, 4);
+      assert.equal(evaluation.questions[1].marksAwarded, 2);
+    } finally {
+      if (provider === undefined) delete process.env.GRADER_PROVIDER;
+      else process.env.GRADER_PROVIDER = provider;
+    }
+  });
+});
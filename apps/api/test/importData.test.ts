@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+
+import {
+  importMarks,
+  importStudents,
+  MarksImportBodySchema,
+  StudentImportBodySchema
+} from "../src/services/importData.js";
+import { getManualScore, importedScoreId } from "../src/services/persistManualScore.js";
+import {
+  createClass,
+  createExam,
+  createSchool,
+  createStudent,
+  listClasses,
+  listStudents
+} from "../src/services/roster.js";
+import { createMemoryStorage, setStorage } from "../src/services/storage.js";
+
+const csv = (...lines: string[]) => Buffer.from(lines.join("\n"));
+
+let schoolId: string;
+
+beforeEach(async () => {
+  setStorage(createMemoryStorage());
+  schoolId = (await createSchool({ name: "Hill School" })).id;
+});
+
+describe("importStudents", () => {
+  const sheet = csv(
+    "Roll No,Student Name,Class,Section,Fees",
+    "1,Asha,9,A,100",
+    "2,,9,A,",
+    "3,Ravi,10,B,"
+  );
+
+  it("creates students and their classes, reporting bad rows by sheet row and unknown columns", async () => {
+    const report = await importStudents(sheet, StudentImportBodySchema.parse({ schoolId }));
+
+    assert.deepEqual(report, {
+      dryRun: false,
+      rows: 3,
+      created: 2,
+      updated: 0,
+      unchanged: 0,
+      failed: 1,
+      ignoredColumns: ["Fees"],
+      errors: [{ row: 3, errors: ["name: Required"] }]
+    });
+    assert.deepEqual(
+      (await listClasses({ schoolId })).map((c) => [c.name, c.section]).sort(),
+      [
+        ["10", "B"],
+        ["9", "A"]
+      ]
+    );
+    assert.deepEqual((await listStudents()).map((s) => s.name).sort(), ["Asha", "Ravi"]);
+  });
+
+  it("matches students by roll number on a second import", async () => {
+    await importStudents(sheet, StudentImportBodySchema.parse({ schoolId }));
+    const renamed = csv("Roll No,Student Name,Class,Section", "1,Asha K,9,A", "3,Ravi,10,B");
+
+    const report = await importStudents(renamed, StudentImportBodySchema.parse({ schoolId }));
+
+    assert.deepEqual([report.created, report.updated, report.unchanged], [0, 1, 1]);
+    assert.deepEqual((await listStudents()).map((s) => s.name).sort(), ["Asha K", "Ravi"]);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const report = await importStudents(sheet, StudentImportBodySchema.parse({ schoolId, dryRun: "true" }));
+
+    assert.equal(report.created, 2);
+    assert.deepEqual(await listClasses({ schoolId }), []);
+    assert.deepEqual(await listStudents(), []);
+  });
+
+  it("maps custom headers and needs a class for every row", async () => {
+    const report = await importStudents(
+      csv("ADM_NO,Pupil", "7,Meera"),
+      StudentImportBodySchema.parse({ columns: '{"ADM_NO":"rollNumber","Pupil":"name"}' })
+    );
+
+    assert.deepEqual(report.errors, [{ row: 2, errors: ["No class: add a class column or send classId"] }]);
+    await assert.rejects(
+      importStudents(csv("Roll No,Class", "1,9"), StudentImportBodySchema.parse({ schoolId })),
+      /Missing columns: name/
+    );
+  });
+});
+
+describe("importMarks", () => {
+  let examId: string;
+  let students: Record<string, string>;
+
+  beforeEach(async () => {
+    const classId = (await createClass({ schoolId, name: "9", section: "A" })).id;
+    examId = (await createExam({ classId, name: "Unit test 1", subject: "Science" })).id;
+    students = {
+      asha: (await createStudent({ classId, rollNumber: "1", name: "Asha" })).id,
+      ravi: (await createStudent({ classId, rollNumber: "2", name: "Ravi" })).id
+    };
+  });
+
+  it("stores totals or per-question marks for students on the roster and rejects the rest", async () => {
+    const report = await importMarks(
+      csv("Roll,Q1,Q2(a),Total", "1,2,3,", "2,,,9", "7,1,1,", "1,5,9,", "2,x,,"),
+      MarksImportBodySchema.parse({ examId, outOf: "10" })
+    );
+
+    assert.deepEqual([report.created, report.updated, report.failed], [2, 0, 3]);
+    assert.deepEqual(report.errors, [
+      { row: 4, errors: ["Roll number 7 is not on the class roster."] },
+      { row: 5, errors: ["Marks 14 exceed the maximum of 10"] },
+      { row: 6, errors: ["questions.1: Expected number, received nan"] }
+    ]);
+
+    const asha = await getManualScore(importedScoreId(examId, students.asha));
+    assert.equal(asha?.obtained, 5);
+    assert.equal(asha?.outOf, 10);
+    assert.deepEqual(asha?.questions, [
+      { questionId: "1", marks: 2 },
+      { questionId: "2(a)", marks: 3 }
+    ]);
+    assert.equal((await getManualScore(importedScoreId(examId, students.ravi)))?.obtained, 9);
+  });
+
+  it("updates a student's imported marks on a second import", async () => {
+    const body = MarksImportBodySchema.parse({ examId, outOf: "10" });
+    await importMarks(csv("Roll,Marks", "1,4"), body);
+
+    const report = await importMarks(csv("Roll,Marks", "1,6"), body);
+
+    assert.deepEqual([report.created, report.updated], [0, 1]);
+    assert.equal((await getManualScore(importedScoreId(examId, students.asha)))?.obtained, 6);
+  });
+
+  it("needs a maximum and a marks column", async () => {
+    const report = await importMarks(csv("Roll,Marks", "1,4"), MarksImportBodySchema.parse({ examId }));
+    assert.deepEqual(report.errors, [{ row: 2, errors: ["No maximum marks: add an outOf column or send outOf"] }]);
+
+    await assert.rejects(
+      importMarks(csv("Roll,Remarks", "1,good"), MarksImportBodySchema.parse({ examId })),
+      /needs a marks column or per-question columns/
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+
+import {
+  cancelJob,
+  createInMemoryJobStore,
+  getJob,
+  setJobStore,
+  submitJob,
+  type JobRecord,
+  type JobStore
+} from "../src/services/jobs.js";
+
+const describeError = (err: unknown) => ({ status: 500, body: { error: String(err) } });
+
+// A promise with its resolve function, for stepping a job or the store by hand.
+function gate<T = void>() {
+  let open!: (value: T) => void;
+  const promise = new Promise<T>((resolve) => (open = resolve));
+  return { promise, open };
+}
+
+async function waitFor(check: () => Promise<boolean>) {
+  for (let i = 0; i < 200; i++) {
+    if (await check()) return;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error("waitFor: timed out");
+}
+
+async function statusOf(id: string) {
+  return (await getJob(id))?.status;
+}
+
+afterEach(() => {
+  setJobStore(createInMemoryJobStore());
+});
+
+describe("cancelJob", () => {
+  it("cancels a running job and keeps it cancelled when the run ends", async () => {
+    setJobStore(createInMemoryJobStore());
+    const finished = gate<string>();
+    const job = await submitJob("evaluate", () => finished.promise, describeError);
+    await waitFor(async () => (await statusOf(job.id)) === "running");
+
+    const cancelled = await cancelJob(job.id);
+    finished.open("result");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.equal(cancelled?.status, "cancelled");
+    assert.equal(await statusOf(job.id), "cancelled");
+    assert.equal((await getJob(job.id))?.result, null);
+  });
+
+  it("returns a job that finished while its result was being stored, not a cancelled one", async () => {
+    const inner = createInMemoryJobStore();
+    const storing = gate();
+    const stored = gate();
+    // Holds the "succeeded" write until the cancel has been asked for.
+    const store: JobStore = {
+      async save(job: JobRecord) {
+        if (job.status === "succeeded") {
+          storing.open();
+          await stored.promise;
+        }
+        await inner.save(job);
+      },
+      get: (id) => inner.get(id)
+    };
+    setJobStore(store);
+
+    const job = await submitJob("evaluate", async () => "result", describeError);
+    await storing.promise;
+    const cancel = cancelJob(job.id);
+    stored.open();
+
+    const final = await cancel;
+    assert.equal(final?.status, "succeeded");
+    assert.equal(final?.result, "result");
+    assert.equal(await statusOf(job.id), "succeeded");
+  });
+
+  it("returns finished jobs unchanged and null for unknown ids", async () => {
+    setJobStore(createInMemoryJobStore());
+    const job = await submitJob("evaluate", async () => "result", describeError);
+    await waitFor(async () => (await statusOf(job.id)) === "succeeded");
+
+    assert.equal((await cancelJob(job.id))?.status, "succeeded");
+    assert.equal(await cancelJob("missing"), null);
+  });
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { z } from "zod";
+
+import { generateJson, getLlmUsage, type LlmTarget } from "../src/services/llm.js";
+import { chatCompletionReply, errorReply, startLlmStub, type LlmStub } from "./llmStub.js";
+
+const AnswerSchema = z.object({ answer: z.string() });
+
+let stub: LlmStub;
+
+before(async () => {
+  stub = await startLlmStub();
+  process.env.LLM_RETRY_BASE_MS = "1";
+  process.env.LLM_MAX_RETRIES = "0";
+  process.env.LLM_MAX_ATTEMPTS = "2";
+});
+
+after(async () => {
+  await stub.close();
+});
+
+beforeEach(() => {
+  stub.requests.length = 0;
+});
+
+// Each test gets its own base URL, so its usage totals are its own.
+function target(name: string, models: string[]): LlmTarget {
+  return { provider: "openai_compatible", models, baseUrl: `${stub.url}/${name}/v1`, apiKey: null };
+}
+
+function ask(t: LlmTarget) {
+  return generateJson({
+    purpose: "alignment",
+    target: t,
+    schema: AnswerSchema,
+    schemaName: "answer",
+    messages: [{ role: "user", content: "Reply with {\"answer\": \"...\"}" }],
+    temperature: 0
+  });
+}
+
+function totalsFor(model: string) {
+  return getLlmUsage().totals.find((t) => t.model === model);
+}
+
+describe("model fallback", () => {
+  it("moves to the next model when the first one is not found", async () => {
+    stub.reply(
+      errorReply(404, { message: "The model `gone` does not exist", code: "model_not_found" }),
+      chatCompletionReply(JSON.stringify({ answer: "yes" }))
+    );
+
+    const { data, usage } = await ask(target("fallback-404", ["gone", "backup"]));
+
+    assert.deepEqual(data, { answer: "yes" });
+    assert.equal(usage.model, "backup");
+    assert.deepEqual(
+      stub.requests.map((r) => r.body.model),
+      ["gone", "backup"]
+    );
+  });
+
+  it("does not hide request errors behind the fallback model", async () => {
+    const tooLong = { message: "This model's maximum context length is 8192 tokens", code: "context_length_exceeded" };
+    // Rejected with response_format, then again without it: the request itself is at fault.
+    stub.reply(errorReply(400, tooLong), errorReply(400, tooLong));
+
+    await assert.rejects(ask(target("no-fallback-400", ["primary-400", "backup-400"])), /maximum context length/);
+    assert.ok(stub.requests.every((r) => r.body.model === "primary-400"));
+  });
+});
+
+describe("usage accounting", () => {
+  it("records the tokens of attempts made before a failure", async () => {
+    stub.reply(chatCompletionReply("not json"), errorReply(500, { message: "server fell over" }));
+
+    await assert.rejects(ask(target("usage-error", ["spent-model"])), /500/);
+
+    const total = totalsFor("spent-model");
+    assert.equal(total?.calls, 1);
+    assert.equal(total?.failed, 1);
+    assert.equal(total?.inputTokens, 120);
+    assert.equal(total?.outputTokens, 40);
+    const recent = getLlmUsage().recent.find((u) => u.model === "spent-model");
+    assert.equal(recent?.attempts, 2);
+    assert.match(recent?.error ?? "", /500/);
+  });
+
+  it("records a call that ran out of repair attempts", async () => {
+    stub.reply(chatCompletionReply("{}"), chatCompletionReply("{}"));
+
+    await assert.rejects(ask(target("usage-invalid", ["stubborn-model"])), /invalid JSON after 2 attempts/);
+
+    const total = totalsFor("stubborn-model");
+    assert.equal(total?.failed, 1);
+    assert.equal(total?.inputTokens, 240);
+  });
+});
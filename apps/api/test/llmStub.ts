@@ -0,0 +1,58 @@
+import http from "http";
+import type { AddressInfo } from "net";
+
+// A local stand-in for Ollama's /api/chat and OpenAI-compatible /chat/completions servers. Each request is answered
+// by the next queued reply; every request body is kept for assertions.
+
+export type StubReply = { status?: number; headers?: Record<string, string>; body: unknown };
+export type StubRequest = { path: string; body: Record<string, unknown> };
+
+export type LlmStub = {
+  url: string;
+  requests: StubRequest[];
+  reply: (...replies: StubReply[]) => void;
+  close: () => Promise<void>;
+};
+
+export async function startLlmStub(): Promise<LlmStub> {
+  const requests: StubRequest[] = [];
+  const queue: StubReply[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      requests.push({ path: req.url ?? "", body: JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}") });
+      const next = queue.shift() ?? { status: 500, body: { error: { message: "stub: no reply queued" } } };
+      res.writeHead(next.status ?? 200, { "Content-Type": "application/json", ...next.headers });
+      res.end(JSON.stringify(next.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    reply: (...replies) => queue.push(...replies),
+    close: () => new Promise((resolve) => server.close(() => resolve()))
+  };
+}
+
+// Response bodies in each server's format, carrying `content` as the model's text.
+export function ollamaReply(content: string): StubReply {
+  return { body: { message: { role: "assistant", content }, done: true, prompt_eval_count: 120, eval_count: 40 } };
+}
+
+export function chatCompletionReply(content: string): StubReply {
+  return {
+    body: {
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 120, completion_tokens: 40 }
+    }
+  };
+}
+
+export function errorReply(status: number, error: { message: string; code?: string; type?: string }): StubReply {
+  return { status, body: { error } };
+}
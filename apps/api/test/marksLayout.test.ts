@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { isIdentifierLine, readMarksLayout } from "../src/services/marksLayout.js";
+import type { OcrLine } from "../src/services/ocr.js";
+
+// One OCR line at height `y`: each word is [text, left edge, its own height], 12px per character and `height` tall.
+function line(y: number, words: Array<[string, number, number?]>, height = 20, page?: number): OcrLine {
+  const ocrWords = words.map(([text, x0, wordHeight = height]) => ({
+    text,
+    confidence: 0.9,
+    bbox: { x0, y0: y, x1: x0 + text.length * 12, y1: y + wordHeight }
+  }));
+  return {
+    text: words.map(([text]) => text).join(" "),
+    confidence: 0.9,
+    bbox: { x0: ocrWords[0].bbox.x0, y0: y, x1: ocrWords[ocrWords.length - 1].bbox.x1, y1: y + height },
+    words: ocrWords,
+    page
+  };
+}
+
+describe("readMarksLayout", () => {
+  it("reads the value right of a total label, with its maximum", () => {
+    const layout = readMarksLayout([
+      line(50, [["Roll", 100], ["No", 160], ["12", 200]]),
+      line(100, [["Total", 100], ["Marks:", 170], ["27", 260], ["/", 290], ["40", 310]])
+    ]);
+
+    assert.deepEqual(layout.total, { obtained: 27, outOf: 40, raw: "27 / 40", ocrConfidence: 0.9 });
+  });
+
+  it("reads the value below a label", () => {
+    const layout = readMarksLayout([line(100, [["Marks", 100], ["Obtained", 170]]), line(130, [["18", 120]])]);
+
+    assert.equal(layout.total?.obtained, 18);
+  });
+
+  it("keeps the maximum marks apart from the total", () => {
+    const layout = readMarksLayout([
+      line(100, [["Max.", 100], ["Marks", 160], ["50", 240]]),
+      line(130, [["Obtained", 100], ["Marks", 200], ["35", 280]])
+    ]);
+
+    assert.equal(layout.maxMarks, 50);
+    assert.equal(layout.total?.obtained, 35);
+  });
+
+  it("reads a question table with marks under each label", () => {
+    const layout = readMarksLayout([
+      line(100, [["Q1", 100], ["Q2", 200], ["Q3", 300], ["Total", 400]]),
+      line(130, [["4", 100], ["3", 200], ["5", 300], ["12", 400]])
+    ]);
+
+    assert.deepEqual(layout.questions, [
+      { questionId: "1", marks: 4, outOf: null },
+      { questionId: "2", marks: 3, outOf: null },
+      { questionId: "3", marks: 5, outOf: null }
+    ]);
+    assert.equal(layout.total?.obtained, 12);
+  });
+
+  it("reads a table with one question per row and doesn't take its Marks heading for the total", () => {
+    const layout = readMarksLayout([
+      line(100, [["Q.No", 100], ["Marks", 200]]),
+      line(130, [["Q", 100], ["1", 115], ["4", 210]]),
+      line(160, [["Q", 100], ["2", 115], ["3", 210]])
+    ]);
+
+    assert.deepEqual(
+      layout.questions.map((q) => [q.questionId, q.marks]),
+      [
+        ["1", 4],
+        ["2", 3]
+      ]
+    );
+    assert.equal(layout.total, null);
+  });
+
+  it("doesn't read a lone question label as a table", () => {
+    const layout = readMarksLayout([line(100, [["Q1", 100], ["5", 140]])]);
+
+    assert.deepEqual(layout.questions, []);
+  });
+
+  it("finds a large handwritten number, but not on an identifier line", () => {
+    const layout = readMarksLayout([
+      line(50, [["Name", 100], ["Asha", 180]]),
+      line(80, [["Roll", 100], ["No", 160], ["99", 200, 80]]),
+      line(200, [["27", 300]], 60),
+      line(300, [["Signature", 100]])
+    ]);
+
+    assert.equal(layout.prominent?.obtained, 27);
+  });
+
+  it("uses the template's page, region and label", () => {
+    const lines = [
+      line(0, [["Score", 0], ["10", 80]], 20, 1),
+      line(0, [["Name", 0], ["Asha", 80]], 20, 2),
+      line(0, [["Result", 600], ["7", 700]], 20, 2),
+      line(400, [["Score", 0], ["30", 80]], 20, 2),
+      line(400, [["Result", 600], ["25", 700]], 20, 2)
+    ];
+
+    const layout = readMarksLayout(lines, {
+      page: 2,
+      region: { x0: 0.5, y0: 0.5, x1: 1, y1: 1 },
+      totalLabel: "Result"
+    });
+
+    assert.equal(layout.total?.obtained, 25);
+    assert.equal(layout.regionText, "Result 25");
+    assert.equal(readMarksLayout(lines, { page: 2 }).total?.obtained, 30);
+  });
+});
+
+describe("isIdentifierLine", () => {
+  it("recognizes roll numbers, classes and dates", () => {
+    assert.equal(isIdentifierLine("Roll No 12"), true);
+    assert.equal(isIdentifierLine("Class IX Sec B"), true);
+    assert.equal(isIdentifierLine("12/03/2026"), true);
+    assert.equal(isIdentifierLine("Total 27"), false);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { createLocalStorage, createMemoryStorage, type Repository, type Storage } from "../src/services/storage.js";
+
+type Doc = { name: string; count: number; batch?: { batchId: string } };
+
+let dataDir: string;
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "storage-test-"));
+});
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+// Any collection will do; the repositories are the same for each.
+function repository(storage: Storage): Repository<Doc> {
+  return storage.papers as unknown as Repository<Doc>;
+}
+
+const backends: Array<[string, () => Storage]> = [
+  ["local", () => createLocalStorage(path.join(dataDir, String(Math.random()).slice(2)))],
+  ["memory", () => createMemoryStorage()]
+];
+
+for (const [backend, create] of backends) {
+  describe(`${backend} storage`, () => {
+    it("saves, gets and overwrites documents", async () => {
+      const repo = repository(create());
+
+      assert.equal(await repo.get("missing"), null);
+      await repo.save("a1", { name: "first", count: 1 });
+      await repo.save("a1", { name: "second", count: 2 });
+
+      assert.deepEqual(await repo.get("a1"), { name: "second", count: 2 });
+    });
+
+    it("returns copies, not the stored document", async () => {
+      const repo = repository(create());
+      const doc = { name: "first", count: 1 };
+      await repo.save("a1", doc);
+      doc.count = 99;
+
+      const read = await repo.get("a1");
+      assert.equal(read?.count, 1);
+      read!.count = 50;
+      assert.equal((await repo.get("a1"))?.count, 1);
+    });
+
+    it("updates an existing document and leaves missing ones alone", async () => {
+      const repo = repository(create());
+      await repo.save("a1", { name: "first", count: 1 });
+
+      const updated = await repo.update("a1", (doc) => ({ ...doc, count: doc.count + 1 }));
+
+      assert.deepEqual(updated, { name: "first", count: 2 });
+      assert.deepEqual(await repo.get("a1"), { name: "first", count: 2 });
+      assert.equal(await repo.update("missing", (doc) => doc), null);
+      assert.equal(await repo.get("missing"), null);
+    });
+
+    it("lists documents matching every field, including dotted ones", async () => {
+      const repo = repository(create());
+      await repo.save("a1", { name: "x", count: 1, batch: { batchId: "b1" } });
+      await repo.save("a2", { name: "x", count: 2, batch: { batchId: "b2" } });
+      await repo.save("a3", { name: "y", count: 1 });
+
+      const ids = async (where?: Record<string, string | number>) =>
+        (await repo.list(where)).map((entry) => entry.id).sort();
+
+      assert.deepEqual(await ids(), ["a1", "a2", "a3"]);
+      assert.deepEqual(await ids({ name: "x" }), ["a1", "a2"]);
+      assert.deepEqual(await ids({ name: "x", count: 1 }), ["a1"]);
+      assert.deepEqual(await ids({ "batch.batchId": "b2" }), ["a2"]);
+      assert.deepEqual(await ids({ name: "z" }), []);
+    });
+
+    it("refuses ids that could escape the collection", async () => {
+      const repo = repository(create());
+
+      for (const id of ["../escape", "a/b", "a.json", "", "x".repeat(129)]) {
+        await assert.rejects(repo.save(id, { name: "bad", count: 0 }), /Invalid document id/);
+        assert.equal(await repo.get(id), null);
+        assert.equal(await repo.update(id, (doc) => doc), null);
+      }
+    });
+
+    it("applies concurrent updates one after another", async () => {
+      const repo = repository(create());
+      await repo.save("counter", { name: "counter", count: 0 });
+
+      await Promise.all(
+        Array.from({ length: 20 }, () => repo.update("counter", (doc) => ({ ...doc, count: doc.count + 1 })))
+      );
+
+      assert.equal((await repo.get("counter"))?.count, 20);
+    });
+
+    it("keeps updating after a change fails", async () => {
+      const repo = repository(create());
+      await repo.save("a1", { name: "first", count: 1 });
+
+      await assert.rejects(
+        repo.update("a1", () => {
+          throw new Error("bad change");
+        }),
+        /bad change/
+      );
+      await repo.update("a1", (doc) => ({ ...doc, count: 2 }));
+
+      assert.equal((await repo.get("a1"))?.count, 2);
+    });
+  });
+}
+
+describe("local storage files", () => {
+  it("writes one JSON file per document and leaves no temporary files", async () => {
+    const dir = path.join(dataDir, "files");
+    const repo = repository(createLocalStorage(dir));
+
+    await Promise.all([
+      repo.save("a1", { name: "first", count: 1 }),
+      repo.save("a2", { name: "second", count: 2 }),
+      repo.save("a1", { name: "again", count: 3 })
+    ]);
+
+    assert.deepEqual((await fs.readdir(path.join(dir, "papers"))).sort(), ["a1.json", "a2.json"]);
+    const stored = JSON.parse(await fs.readFile(path.join(dir, "papers", "a2.json"), "utf8"));
+    assert.deepEqual(stored, { name: "second", count: 2 });
+  });
+
+  it("keeps documents across instances on the same directory", async () => {
+    const dir = path.join(dataDir, "restart");
+    await repository(createLocalStorage(dir)).save("a1", { name: "kept", count: 1 });
+
+    assert.deepEqual(await repository(createLocalStorage(dir)).get("a1"), { name: "kept", count: 1 });
+  });
+});
@@ -1,5 +1,7 @@
 import { useMemo, useState } from "react";
 
+import Dashboard from "./Dashboard";
+
 type Deduction = { reason: string; marks: number };
 type QuestionResult = {
   questionId: string;
@@ -8,6 +10,10 @@ type QuestionResult = {
   feedback: string;
   deductions: Deduction[];
   weakAreas: string[];
+  awardedRubricPoints: string[];
+  confidence?: number;
+  consistency?: { samples: Array<{ model: string; marksAwarded: number }>; spread: number; disagreement: boolean };
+  coverage?: Array<{ text: string; covered: boolean; similarity: number; match: string | null }>;
 };
 type Evaluation = {
   totalMarks: number;
@@ -18,8 +24,68 @@ type Evaluation = {
   questions: QuestionResult[];
 };
 
+type AnswerSource = { questionId: string; pages: number[]; files: string[] };
+
+// Which question a numbered student answer is graded as (null: not graded).
+type AlignmentEntry = {
+  studentQuestionId: string;
+  questionId: string | null;
+  similarity: number;
+  method: "id" | "content" | "llm" | "manual";
+};
+
+const ALIGNMENT_METHOD_LABELS: Record<AlignmentEntry["method"], string> = {
+  id: "Matched by number",
+  content: "Matched by content",
+  llm: "Matched by LLM",
+  manual: "Set by teacher"
+};
+
+// Low-confidence, hard-to-read or renumbered questions must be confirmed or edited before marking reviewed.
+type ReviewFlag = { questionId: string; reasons: string[]; resolved: boolean };
+type ReviewState = {
+  status: "pending" | "reviewed";
+  flags: ReviewFlag[];
+  reviewedBy: string | null;
+  reviewedAtIso: string | null;
+};
+
+type QuestionDraft = { marksAwarded: string; feedback: string; deductions: Deduction[]; reason: string; marks: string };
+
 type PaperSectionType = "mcq" | "short" | "long" | "case_based" | "mixed";
 
+type JobStatus = {
+  jobId: string;
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled";
+  stage: string | null;
+  progress: { completed: number; total: number } | null;
+  error: { error?: string; warnings?: string[] } | null;
+};
+
+const STAGE_LABELS: Record<string, string> = {
+  extracting: "Extracting text",
+  parsing: "Parsing answers",
+  grading: "Grading",
+  rendering_pdf: "Rendering PDF",
+  generating: "Generating paper",
+  validating: "Validating paper"
+};
+
+function describeJob(job: JobStatus): string {
+  if (job.status === "queued") return "Queued...";
+  const label = (job.stage && STAGE_LABELS[job.stage]) || "Working";
+  return job.progress ? `${label} (${job.progress.completed}/${job.progress.total})...` : `${label}...`;
+}
+
+class JobFailedError extends Error {
+  constructor(
+    message: string,
+    readonly warnings: string[]
+  ) {
+    super(message);
+  }
+}
+
 function marksEachForType(t: PaperSectionType): number {
   if (t === "mcq") return 1;
   if (t === "short") return 3;
@@ -29,10 +95,11 @@ function marksEachForType(t: PaperSectionType): number {
 }
 
 export default function App() {
-  const [mode, setMode] = useState<"evaluate" | "scanScore" | "generatePaper">("evaluate");
+  const [mode, setMode] = useState<"evaluate" | "scanScore" | "generatePaper" | "dashboard">("evaluate");
 
-  const [modelFile, setModelFile] = useState<File | null>(null);
-  const [studentFile, setStudentFile] = useState<File | null>(null);
+  // Multiple page photos per side; the API orders them by filename.
+  const [modelFiles, setModelFiles] = useState<File[]>([]);
+  const [studentFiles, setStudentFiles] = useState<File[]>([]);
   const [modelText, setModelText] = useState("");
   const [studentText, setStudentText] = useState("");
   const [maxMarksPerQuestion, setMaxMarksPerQuestion] = useState(5);
@@ -40,11 +107,20 @@ export default function App() {
   const [subject, setSubject] = useState("");
 
   const [loading, setLoading] = useState(false);
+  const [job, setJob] = useState<JobStatus | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [warnings, setWarnings] = useState<string[]>([]);
   const [evaluation, setEvaluation] = useState<Evaluation | null>(null);
   const [pdfBase64, setPdfBase64] = useState<string | null>(null);
   const [evaluationId, setEvaluationId] = useState<string | null>(null);
+  const [answerSources, setAnswerSources] = useState<AnswerSource[]>([]);
+  const [alignment, setAlignment] = useState<AlignmentEntry[]>([]);
+  const [alignQuestionIds, setAlignQuestionIds] = useState<string[]>([]);
+  // Set once "Check numbering" proposed a mapping or the teacher edited it; Evaluate then grades with that mapping.
+  const [alignmentChosen, setAlignmentChosen] = useState(false);
+  const [review, setReview] = useState<ReviewState | null>(null);
+  const [reviewer, setReviewer] = useState("");
+  const [editing, setEditing] = useState<{ questionId: string; draft: QuestionDraft } | null>(null);
 
   const [scoreImage, setScoreImage] = useState<File | null>(null);
   const [expectedOutOf, setExpectedOutOf] = useState<number>(30);
@@ -80,6 +156,11 @@ export default function App() {
     return { sections, totalMarks };
   }, [paperSpec]);
 
+  const answerSourceLabels = useMemo(
+    () => new Map(answerSources.map((s) => [s.questionId, `Answer on page ${s.pages.join(", ")} (${s.files.join(", ")})`])),
+    [answerSources]
+  );
+
   const canSubmit = useMemo(() => {
     if (mode === "scanScore") return !!scoreImage && !loading;
     if (mode === "generatePaper") {
@@ -87,10 +168,10 @@ export default function App() {
       const validCounts = computedPaperTotals.sections.every((s) => Number.isFinite(s.numQuestions) && s.numQuestions > 0);
       return paperSpec.subject.trim().length > 0 && hasSections && validCounts && !loading;
     }
-    const hasModel = modelText.trim().length > 0 || !!modelFile;
-    const hasStudent = studentText.trim().length > 0 || !!studentFile;
+    const hasModel = modelText.trim().length > 0 || modelFiles.length > 0;
+    const hasStudent = studentText.trim().length > 0 || studentFiles.length > 0;
     return hasModel && hasStudent && !loading;
-  }, [mode, scoreImage, paperSpec.subject, computedPaperTotals, modelText, modelFile, studentText, studentFile, loading]);
+  }, [mode, scoreImage, paperSpec.subject, computedPaperTotals, modelText, modelFiles, studentText, studentFiles, loading]);
 
   async function onSubmit() {
     setLoading(true);
@@ -99,6 +180,9 @@ export default function App() {
     setEvaluation(null);
     setPdfBase64(null);
     setEvaluationId(null);
+    setAnswerSources([]);
+    setReview(null);
+    setEditing(null);
     setExtractedScore(null);
     setGeneratedPaper(null);
     setPaperPdfBase64(null);
@@ -107,7 +191,7 @@ export default function App() {
 
     try {
       const form = new FormData();
-      let url = "/api/evaluate";
+      let url = "/api/jobs/evaluate";
 
       if (mode === "scanScore") {
         url = "/api/extract-score";
@@ -140,16 +224,11 @@ export default function App() {
           }))
         };
 
-        const res = await fetch("/api/generate-paper", {
+        const json = await runJob("/api/jobs/generate-paper", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(spec)
         });
-        const json = await res.json();
-        if (!res.ok) {
-          setWarnings(Array.isArray(json?.warnings) ? json.warnings : []);
-          throw new Error(json?.error || "Request failed");
-        }
 
         setGeneratedPaper(json.paper);
         setPaperPdfBase64(json.paperPdfBase64);
@@ -158,38 +237,172 @@ export default function App() {
         setWarnings(Array.isArray(json?.warnings) ? json.warnings : []);
         return;
       } else {
-        if (modelFile) form.append("modelFile", modelFile);
-        if (studentFile) form.append("studentFile", studentFile);
-        if (modelText.trim()) form.append("modelText", modelText.trim());
-        if (studentText.trim()) form.append("studentText", studentText.trim());
-        form.append("maxMarksPerQuestion", String(maxMarksPerQuestion));
-        form.append("strictness", strictness);
-        if (subject.trim()) form.append("subject", subject.trim());
-      }
-
-      const res = await fetch(url, { method: "POST", body: form });
-      const json = await res.json();
-      if (!res.ok) {
-        setWarnings(Array.isArray(json?.warnings) ? json.warnings : []);
-        throw new Error(json?.error || "Request failed");
+        appendEvaluateFields(form);
+        if (alignmentChosen) {
+          form.append("alignment", JSON.stringify(Object.fromEntries(alignment.map((a) => [a.studentQuestionId, a.questionId]))));
+        }
       }
 
       if (mode === "scanScore") {
+        const res = await fetch(url, { method: "POST", body: form });
+        const json = await res.json();
+        if (!res.ok) {
+          setWarnings(Array.isArray(json?.warnings) ? json.warnings : []);
+          throw new Error(json?.error || "Request failed");
+        }
         setExtractedScore(json);
         setWarnings(Array.isArray(json?.warnings) ? json.warnings : []);
       } else {
+        const json = await runJob(url, { method: "POST", body: form });
         setEvaluation(json.evaluation as Evaluation);
         setPdfBase64(json.pdfBase64 as string);
         setEvaluationId(json.evaluationId as string);
+        setAnswerSources(Array.isArray(json?.answerSources) ? json.answerSources : []);
+        setAlignment(Array.isArray(json?.alignment) ? json.alignment : []);
+        setAlignQuestionIds((json.evaluation as Evaluation).questions.map((q) => q.questionId));
+        setReview((json.review as ReviewState) ?? null);
         setWarnings(Array.isArray(json?.warnings) ? json.warnings : []);
       }
     } catch (e: any) {
+      if (e instanceof JobFailedError) setWarnings(e.warnings);
       setError(e?.message || "Something went wrong");
+    } finally {
+      setLoading(false);
+      setJob(null);
+    }
+  }
+
+  function appendEvaluateFields(form: FormData) {
+    for (const f of modelFiles) form.append("modelFile", f);
+    for (const f of studentFiles) form.append("studentFile", f);
+    if (modelText.trim()) form.append("modelText", modelText.trim());
+    if (studentText.trim()) form.append("studentText", studentText.trim());
+    form.append("maxMarksPerQuestion", String(maxMarksPerQuestion));
+    form.append("strictness", strictness);
+    if (subject.trim()) form.append("subject", subject.trim());
+  }
+
+  // Previews how student answers map onto questions so the teacher can fix the numbering before grading.
+  async function checkAlignment() {
+    setLoading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      appendEvaluateFields(form);
+      // The API joins strictly by number unless asked; here the teacher wants renumbered answers found.
+      form.append("alignBy", "content");
+      const res = await fetch("/api/align", { method: "POST", body: form });
+      const json = await res.json();
+      setWarnings(Array.isArray(json?.warnings) ? json.warnings : []);
+      if (!res.ok) throw new Error(json?.error || "Request failed");
+      setAlignment(json.alignment as AlignmentEntry[]);
+      setAlignQuestionIds((json.questions as Array<{ questionId: string }>).map((q) => q.questionId));
+      setAlignmentChosen(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateAlignment(studentQuestionId: string, questionId: string | null) {
+    setAlignment((current) =>
+      current.map((a) => (a.studentQuestionId === studentQuestionId ? { ...a, questionId, method: "manual" } : a))
+    );
+    setAlignmentChosen(true);
+  }
+
+  const openFlags = useMemo(
+    () => new Map((review?.flags ?? []).filter((f) => !f.resolved).map((f) => [f.questionId, f])),
+    [review]
+  );
+
+  // Saves a teacher edit as a new revision; the server recomputes totals and regenerates the PDF.
+  async function saveReview(edit: Record<string, unknown>) {
+    if (!evaluationId) return;
+    if (!reviewer.trim()) {
+      setError("Enter your name as reviewer first.");
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/evaluation/${evaluationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ editedBy: reviewer.trim(), ...edit })
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Request failed");
+      setEvaluation(json.evaluation as Evaluation);
+      setReview(json.review as ReviewState);
+      setPdfBase64(json.pdfBase64 as string);
+      setEditing(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
     } finally {
       setLoading(false);
     }
   }
 
+  function startEditing(q: QuestionResult) {
+    setEditing({
+      questionId: q.questionId,
+      draft: { marksAwarded: String(q.marksAwarded), feedback: q.feedback, deductions: q.deductions, reason: "", marks: "1" }
+    });
+  }
+
+  function updateDraft(patch: Partial<QuestionDraft>) {
+    setEditing((current) => (current ? { ...current, draft: { ...current.draft, ...patch } } : current));
+  }
+
+  function saveEditing() {
+    if (!editing) return;
+    const { draft } = editing;
+    void saveReview({
+      questions: [
+        {
+          questionId: editing.questionId,
+          marksAwarded: Number(draft.marksAwarded),
+          feedback: draft.feedback,
+          deductions: draft.deductions
+        }
+      ]
+    });
+  }
+
+  // Submits a background job, polls its stage until it finishes, then fetches the result.
+  async function runJob(url: string, init: RequestInit) {
+    const res = await fetch(url, init);
+    const submitted = await res.json();
+    if (!res.ok) throw new JobFailedError(submitted?.error || "Request failed", submitted?.warnings ?? []);
+
+    let current = submitted as JobStatus;
+    setJob(current);
+    while (current.status === "queued" || current.status === "running") {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const poll = await fetch(`/api/jobs/${current.jobId}`);
+      if (!poll.ok) throw new Error("Lost track of the job");
+      current = (await poll.json()) as JobStatus;
+      setJob(current);
+    }
+
+    if (current.status === "cancelled") throw new Error("Cancelled");
+    if (current.status === "failed") {
+      throw new JobFailedError(current.error?.error || "Request failed", current.error?.warnings ?? []);
+    }
+
+    const result = await fetch(`/api/jobs/${current.jobId}/result`);
+    const json = await result.json();
+    if (!result.ok) throw new JobFailedError(json?.error || "Request failed", json?.warnings ?? []);
+    return json;
+  }
+
+  async function cancelJob() {
+    if (!job) return;
+    await fetch(`/api/jobs/${job.jobId}/cancel`, { method: "POST" }).catch(() => null);
+  }
+
   function downloadPdf() {
     if (!pdfBase64) return;
     const bytes = Uint8Array.from(atob(pdfBase64), (c) => c.charCodeAt(0));
@@ -245,272 +458,311 @@ export default function App() {
             >
               Generate Paper
             </button>
+            <button
+              className={mode === "dashboard" ? "tab tabActive" : "tab"}
+              onClick={() => setMode("dashboard")}
+              type="button"
+            >
+              Dashboard
+            </button>
           </div>
         </div>
       </header>
 
       <main className="main">
-        <section className="card">
-          <div className="cardHeader">
-            <h2>
-              {mode === "generatePaper"
-                ? "AI Question Paper Generator"
-                : mode === "scanScore"
-                  ? "Scan First Page Marks"
-                  : "Evaluate Paper"}
-            </h2>
-            <p>
-              {mode === "generatePaper"
-                ? "Enter paper settings, generate a full-length test PDF plus a separate solutions PDF."
-                : mode === "scanScore"
-                ? "Teacher checks the full copy manually, then upload only the first page photo to capture marks like 23/30."
-                : "Upload PDFs/images or paste text. For handwriting, enable Google Vision OCR in the API."}
-            </p>
-          </div>
+        {mode === "dashboard" ? (
+          <Dashboard />
+        ) : (
+          <section className="card">
+            <div className="cardHeader">
+              <h2>
+                {mode === "generatePaper"
+                  ? "AI Question Paper Generator"
+                  : mode === "scanScore"
+                    ? "Scan First Page Marks"
+                    : "Evaluate Paper"}
+              </h2>
+              <p>
+                {mode === "generatePaper"
+                  ? "Enter paper settings, generate a full-length test PDF plus a separate solutions PDF."
+                  : mode === "scanScore"
+                  ? "Teacher checks the full copy manually, then upload only the first page photo to capture marks like 23/30."
+                  : "Upload PDFs/images or paste text. For handwriting, enable Google Vision OCR in the API."}
+              </p>
+            </div>
 
-          {mode === "generatePaper" ? (
-            <div className="grid">
-              <div className="field">
-                <label>Class</label>
-                <input
-                  type="number"
-                  min={1}
-                  max={12}
-                  value={paperSpec.classLevel}
-                  onChange={(e) => setPaperSpec((p) => ({ ...p, classLevel: Number(e.target.value) }))}
-                />
-              </div>
-              <div className="field">
-                <label>Subject</label>
-                <input value={paperSpec.subject} onChange={(e) => setPaperSpec((p) => ({ ...p, subject: e.target.value }))} />
-              </div>
-              <div className="field">
-                <label>Board</label>
-                <input value={paperSpec.board} onChange={(e) => setPaperSpec((p) => ({ ...p, board: e.target.value }))} placeholder="CBSE / ICSE / State" />
-              </div>
-              <div className="field">
-                <label>Chapters (comma separated)</label>
-                <input value={paperSpec.chapters} onChange={(e) => setPaperSpec((p) => ({ ...p, chapters: e.target.value }))} />
-              </div>
-              <div className="field">
-                <label>Topics (comma separated)</label>
-                <input value={paperSpec.topics} onChange={(e) => setPaperSpec((p) => ({ ...p, topics: e.target.value }))} placeholder="optional" />
-              </div>
-              <div className="field">
-                <label>Duration (minutes)</label>
-                <input
-                  type="number"
-                  min={10}
-                  max={600}
-                  value={paperSpec.durationMinutes}
-                  onChange={(e) => setPaperSpec((p) => ({ ...p, durationMinutes: Number(e.target.value) }))}
-                />
-              </div>
-              <div className="field">
-                <label>Difficulty</label>
-                <select value={paperSpec.difficulty} onChange={(e) => setPaperSpec((p) => ({ ...p, difficulty: e.target.value as any }))}>
-                  <option value="easy">Easy</option>
-                  <option value="moderate">Moderate</option>
-                  <option value="hard">Hard</option>
-                  <option value="mixed">Mixed</option>
-                </select>
-              </div>
+            {mode === "generatePaper" ? (
+              <div className="grid">
+                <div className="field">
+                  <label>Class</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={12}
+                    value={paperSpec.classLevel}
+                    onChange={(e) => setPaperSpec((p) => ({ ...p, classLevel: Number(e.target.value) }))}
+                  />
+                </div>
+                <div className="field">
+                  <label>Subject</label>
+                  <input value={paperSpec.subject} onChange={(e) => setPaperSpec((p) => ({ ...p, subject: e.target.value }))} />
+                </div>
+                <div className="field">
+                  <label>Board</label>
+                  <input value={paperSpec.board} onChange={(e) => setPaperSpec((p) => ({ ...p, board: e.target.value }))} placeholder="CBSE / ICSE / State" />
+                </div>
+                <div className="field">
+                  <label>Chapters (comma separated)</label>
+                  <input value={paperSpec.chapters} onChange={(e) => setPaperSpec((p) => ({ ...p, chapters: e.target.value }))} />
+                </div>
+                <div className="field">
+                  <label>Topics (comma separated)</label>
+                  <input value={paperSpec.topics} onChange={(e) => setPaperSpec((p) => ({ ...p, topics: e.target.value }))} placeholder="optional" />
+                </div>
+                <div className="field">
+                  <label>Duration (minutes)</label>
+                  <input
+                    type="number"
+                    min={10}
+                    max={600}
+                    value={paperSpec.durationMinutes}
+                    onChange={(e) => setPaperSpec((p) => ({ ...p, durationMinutes: Number(e.target.value) }))}
+                  />
+                </div>
+                <div className="field">
+                  <label>Difficulty</label>
+                  <select value={paperSpec.difficulty} onChange={(e) => setPaperSpec((p) => ({ ...p, difficulty: e.target.value as any }))}>
+                    <option value="easy">Easy</option>
+                    <option value="moderate">Moderate</option>
+                    <option value="hard">Hard</option>
+                    <option value="mixed">Mixed</option>
+                  </select>
+                </div>
 
-              <div className="field fullRow">
-                <label>Question types and counts</label>
-                <div className="miniNote">
-                  Total marks (auto): <b>{computedPaperTotals.totalMarks}</b>
+                <div className="field fullRow">
+                  <label>Question types and counts</label>
+                  <div className="miniNote">
+                    Total marks (auto): <b>{computedPaperTotals.totalMarks}</b>
+                  </div>
                 </div>
-              </div>
 
-              <div className="field fullRow">
-                <div className="sectionEditor">
-                  {computedPaperTotals.sections.map((s, idx) => (
-                    <div key={idx} className="sectionRow">
-                      <div className="field">
-                        <label>Section title</label>
-                        <input
-                          value={s.title}
-                          onChange={(e) =>
-                            setPaperSpec((p) => ({
-                              ...p,
-                              sections: p.sections.map((x, i) => (i === idx ? { ...x, title: e.target.value } : x))
-                            }))
-                          }
-                        />
-                      </div>
-                      <div className="field">
-                        <label>Type</label>
-                        <select
-                          value={s.type}
-                          onChange={(e) =>
-                            setPaperSpec((p) => ({
-                              ...p,
-                              sections: p.sections.map((x, i) => (i === idx ? { ...x, type: e.target.value as PaperSectionType } : x))
-                            }))
-                          }
-                        >
-                          <option value="mcq">MCQ</option>
-                          <option value="short">Short</option>
-                          <option value="long">Long</option>
-                          <option value="case_based">Case-based</option>
-                          <option value="mixed">Mixed</option>
-                        </select>
-                      </div>
-                      <div className="field">
-                        <label>Questions</label>
-                        <input
-                          type="number"
-                          min={1}
-                          max={200}
-                          value={s.numQuestions}
-                          onChange={(e) =>
-                            setPaperSpec((p) => ({
-                              ...p,
-                              sections: p.sections.map((x, i) => (i === idx ? { ...x, numQuestions: Number(e.target.value) } : x))
-                            }))
-                          }
-                        />
-                      </div>
-                      <div className="field">
-                        <label>Marks each</label>
-                        <input value={String(s.marksEach)} disabled />
-                      </div>
-                      <div className="field">
-                        <label>Section marks</label>
-                        <input value={String(s.sectionMarks)} disabled />
-                      </div>
-                      <div className="sectionActions">
-                        <button
-                          className="btnSecondary"
-                          type="button"
-                          onClick={() =>
-                            setPaperSpec((p) => ({ ...p, sections: p.sections.filter((_, i) => i !== idx) }))
-                          }
-                          disabled={paperSpec.sections.length <= 1}
-                        >
-                          Remove
-                        </button>
+                <div className="field fullRow">
+                  <div className="sectionEditor">
+                    {computedPaperTotals.sections.map((s, idx) => (
+                      <div key={idx} className="sectionRow">
+                        <div className="field">
+                          <label>Section title</label>
+                          <input
+                            value={s.title}
+                            onChange={(e) =>
+                              setPaperSpec((p) => ({
+                                ...p,
+                                sections: p.sections.map((x, i) => (i === idx ? { ...x, title: e.target.value } : x))
+                              }))
+                            }
+                          />
+                        </div>
+                        <div className="field">
+                          <label>Type</label>
+                          <select
+                            value={s.type}
+                            onChange={(e) =>
+                              setPaperSpec((p) => ({
+                                ...p,
+                                sections: p.sections.map((x, i) => (i === idx ? { ...x, type: e.target.value as PaperSectionType } : x))
+                              }))
+                            }
+                          >
+                            <option value="mcq">MCQ</option>
+                            <option value="short">Short</option>
+                            <option value="long">Long</option>
+                            <option value="case_based">Case-based</option>
+                            <option value="mixed">Mixed</option>
+                          </select>
+                        </div>
+                        <div className="field">
+                          <label>Questions</label>
+                          <input
+                            type="number"
+                            min={1}
+                            max={200}
+                            value={s.numQuestions}
+                            onChange={(e) =>
+                              setPaperSpec((p) => ({
+                                ...p,
+                                sections: p.sections.map((x, i) => (i === idx ? { ...x, numQuestions: Number(e.target.value) } : x))
+                              }))
+                            }
+                          />
+                        </div>
+                        <div className="field">
+                          <label>Marks each</label>
+                          <input value={String(s.marksEach)} disabled />
+                        </div>
+                        <div className="field">
+                          <label>Section marks</label>
+                          <input value={String(s.sectionMarks)} disabled />
+                        </div>
+                        <div className="sectionActions">
+                          <button
+                            className="btnSecondary"
+                            type="button"
+                            onClick={() =>
+                              setPaperSpec((p) => ({ ...p, sections: p.sections.filter((_, i) => i !== idx) }))
+                            }
+                            disabled={paperSpec.sections.length <= 1}
+                          >
+                            Remove
+                          </button>
+                        </div>
                       </div>
+                    ))}
+                    <div className="sectionAdd">
+                      <button
+                        className="btnSecondary"
+                        type="button"
+                        onClick={() =>
+                          setPaperSpec((p) => ({
+                            ...p,
+                            sections: [...p.sections, { title: `Section ${String.fromCharCode(65 + p.sections.length)}`, type: "mcq", numQuestions: 5 }]
+                          }))
+                        }
+                      >
+                        Add section
+                      </button>
                     </div>
-                  ))}
-                  <div className="sectionAdd">
-                    <button
-                      className="btnSecondary"
-                      type="button"
-                      onClick={() =>
-                        setPaperSpec((p) => ({
-                          ...p,
-                          sections: [...p.sections, { title: `Section ${String.fromCharCode(65 + p.sections.length)}`, type: "mcq", numQuestions: 5 }]
-                        }))
-                      }
-                    >
-                      Add section
-                    </button>
                   </div>
                 </div>
               </div>
-            </div>
-          ) : mode === "scanScore" ? (
-            <div className="grid">
-              <div className="field">
-                <label>Expected out of (optional)</label>
-                <input type="number" min={1} max={1000} value={expectedOutOf} onChange={(e) => setExpectedOutOf(Number(e.target.value))} />
-              </div>
-              <div className="field">
-                <label>Label hint (optional)</label>
-                <input value={labelHint} onChange={(e) => setLabelHint(e.target.value)} placeholder="marks / score / total" />
-              </div>
-              <div className="field">
-                <label>Upload first page image</label>
-                <input type="file" accept="image/*" onChange={(e) => setScoreImage(e.target.files?.[0] || null)} />
-              </div>
-            </div>
-          ) : (
-            <div className="grid">
-              <div className="field">
-                <label>Subject (optional)</label>
-                <input value={subject} onChange={(e) => setSubject(e.target.value)} placeholder="e.g., Biology, History, Math" />
-              </div>
-              <div className="field">
-                <label>Strictness</label>
-                <select value={strictness} onChange={(e) => setStrictness(e.target.value as any)}>
-                  <option value="strict">Strict</option>
-                  <option value="balanced">Balanced</option>
-                  <option value="lenient">Lenient</option>
-                </select>
+            ) : mode === "scanScore" ? (
+              <div className="grid">
+                <div className="field">
+                  <label>Expected out of (optional)</label>
+                  <input type="number" min={1} max={1000} value={expectedOutOf} onChange={(e) => setExpectedOutOf(Number(e.target.value))} />
+                </div>
+                <div className="field">
+                  <label>Label hint (optional)</label>
+                  <input value={labelHint} onChange={(e) => setLabelHint(e.target.value)} placeholder="marks / score / total" />
+                </div>
+                <div className="field">
+                  <label>Upload first page image</label>
+                  <input type="file" accept="image/*,.heic,.heif" onChange={(e) => setScoreImage(e.target.files?.[0] || null)} />
+                </div>
               </div>
-              <div className="field">
-                <label>Max marks per question</label>
-                <input
-                  type="number"
-                  min={1}
-                  max={50}
-                  value={maxMarksPerQuestion}
-                  onChange={(e) => setMaxMarksPerQuestion(Number(e.target.value))}
-                />
+            ) : (
+              <div className="grid">
+                <div className="field">
+                  <label>Subject (optional)</label>
+                  <input value={subject} onChange={(e) => setSubject(e.target.value)} placeholder="e.g., Biology, History, Math" />
+                </div>
+                <div className="field">
+                  <label>Strictness</label>
+                  <select value={strictness} onChange={(e) => setStrictness(e.target.value as any)}>
+                    <option value="strict">Strict</option>
+                    <option value="balanced">Balanced</option>
+                    <option value="lenient">Lenient</option>
+                  </select>
+                </div>
+                <div className="field">
+                  <label>Max marks per question</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={maxMarksPerQuestion}
+                    onChange={(e) => setMaxMarksPerQuestion(Number(e.target.value))}
+                  />
+                </div>
               </div>
-            </div>
-          )}
-
-          {mode === "evaluate" ? (
-            <div className="twoCol">
-            <div className="pane">
-              <div className="paneTitle">Model Answer Key</div>
-              <div className="field">
-                <label>Upload (PDF/image)</label>
-                <input type="file" accept="application/pdf,image/*" onChange={(e) => setModelFile(e.target.files?.[0] || null)} />
+            )}
+
+            {mode === "evaluate" ? (
+              <div className="twoCol">
+              <div className="pane">
+                <div className="paneTitle">Model Answer Key</div>
+                <div className="field">
+                  <label>Upload (PDF/images, one per page)</label>
+                  <input
+                    type="file"
+                    multiple
+                    accept="application/pdf,image/*,.heic,.heif"
+                    onChange={(e) => setModelFiles(Array.from(e.target.files ?? []))}
+                  />
+                </div>
+                <div className="field">
+                  <label>Or paste text</label>
+                  <textarea
+                    value={modelText}
+                    onChange={(e) => setModelText(e.target.value)}
+                    placeholder={"Preferred format:\nQ1: ...\nQ2: ...\nQ3: ..."}
+                  />
+                </div>
               </div>
-              <div className="field">
-                <label>Or paste text</label>
-                <textarea
-                  value={modelText}
-                  onChange={(e) => setModelText(e.target.value)}
-                  placeholder={"Preferred format:\nQ1: ...\nQ2: ...\nQ3: ..."}
-                />
+
+              <div className="pane">
+                <div className="paneTitle">Student Answer Sheet</div>
+                <div className="field">
+                  <label>Upload (PDF/images, one per page)</label>
+                  <input
+                    type="file"
+                    multiple
+                    accept="application/pdf,image/*,.heic,.heif"
+                    onChange={(e) => setStudentFiles(Array.from(e.target.files ?? []))}
+                  />
+                </div>
+                <div className="field">
+                  <label>Or paste text</label>
+                  <textarea
+                    value={studentText}
+                    onChange={(e) => setStudentText(e.target.value)}
+                    placeholder={"Preferred format:\nQ1: ...\nQ2: ...\nQ3: ..."}
+                  />
+                </div>
               </div>
             </div>
+            ) : null}
 
-            <div className="pane">
-              <div className="paneTitle">Student Answer Sheet</div>
-              <div className="field">
-                <label>Upload (PDF/image)</label>
-                <input type="file" accept="application/pdf,image/*" onChange={(e) => setStudentFile(e.target.files?.[0] || null)} />
-              </div>
-              <div className="field">
-                <label>Or paste text</label>
-                <textarea
-                  value={studentText}
-                  onChange={(e) => setStudentText(e.target.value)}
-                  placeholder={"Preferred format:\nQ1: ...\nQ2: ...\nQ3: ..."}
-                />
+            {error ? <div className="error">{error}</div> : null}
+            {warnings.length ? (
+              <div className="warn">
+                {warnings.map((w, idx) => (
+                  <div key={idx} className="warnItem">
+                    {w}
+                  </div>
+                ))}
               </div>
-            </div>
-          </div>
-          ) : null}
-
-          {error ? <div className="error">{error}</div> : null}
-          {warnings.length ? (
-            <div className="warn">
-              {warnings.map((w, idx) => (
-                <div key={idx} className="warnItem">
-                  {w}
-                </div>
-              ))}
-            </div>
-          ) : null}
+            ) : null}
 
-          <div className="actions">
-            <button className="btn" disabled={!canSubmit} onClick={onSubmit}>
-              {loading ? "Processing..." : mode === "generatePaper" ? "Generate" : mode === "scanScore" ? "Scan" : "Evaluate"}
-            </button>
-            {mode === "evaluate" ? (
-              <button className="btnSecondary" disabled={!pdfBase64} onClick={downloadPdf}>
-                Download PDF
+            <div className="actions">
+              <button className="btn" disabled={!canSubmit} onClick={onSubmit}>
+                {loading
+                  ? job
+                    ? describeJob(job)
+                    : "Processing..."
+                  : mode === "generatePaper"
+                    ? "Generate"
+                    : mode === "scanScore"
+                      ? "Scan"
+                      : "Evaluate"}
               </button>
-            ) : null}
-          </div>
-        </section>
+              {loading && job ? (
+                <button className="btnSecondary" onClick={cancelJob}>
+                  Cancel
+                </button>
+              ) : null}
+              {mode === "evaluate" ? (
+                <button className="btnSecondary" disabled={!canSubmit} onClick={checkAlignment}>
+                  Check numbering
+                </button>
+              ) : null}
+              {mode === "evaluate" ? (
+                <button className="btnSecondary" disabled={!pdfBase64} onClick={downloadPdf}>
+                  Download PDF
+                </button>
+              ) : null}
+            </div>
+          </section>
+        )}
 
         {mode === "scanScore" && extractedScore ? (
           <section className="card">
@@ -539,6 +791,50 @@ export default function App() {
                     : "None"}
                 </div>
               </div>
+              {(extractedScore?.score?.questions || []).length ? (
+                <div className="summaryBlock">
+                  <div className="summaryLabel">Question marks</div>
+                  <div className="summaryText">
+                    {extractedScore.score.questions
+                      .map((q: { questionId: string; marks: number }) => `Q${q.questionId}: ${q.marks}`)
+                      .join(", ")}
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          </section>
+        ) : null}
+
+        {mode === "evaluate" && alignment.length ? (
+          <section className="card">
+            <div className="cardHeader">
+              <h2>Answer mapping</h2>
+              <p>Which question each student answer is graded as. Change it and press Evaluate to grade with your mapping.</p>
+            </div>
+            <div className="qList">
+              {alignment.map((a) => (
+                <div key={a.studentQuestionId} className="qRow">
+                  <div className="qTop">
+                    <div className="qTitle">Student answer {a.studentQuestionId}</div>
+                    <select
+                      value={a.questionId ?? ""}
+                      onChange={(e) => updateAlignment(a.studentQuestionId, e.target.value || null)}
+                    >
+                      {[...new Set([...alignQuestionIds, a.studentQuestionId, ...(a.questionId ? [a.questionId] : [])])].map(
+                        (id) => (
+                          <option key={id} value={id}>
+                            Q{id}
+                          </option>
+                        )
+                      )}
+                      <option value="">Not graded</option>
+                    </select>
+                  </div>
+                  <div className="qWeak">
+                    {ALIGNMENT_METHOD_LABELS[a.method]} (similarity {Math.round(a.similarity * 100)}%)
+                  </div>
+                </div>
+              ))}
             </div>
           </section>
         ) : null}
@@ -550,9 +846,40 @@ export default function App() {
               <p>
                 Total: <b>{evaluation.totalMarks}</b> / {evaluation.maxTotalMarks}{" "}
                 <span className="pill">confidence {Math.round(evaluation.confidence * 100)}%</span>
+                {review ? (
+                  <span className="pill">
+                    {review.status === "reviewed"
+                      ? `reviewed by ${review.reviewedBy}`
+                      : openFlags.size
+                        ? `${openFlags.size} to review`
+                        : "not reviewed"}
+                  </span>
+                ) : null}
               </p>
             </div>
 
+            {review && evaluationId ? (
+              <div className="reviewBar">
+                <div className="field">
+                  <label>Reviewer</label>
+                  <input value={reviewer} onChange={(e) => setReviewer(e.target.value)} placeholder="Your name" />
+                </div>
+                {review.status === "reviewed" ? (
+                  <button className="btnSecondary" disabled={loading} onClick={() => void saveReview({ reviewed: false })}>
+                    Reopen review
+                  </button>
+                ) : (
+                  <button
+                    className="btn"
+                    disabled={loading || openFlags.size > 0}
+                    onClick={() => void saveReview({ reviewed: true })}
+                  >
+                    Mark reviewed
+                  </button>
+                )}
+              </div>
+            ) : null}
+
             <div className="summary">
               <div className="summaryBlock">
                 <div className="summaryLabel">Weak areas</div>
@@ -573,8 +900,84 @@ export default function App() {
                       {q.marksAwarded} / {q.maxMarks}
                     </div>
                   </div>
-                  <div className="qFeedback">{q.feedback}</div>
-                  {q.deductions.length ? (
+                  {openFlags.has(q.questionId) ? (
+                    <div className="qFlag">Needs review: {openFlags.get(q.questionId)?.reasons.join("; ")}</div>
+                  ) : null}
+                  {editing?.questionId === q.questionId ? (
+                    <div className="reviewEditor">
+                      <div className="field">
+                        <label>Marks (out of {q.maxMarks})</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={q.maxMarks}
+                          step={0.5}
+                          value={editing.draft.marksAwarded}
+                          onChange={(e) => updateDraft({ marksAwarded: e.target.value })}
+                        />
+                      </div>
+                      <div className="field">
+                        <label>Feedback</label>
+                        <textarea value={editing.draft.feedback} onChange={(e) => updateDraft({ feedback: e.target.value })} />
+                      </div>
+                      {editing.draft.deductions.map((d, idx) => (
+                        <div key={idx} className="deduction">
+                          <span className="deductionMarks">-{d.marks}</span>
+                          <span>
+                            {d.reason}{" "}
+                            <button
+                              className="btnSecondary"
+                              type="button"
+                              onClick={() => updateDraft({ deductions: editing.draft.deductions.filter((_, i) => i !== idx) })}
+                            >
+                              Remove
+                            </button>
+                          </span>
+                        </div>
+                      ))}
+                      <div className="reviewDeduction">
+                        <input
+                          value={editing.draft.reason}
+                          onChange={(e) => updateDraft({ reason: e.target.value })}
+                          placeholder="Deduction reason"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={editing.draft.marks}
+                          onChange={(e) => updateDraft({ marks: e.target.value })}
+                        />
+                        <button
+                          className="btnSecondary"
+                          type="button"
+                          disabled={!editing.draft.reason.trim()}
+                          onClick={() =>
+                            updateDraft({
+                              deductions: [
+                                ...editing.draft.deductions,
+                                { reason: editing.draft.reason.trim(), marks: Number(editing.draft.marks) || 0 }
+                              ],
+                              reason: ""
+                            })
+                          }
+                        >
+                          Add deduction
+                        </button>
+                      </div>
+                      <div className="reviewActions">
+                        <button className="btn" type="button" disabled={loading} onClick={saveEditing}>
+                          Save
+                        </button>
+                        <button className="btnSecondary" type="button" onClick={() => setEditing(null)}>
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="qFeedback">{q.feedback}</div>
+                  )}
+                  {q.deductions.length && editing?.questionId !== q.questionId ? (
                     <div className="qDeductions">
                       {q.deductions.map((d, idx) => (
                         <div key={idx} className="deduction">
@@ -585,6 +988,43 @@ export default function App() {
                     </div>
                   ) : null}
                   {q.weakAreas.length ? <div className="qWeak">Weak: {q.weakAreas.join(", ")}</div> : null}
+                  {q.awardedRubricPoints?.length ? (
+                    <div className="qWeak">Rubric points awarded: {q.awardedRubricPoints.join(", ")}</div>
+                  ) : null}
+                  {q.coverage?.length ? (
+                    <div className="qWeak">
+                      {q.coverage.map((c, idx) => (
+                        <div key={idx}>
+                          {c.covered ? "Covered" : "Missed"} ({Math.round(c.similarity * 100)}%): {c.text}
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+                  {q.consistency ? (
+                    <div className="qWeak">
+                      Grading samples: {q.consistency.samples.map((sample) => sample.marksAwarded).join(", ")}
+                    </div>
+                  ) : null}
+                  {answerSourceLabels.has(q.questionId) ? (
+                    <div className="qWeak">{answerSourceLabels.get(q.questionId)}</div>
+                  ) : null}
+                  {review && evaluationId && editing?.questionId !== q.questionId ? (
+                    <div className="reviewActions">
+                      <button className="btnSecondary" type="button" disabled={loading} onClick={() => startEditing(q)}>
+                        Edit
+                      </button>
+                      {openFlags.has(q.questionId) ? (
+                        <button
+                          className="btnSecondary"
+                          type="button"
+                          disabled={loading}
+                          onClick={() => void saveReview({ questions: [{ questionId: q.questionId, confirm: true }] })}
+                        >
+                          Confirm
+                        </button>
+                      ) : null}
+                    </div>
+                  ) : null}
                 </div>
               ))}
             </div>
@@ -0,0 +1,477 @@
+import { useEffect, useMemo, useState } from "react";
+
+type SchoolClass = { id: string; name: string; section: string | null; academicYear: string | null };
+type Student = { id: string; rollNumber: string; name: string };
+type Exam = { id: string; name: string; subject: string; dateIso: string | null; createdAtIso: string };
+
+type EvaluationSummary = {
+  evaluationId: string;
+  createdAtIso: string;
+  studentId: string | null;
+  examId: string | null;
+  totalMarks: number;
+  maxTotalMarks: number;
+  reviewStatus: "pending" | "reviewed";
+  batch: { label: string } | null;
+};
+
+type ScorePoint = {
+  evaluationId: string;
+  createdAtIso: string;
+  examId: string | null;
+  examName: string | null;
+  subject: string | null;
+  dateIso: string | null;
+  percentage: number;
+};
+type StudentTrend = { points: ScorePoint[]; change: number | null; slopePerExam: number | null };
+
+type ExamAnalytics = {
+  examId: string;
+  subject: string;
+  distribution: {
+    students: number;
+    mean: number | null;
+    median: number | null;
+    stdDev: number | null;
+    percentiles: { p10: number; p25: number; p75: number; p90: number } | null;
+    histogram: Array<{ fromPercent: number; toPercent: number; students: number }>;
+  };
+  questions: Array<{
+    questionId: string;
+    maxMarks: number;
+    attempts: number;
+    averageMarks: number;
+    difficultyIndex: number;
+    discriminationIndex: number | null;
+  }>;
+  commonWeakAreas: Array<{ area: string; students: number }>;
+};
+
+const HISTORY_ROWS = 20;
+
+async function getJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  const json = await res.json();
+  if (!res.ok) throw new Error(json?.error || "Request failed");
+  return json as T;
+}
+
+function classLabel(c: SchoolClass): string {
+  return [c.section ? `${c.name}-${c.section}` : c.name, c.academicYear].filter(Boolean).join(" ");
+}
+
+function examDate(exam: Exam): string {
+  return (exam.dateIso ?? exam.createdAtIso).slice(0, 10);
+}
+
+function inRange(day: string, from: string, to: string): boolean {
+  return (!from || day >= from) && (!to || day <= to);
+}
+
+// History and analytics for one class, filtered by subject and date range.
+export default function Dashboard() {
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [classId, setClassId] = useState("");
+  const [students, setStudents] = useState<Student[]>([]);
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [history, setHistory] = useState<EvaluationSummary[]>([]);
+  const [subject, setSubject] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [studentId, setStudentId] = useState("");
+  const [trend, setTrend] = useState<StudentTrend | null>(null);
+  const [examId, setExamId] = useState("");
+  const [examStats, setExamStats] = useState<Record<string, ExamAnalytics>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getJson<{ classes: SchoolClass[] }>("/api/classes")
+      .then((json) => {
+        setClasses(json.classes);
+        if (json.classes.length) setClassId((current) => current || json.classes[0].id);
+      })
+      .catch((e: Error) => setError(e.message));
+  }, []);
+
+  useEffect(() => {
+    if (!classId) return;
+    setStudentId("");
+    setExamId("");
+    setTrend(null);
+    setError(null);
+    const query = `classId=${encodeURIComponent(classId)}`;
+    Promise.all([
+      getJson<{ students: Student[] }>(`/api/students?${query}`),
+      getJson<{ exams: Exam[] }>(`/api/exams?${query}`),
+      getJson<{ evaluations: EvaluationSummary[] }>(`/api/evaluations?${query}`)
+    ])
+      .then(([s, e, h]) => {
+        setStudents(s.students);
+        setExams(e.exams);
+        setHistory(h.evaluations);
+      })
+      .catch((e: Error) => setError(e.message));
+  }, [classId]);
+
+  const subjects = useMemo(() => [...new Set(exams.map((e) => e.subject))].sort(), [exams]);
+
+  const visibleExams = useMemo(
+    () =>
+      exams
+        .filter((e) => (!subject || e.subject === subject) && inRange(examDate(e), fromDate, toDate))
+        .sort((a, b) => examDate(a).localeCompare(examDate(b))),
+    [exams, subject, fromDate, toDate]
+  );
+
+  // Exam analytics are fetched once per exam and kept while the filters change.
+  useEffect(() => {
+    const missing = visibleExams.filter((e) => !examStats[e.id]);
+    if (!missing.length) return;
+    Promise.all(missing.map((e) => getJson<ExamAnalytics>(`/api/analytics/exams/${e.id}`)))
+      .then((loaded) => setExamStats((current) => ({ ...current, ...Object.fromEntries(loaded.map((a) => [a.examId, a])) })))
+      .catch((e: Error) => setError(e.message));
+  }, [visibleExams, examStats]);
+
+  useEffect(() => {
+    setTrend(null);
+    if (!studentId) return;
+    getJson<StudentTrend>(`/api/analytics/students/${studentId}/trend`)
+      .then(setTrend)
+      .catch((e: Error) => setError(e.message));
+  }, [studentId]);
+
+  const trendPoints = useMemo(
+    () =>
+      (trend?.points ?? []).filter(
+        (p) => (!subject || p.subject === subject) && inRange((p.dateIso ?? p.createdAtIso).slice(0, 10), fromDate, toDate)
+      ),
+    [trend, subject, fromDate, toDate]
+  );
+
+  const studentNames = useMemo(() => new Map(students.map((s) => [s.id, `${s.rollNumber}. ${s.name}`])), [students]);
+  const examsById = useMemo(() => new Map(exams.map((e) => [e.id, e])), [exams]);
+
+  const visibleHistory = useMemo(() => {
+    const examIds = new Set(visibleExams.map((e) => e.id));
+    return history
+      .filter((h) => inRange(h.createdAtIso.slice(0, 10), fromDate, toDate))
+      .filter((h) => !subject || (h.examId !== null && examIds.has(h.examId)))
+      .slice(0, HISTORY_ROWS);
+  }, [history, visibleExams, subject, fromDate, toDate]);
+
+  const selectedExam = examId ? examStats[examId] : undefined;
+
+  return (
+    <>
+      <section className="card">
+        <div className="cardHeader">
+          <h2>Dashboard</h2>
+          <p>Score trends, weak areas and exam statistics from stored evaluations.</p>
+        </div>
+        <div className="grid dashFilters">
+          <div className="field">
+            <label>Class</label>
+            <select value={classId} onChange={(e) => setClassId(e.target.value)}>
+              {classes.length ? null : <option value="">No classes yet</option>}
+              {classes.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {classLabel(c)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="field">
+            <label>Subject</label>
+            <select value={subject} onChange={(e) => setSubject(e.target.value)}>
+              <option value="">All subjects</option>
+              {subjects.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="field">
+            <label>Date range</label>
+            <div className="dateRange">
+              <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        {error ? <div className="error">{error}</div> : null}
+      </section>
+
+      <section className="card">
+        <div className="cardHeader">
+          <h2>Student trend</h2>
+          <p>
+            Percentage per exam.
+            {trend && trend.change !== null ? (
+              <span className="pill">
+                {trend.change >= 0 ? "+" : ""}
+                {trend.change} points since the first exam
+              </span>
+            ) : null}
+          </p>
+        </div>
+        <div className="dashBody">
+          <div className="field">
+            <label>Student</label>
+            <select value={studentId} onChange={(e) => setStudentId(e.target.value)}>
+              <option value="">Choose a student</option>
+              {students.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {studentNames.get(s.id)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {studentId ? <TrendChart points={trendPoints} /> : null}
+        </div>
+      </section>
+
+      <section className="card">
+        <div className="cardHeader">
+          <h2>Weak areas by subject</h2>
+          <p>Share of evaluated students whose answers were flagged for each area.</p>
+        </div>
+        <WeakAreaHeatmap exams={visibleExams.map((e) => examStats[e.id]).filter((a) => a !== undefined)} />
+      </section>
+
+      <section className="card">
+        <div className="cardHeader">
+          <h2>Exams</h2>
+          <p>Score distribution per exam. Choose an exam for its question analysis.</p>
+        </div>
+        <div className="examGrid">
+          {visibleExams.map((exam) => {
+            const stats = examStats[exam.id];
+            return (
+              <button
+                key={exam.id}
+                type="button"
+                className={exam.id === examId ? "examCard examCardActive" : "examCard"}
+                onClick={() => setExamId(exam.id)}
+              >
+                <div className="qTop">
+                  <div className="qTitle">{exam.name}</div>
+                  <div className="summaryLabel">
+                    {exam.subject}, {examDate(exam)}
+                  </div>
+                </div>
+                {stats ? (
+                  <>
+                    <Histogram bins={stats.distribution.histogram} />
+                    <div className="summaryLabel">
+                      {stats.distribution.students} students, mean {stats.distribution.mean ?? "-"}%, median{" "}
+                      {stats.distribution.median ?? "-"}%
+                    </div>
+                  </>
+                ) : (
+                  <div className="summaryLabel">Loading...</div>
+                )}
+              </button>
+            );
+          })}
+          {visibleExams.length ? null : <div className="miniNote">No exams match the filters.</div>}
+        </div>
+        {selectedExam ? <ItemAnalysisTable exam={selectedExam} /> : null}
+      </section>
+
+      <section className="card">
+        <div className="cardHeader">
+          <h2>Recent evaluations</h2>
+        </div>
+        <div className="tableWrap">
+          <table className="dataTable">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Student</th>
+                <th>Exam</th>
+                <th>Marks</th>
+                <th>Review</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleHistory.map((h) => (
+                <tr key={h.evaluationId}>
+                  <td>{h.createdAtIso.slice(0, 10)}</td>
+                  <td>{(h.studentId && studentNames.get(h.studentId)) || h.batch?.label || "-"}</td>
+                  <td>{(h.examId && examsById.get(h.examId)?.name) || "-"}</td>
+                  <td>
+                    {h.totalMarks} / {h.maxTotalMarks}
+                  </td>
+                  <td>{h.reviewStatus}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleHistory.length ? null : <div className="miniNote">No evaluations match the filters.</div>}
+        </div>
+      </section>
+    </>
+  );
+}
+
+function TrendChart({ points }: { points: ScorePoint[] }) {
+  if (!points.length) return <div className="miniNote">No evaluations for this student match the filters.</div>;
+  const width = 640;
+  const height = 220;
+  const pad = { left: 36, right: 16, top: 12, bottom: 40 };
+  const x = (i: number) =>
+    pad.left + (points.length === 1 ? 0.5 : i / (points.length - 1)) * (width - pad.left - pad.right);
+  const y = (percentage: number) => pad.top + (1 - percentage / 100) * (height - pad.top - pad.bottom);
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Score trend">
+      {[0, 25, 50, 75, 100].map((tick) => (
+        <g key={tick}>
+          <line className="chartGrid" x1={pad.left} x2={width - pad.right} y1={y(tick)} y2={y(tick)} />
+          <text className="chartLabel" x={pad.left - 6} y={y(tick) + 4} textAnchor="end">
+            {tick}
+          </text>
+        </g>
+      ))}
+      <polyline className="chartLine" points={points.map((p, i) => `${x(i)},${y(p.percentage)}`).join(" ")} />
+      {points.map((p, i) => (
+        <g key={p.evaluationId}>
+          <circle className="chartDot" cx={x(i)} cy={y(p.percentage)} r={4}>
+            <title>
+              {p.examName ?? "Evaluation"}: {p.percentage}%
+            </title>
+          </circle>
+          <text className="chartLabel" x={x(i)} y={height - pad.bottom + 16} textAnchor="middle">
+            {(p.examName ?? (p.dateIso ?? p.createdAtIso).slice(0, 10)).slice(0, 14)}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+function Histogram({ bins }: { bins: ExamAnalytics["distribution"]["histogram"] }) {
+  const width = 300;
+  const height = 90;
+  const max = Math.max(1, ...bins.map((b) => b.students));
+  const barWidth = width / bins.length;
+  return (
+    <svg className="chart" viewBox={`0 0 ${width} ${height + 14}`} role="img" aria-label="Score distribution">
+      {bins.map((b, i) => {
+        const barHeight = (b.students / max) * height;
+        return (
+          <g key={b.fromPercent}>
+            <rect className="chartBar" x={i * barWidth + 2} y={height - barHeight} width={barWidth - 4} height={barHeight}>
+              <title>
+                {b.fromPercent}-{b.toPercent}%: {b.students} students
+              </title>
+            </rect>
+            {i % 2 === 0 ? (
+              <text className="chartLabel" x={i * barWidth + 2} y={height + 12}>
+                {b.fromPercent}
+              </text>
+            ) : null}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function WeakAreaHeatmap({ exams }: { exams: ExamAnalytics[] }) {
+  const { subjects, areas, share } = useMemo(() => {
+    // Per subject: students flagged for each area, out of all students evaluated in that subject's exams.
+    const flagged = new Map<string, Map<string, number>>();
+    const evaluated = new Map<string, number>();
+    for (const exam of exams) {
+      evaluated.set(exam.subject, (evaluated.get(exam.subject) ?? 0) + exam.distribution.students);
+      const counts = flagged.get(exam.subject) ?? new Map<string, number>();
+      for (const w of exam.commonWeakAreas) counts.set(w.area, (counts.get(w.area) ?? 0) + w.students);
+      flagged.set(exam.subject, counts);
+    }
+    const share = (subject: string, area: string) =>
+      (flagged.get(subject)?.get(area) ?? 0) / Math.max(1, evaluated.get(subject) ?? 0);
+    const subjects = [...flagged.keys()].sort();
+    const areas = [...new Set([...flagged.values()].flatMap((m) => [...m.keys()]))]
+      .map((area) => ({ area, worst: Math.max(...subjects.map((s) => share(s, area))) }))
+      .sort((a, b) => b.worst - a.worst)
+      .slice(0, 15)
+      .map((a) => a.area);
+    return { subjects, areas, share };
+  }, [exams]);
+
+  if (!areas.length) return <div className="dashBody miniNote">No weak areas recorded for these exams.</div>;
+  return (
+    <div className="tableWrap">
+      <table className="dataTable heatmap">
+        <thead>
+          <tr>
+            <th>Weak area</th>
+            {subjects.map((s) => (
+              <th key={s}>{s}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {areas.map((area) => (
+            <tr key={area}>
+              <td>{area}</td>
+              {subjects.map((s) => {
+                const value = share(s, area);
+                return (
+                  <td key={s} style={{ background: `rgba(255, 107, 107, ${Math.min(0.85, value)})` }}>
+                    {value ? `${Math.round(value * 100)}%` : ""}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Difficulty is the share of marks earned; discrimination below 0.2 means the question barely separates
+// strong from weak students.
+function ItemAnalysisTable({ exam }: { exam: ExamAnalytics }) {
+  const p = exam.distribution.percentiles;
+  return (
+    <div className="tableWrap">
+      <div className="summaryLabel">
+        Std. deviation {exam.distribution.stdDev ?? "-"}
+        {p ? `, percentiles 10th ${p.p10}%, 25th ${p.p25}%, 75th ${p.p75}%, 90th ${p.p90}%` : ""}
+      </div>
+      <table className="dataTable">
+        <thead>
+          <tr>
+            <th>Question</th>
+            <th>Max</th>
+            <th>Attempts</th>
+            <th>Average</th>
+            <th>Difficulty</th>
+            <th>Discrimination</th>
+          </tr>
+        </thead>
+        <tbody>
+          {exam.questions.map((q) => (
+            <tr key={q.questionId}>
+              <td>Q{q.questionId}</td>
+              <td>{q.maxMarks}</td>
+              <td>{q.attempts}</td>
+              <td>{q.averageMarks}</td>
+              <td className={q.difficultyIndex < 0.3 || q.difficultyIndex > 0.9 ? "cellWarn" : undefined}>
+                {q.difficultyIndex}
+              </td>
+              <td className={q.discriminationIndex !== null && q.discriminationIndex < 0.2 ? "cellWarn" : undefined}>
+                {q.discriminationIndex ?? "-"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}